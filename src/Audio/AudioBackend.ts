@@ -0,0 +1,88 @@
+/**
+ * The buses sounds are mixed through. Music and sound effects both feed the master bus.
+ */
+export type AudioBus = "master" | "music" | "sfx";
+
+/**
+ * How a backend should play a sound.
+ */
+export type VoiceOptions = {
+  /** The bus the sound plays through. */
+  bus: Exclude<AudioBus, "master">;
+  /** The volume, from 0 to 1. */
+  volume: number;
+  /** The stereo position, from -1 (left) to 1 (right). */
+  pan: number;
+  /** Whether the sound loops until it's stopped. */
+  loop: boolean;
+  /** How long to fade in from silence, in seconds. 0 starts at full volume. */
+  fadeIn: number;
+};
+
+/**
+ * A sound playing on a backend.
+ */
+export interface AudioVoice {
+  /** The name of the sound. */
+  readonly sound: string;
+  /** The bus the sound plays through. */
+  readonly bus: Exclude<AudioBus, "master">;
+  /**
+   * Changes the volume.
+   * @param {number} volume - The volume, from 0 to 1.
+   * @param {number} fade - How long to take, in seconds. Defaults to 0.
+   */
+  setVolume(volume: number, fade?: number): void;
+  /**
+   * Moves the sound between the speakers.
+   * @param {number} pan - The stereo position, from -1 (left) to 1 (right).
+   */
+  setPan(pan: number): void;
+  /**
+   * Stops the sound.
+   * @param {number} fade - How long to fade out for first, in seconds. Defaults to 0.
+   */
+  stop(fade?: number): void;
+  /** Called once the sound has finished or been stopped. */
+  onEnded: (() => void) | null;
+}
+
+/**
+ * Plays decoded sounds through the master, music and sfx buses. The AudioManager
+ * plays everything through one, so it can be swapped, such as for an in-memory
+ * stand-in in tests.
+ */
+export interface AudioBackend {
+  /**
+   * Decodes audio data into something the backend can play.
+   * @param {ArrayBuffer} data - The encoded audio data. It isn't changed.
+   * @returns {Promise<unknown>} The decoded sound.
+   */
+  decode(data: ArrayBuffer): Promise<unknown>;
+  /**
+   * Starts playing a decoded sound.
+   * @param {string} sound - The name of the sound.
+   * @param {unknown} buffer - The sound, as decoded by `decode`.
+   * @param {VoiceOptions} options - How to play it.
+   * @returns {AudioVoice} The playing sound.
+   */
+  play(sound: string, buffer: unknown, options: VoiceOptions): AudioVoice;
+  /**
+   * Sets the volume of a bus.
+   * @param {AudioBus} bus - The bus.
+   * @param {number} volume - The volume, from 0 to 1.
+   */
+  setBusVolume(bus: AudioBus, volume: number): void;
+  /**
+   * Pauses every sound.
+   */
+  suspend(): void;
+  /**
+   * Carries on playing after `suspend`.
+   */
+  resume(): void;
+  /**
+   * Stops everything and releases the backend's resources.
+   */
+  dispose(): void;
+}
@@ -0,0 +1,144 @@
+import { Vec2 } from "wtc-math";
+import { describe, expect, it } from "vitest";
+
+import { MemoryAudioBackend } from "./MemoryAudioBackend";
+import { memoryFetcher } from "../Core/AssetFetcher";
+import { AssetManager } from "../Core/AssetManager";
+import { GameEngine } from "../Core/GameEngine";
+import { HeadlessRenderer } from "../Graphics/HeadlessRenderer";
+
+const corrupt = new ArrayBuffer(4);
+
+/**
+ * A backend that fails to decode the corrupt sound.
+ */
+class TestAudioBackend extends MemoryAudioBackend {
+  async decode(data: ArrayBuffer): Promise<unknown> {
+    if (data === corrupt) throw new Error("Unable to decode audio data");
+    return data;
+  }
+}
+
+const createAudio = async () => {
+  const assets = new AssetManager({
+    manifest: {
+      fire: { type: "audio", url: "fire.wav" },
+      theme: { type: "audio", url: "theme.wav" },
+      boss: { type: "audio", url: "boss.wav" },
+      broken: { type: "audio", url: "broken.wav" },
+      unloaded: { type: "audio", url: "unloaded.wav" },
+    },
+    fetcher: memoryFetcher({
+      "fire.wav": new ArrayBuffer(8),
+      "theme.wav": new ArrayBuffer(8),
+      "boss.wav": new ArrayBuffer(8),
+      "broken.wav": corrupt,
+    }),
+  });
+  await assets.load(["fire", "theme", "boss", "broken"]);
+  const backend = new TestAudioBackend();
+  const engine = new GameEngine({
+    renderer: new HeadlessRenderer(),
+    dimensions: new Vec2(800, 600),
+    dpr: 1,
+    seed: 1,
+    assets,
+    audio: backend,
+  });
+  const audio = engine.audio;
+  const errors: string[] = [];
+  audio.events.on("error", ({ name, error }) =>
+    errors.push(`${name}: ${error.message}`)
+  );
+  return { audio, backend, errors };
+};
+
+/**
+ * Waits for the sounds being decoded.
+ */
+const decoded = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("AudioManager", () => {
+  it("plays a sound once it's decoded", async () => {
+    const { audio, backend } = await createAudio();
+
+    expect(audio.play("fire")).toBeNull();
+    await decoded();
+
+    expect(backend.playing.map((voice) => voice.sound)).toEqual(["fire"]);
+    expect(audio.play("fire", { volume: 0.5 })).not.toBeNull();
+    expect(backend.playing[1]).toMatchObject({ bus: "sfx", volume: 0.5 });
+  });
+
+  it("cuts off the oldest voice of a sound past the voice limit", async () => {
+    const { audio, backend } = await createAudio();
+    await audio.prepare("fire");
+    audio.maxVoices = 2;
+
+    const voices = [audio.play("fire"), audio.play("fire"), audio.play("fire")];
+
+    expect(backend.playing).toEqual([voices[1], voices[2]]);
+    // A voice that ends makes room without cutting another off
+    backend.finish(voices[1]!);
+    audio.play("fire");
+    expect(backend.playing).toHaveLength(2);
+    expect(backend.playing[0]).toBe(voices[2]);
+  });
+
+  it("cancels sounds still decoding when everything is stopped", async () => {
+    const { audio, backend } = await createAudio();
+
+    audio.play("fire");
+    audio.playMusic("theme");
+    audio.stopAll();
+    await decoded();
+
+    expect(backend.played).toEqual([]);
+    expect(audio.music).toBeNull();
+  });
+
+  it("crossfades from the music playing", async () => {
+    const { audio, backend } = await createAudio();
+    audio.playMusic("theme", { fade: 2 });
+    await decoded();
+    const [theme] = backend.playing;
+    expect(theme).toMatchObject({ sound: "theme", bus: "music", loop: true });
+
+    audio.playMusic("boss", { fade: 3 });
+    await decoded();
+
+    expect(theme.ended).toBe(true);
+    expect(backend.playing).toHaveLength(1);
+    expect(backend.playing[0]).toMatchObject({ sound: "boss", fadeIn: 3 });
+    expect(audio.music).toBe("boss");
+  });
+
+  it("only plays the last music asked for while decoding", async () => {
+    const { audio, backend } = await createAudio();
+
+    audio.playMusic("theme");
+    audio.playMusic("boss");
+    await decoded();
+
+    expect(backend.played.map((voice) => voice.sound)).toEqual(["boss"]);
+    expect(audio.music).toBe("boss");
+  });
+
+  it("emits errors for sounds that aren't loaded or can't be decoded", async () => {
+    const { audio, backend, errors } = await createAudio();
+
+    audio.play("unloaded");
+    audio.playMusic("broken");
+    await decoded();
+
+    expect(backend.played).toEqual([]);
+    expect(audio.music).toBeNull();
+    expect(errors).toEqual([
+      'unloaded: The asset "unloaded" hasn\'t been loaded.',
+      "broken: Unable to decode audio data",
+    ]);
+    await expect(audio.prepare("broken")).rejects.toThrow(
+      "Unable to decode audio data"
+    );
+  });
+});
@@ -0,0 +1,382 @@
+import { Vec2 } from "wtc-math";
+
+import type { AudioBackend, AudioBus, AudioVoice } from "./AudioBackend";
+import { EventBus } from "../Core/EventBus";
+import type { GameEngine } from "../Core/GameEngine";
+import { GameObject } from "../Core/GameObject";
+
+/**
+ * Options for playing a sound effect.
+ */
+export type SoundOptions = {
+  /** The volume, from 0 to 1. Defaults to 1. */
+  volume?: number;
+  /** The stereo position, from -1 (left) to 1 (right). Defaults to the center, or to `at`. */
+  pan?: number;
+  /** Pans the sound to where this is on screen. A game object is followed while the sound plays. */
+  at?: GameObject | Vec2;
+  /** Whether the sound loops until it's stopped. Defaults to false. */
+  loop?: boolean;
+};
+
+/**
+ * Options for playing music.
+ */
+export type MusicOptions = {
+  /** The volume, from 0 to 1. Defaults to 1. */
+  volume?: number;
+  /** How long to crossfade from the music playing, in seconds. Defaults to 1. */
+  fade?: number;
+};
+
+/**
+ * The events emitted by the audio manager, mapped to their payloads.
+ */
+export type AudioEvents = {
+  /** A sound couldn't be played, as its asset isn't loaded audio or failed to decode. */
+  error: { name: string; error: Error };
+};
+
+/**
+ * The music playing, or about to play once decoded.
+ */
+type MusicTrack = {
+  /** The name of the sound. */
+  name: string;
+  /** The voice, once it started. */
+  voice: AudioVoice | null;
+};
+
+/**
+ * Plays the audio assets of the engine's asset manager through a backend, mixed
+ * through master, music and sfx buses.
+ *
+ * Sound effects are pooled: each sound plays at most `maxVoices` times at once,
+ * cutting off its oldest voice. Music loops, and crossfades when it changes.
+ * Sounds can be panned to where a game object is on screen, following it as it
+ * moves. Everything pauses while the engine isn't playing.
+ *
+ * Sounds are decoded the first time they're played, or ahead of time with `prepare`.
+ * Sounds that can't be played are skipped, and reported as `error` events.
+ */
+export class AudioManager {
+  /** The engine the manager belongs to. */
+  engine: GameEngine;
+  /** Plays the sounds. */
+  backend: AudioBackend;
+  /** The most times one sound effect can play at once. */
+  maxVoices: number = 4;
+  /** How far to the sides sounds at the edges of the screen are panned, from 0 to 1. */
+  panWidth: number = 0.8;
+  /** The event bus for sounds that can't be played. */
+  events: EventBus<AudioEvents> = new EventBus();
+
+  /**
+   * The volume of each bus.
+   * @private
+   */
+  #volumes: Record<AudioBus, number> = { master: 1, music: 0.5, sfx: 1 };
+
+  /**
+   * Whether everything is silenced.
+   * @private
+   */
+  #muted: boolean = false;
+
+  /**
+   * The sounds decoding or decoded, by name.
+   * @private
+   */
+  #decoding: Map<string, Promise<unknown>> = new Map();
+
+  /**
+   * The decoded sounds, by name.
+   * @private
+   */
+  #buffers: Map<string, unknown> = new Map();
+
+  /**
+   * The sound effects playing, by name, oldest first.
+   * @private
+   */
+  #pools: Map<string, AudioVoice[]> = new Map();
+
+  /**
+   * The game objects followed by sounds.
+   * @private
+   */
+  #followed: Map<AudioVoice, GameObject> = new Map();
+
+  /**
+   * The sound effects waiting for their sound to decode, cancelled by `stopAll`.
+   * @private
+   */
+  #pending: Set<symbol> = new Set();
+
+  /**
+   * The music playing.
+   * @private
+   */
+  #music: MusicTrack | null = null;
+
+  /**
+   * Creates a new AudioManager, paused until the engine plays.
+   * @param {GameEngine} engine - The engine the manager belongs to.
+   * @param {AudioBackend} backend - Plays the sounds.
+   */
+  constructor(engine: GameEngine, backend: AudioBackend) {
+    this.engine = engine;
+    this.backend = backend;
+    (Object.keys(this.#volumes) as AudioBus[]).forEach((bus) =>
+      this.#applyVolume(bus)
+    );
+    if (!engine.playing) backend.suspend();
+
+    engine.events.on("playingChanged", ({ playing }) => {
+      if (playing) backend.resume();
+      else backend.suspend();
+    });
+    engine.events.on("afterUpdate", () => this.#follow());
+  }
+
+  /**
+   * Gets/Sets the volume of everything, from 0 to 1.
+   * @param {number} volume - The volume.
+   */
+  get masterVolume(): number {
+    return this.#volumes.master;
+  }
+  set masterVolume(volume) {
+    this.#setVolume("master", volume);
+  }
+
+  /**
+   * Gets/Sets the volume of the music, from 0 to 1.
+   * @param {number} volume - The volume.
+   */
+  get musicVolume(): number {
+    return this.#volumes.music;
+  }
+  set musicVolume(volume) {
+    this.#setVolume("music", volume);
+  }
+
+  /**
+   * Gets/Sets the volume of the sound effects, from 0 to 1.
+   * @param {number} volume - The volume.
+   */
+  get sfxVolume(): number {
+    return this.#volumes.sfx;
+  }
+  set sfxVolume(volume) {
+    this.#setVolume("sfx", volume);
+  }
+
+  /**
+   * Gets/Sets whether everything is silenced. Sounds still play, unheard.
+   * @param {boolean} muted - Whether to silence everything.
+   */
+  get muted(): boolean {
+    return this.#muted;
+  }
+  set muted(muted) {
+    this.#muted = muted;
+    this.#applyVolume("master");
+  }
+
+  /**
+   * Gets the name of the music playing.
+   * @returns {string | null} The name, or null if there is no music.
+   */
+  get music(): string | null {
+    return this.#music?.name ?? null;
+  }
+
+  /**
+   * Decodes sounds ahead of time, so they start without delay.
+   * @param {string | string[]} names - The names of the audio assets. They must be loaded.
+   * @returns {Promise<void>} Settles when every sound is decoded, rejecting if an
+   * asset isn't loaded audio or fails to decode.
+   */
+  async prepare(names: string | string[]) {
+    await Promise.all([names].flat().map((name) => this.#decode(name)));
+  }
+
+  /**
+   * Plays a sound effect. A sound that isn't decoded yet starts once it is,
+   * unless `stopAll` is called first.
+   * @param {string} name - The name of the audio asset. It must be loaded.
+   * @param {SoundOptions} options - How to play it.
+   * @returns {AudioVoice | null} The playing sound, or null if it's still being decoded
+   * or can't be played.
+   */
+  play(name: string, options: SoundOptions = {}): AudioVoice | null {
+    const { volume = 1, at, loop = false } = options;
+    const pan = options.pan ?? (at ? this.panAt(at) : 0);
+    const buffer = this.#buffers.get(name);
+    if (buffer === undefined) {
+      const pending = Symbol(name);
+      this.#pending.add(pending);
+      this.#decode(name).then(
+        () => {
+          if (this.#pending.delete(pending)) this.play(name, options);
+        },
+        (error) => {
+          this.#pending.delete(pending);
+          this.#emitError(name, error);
+        }
+      );
+      return null;
+    }
+
+    let pool = this.#pools.get(name);
+    if (!pool) {
+      pool = [];
+      this.#pools.set(name, pool);
+    }
+    // The oldest voices are cut off to make room
+    while (pool.length >= this.maxVoices) pool.shift()?.stop();
+
+    const voice = this.backend.play(name, buffer, {
+      bus: "sfx",
+      volume,
+      pan,
+      loop,
+      fadeIn: 0,
+    });
+    pool.push(voice);
+    if (at instanceof GameObject) this.#followed.set(voice, at);
+    voice.onEnded = () => {
+      const index = pool.indexOf(voice);
+      if (index !== -1) pool.splice(index, 1);
+      this.#followed.delete(voice);
+    };
+    return voice;
+  }
+
+  /**
+   * Plays music on a loop, crossfading from the music playing.
+   * Playing the music that's already playing does nothing.
+   * Music that can't be played leaves no music playing.
+   * @param {string} name - The name of the audio asset. It must be loaded.
+   * @param {MusicOptions} options - How to play it.
+   */
+  playMusic(name: string, { volume = 1, fade = 1 }: MusicOptions = {}) {
+    if (this.#music?.name === name) return;
+    this.stopMusic(fade);
+
+    const track: MusicTrack = { name, voice: null };
+    this.#music = track;
+    this.#decode(name).then(
+      (buffer) => {
+        // Other music may have been asked for while this was decoding
+        if (this.#music !== track) return;
+        track.voice = this.backend.play(name, buffer, {
+          bus: "music",
+          volume,
+          pan: 0,
+          loop: true,
+          fadeIn: fade,
+        });
+      },
+      (error) => {
+        if (this.#music === track) this.#music = null;
+        this.#emitError(name, error);
+      }
+    );
+  }
+
+  /**
+   * Fades the music out.
+   * @param {number} fade - How long to fade out for, in seconds. Defaults to 1.
+   */
+  stopMusic(fade: number = 1) {
+    this.#music?.voice?.stop(fade);
+    this.#music = null;
+  }
+
+  /**
+   * Stops every sound effect and the music straight away, including those waiting
+   * for their sound to decode.
+   */
+  stopAll() {
+    this.stopMusic(0);
+    this.#pending.clear();
+    [...this.#pools.values()].flat().forEach((voice) => voice.stop());
+  }
+
+  /**
+   * Gets the stereo position of a point or game object, from where it is on screen.
+   * @param {GameObject | Vec2} at - The game object, or a point in world space.
+   * @returns {number} The pan, from -`panWidth` at the left edge to `panWidth` at the right edge.
+   */
+  panAt(at: GameObject | Vec2): number {
+    const position = at instanceof Vec2 ? at : at.worldPosition;
+    const screen = this.engine.camera.worldToScreen(position);
+    const pan = (screen.x / this.engine.dims.x) * 2 - 1;
+    return Math.max(-1, Math.min(1, pan)) * this.panWidth;
+  }
+
+  /**
+   * Stops every sound and releases the backend.
+   */
+  dispose() {
+    this.stopAll();
+    this.backend.dispose();
+  }
+
+  /**
+   * Sets the volume of a bus.
+   */
+  #setVolume(bus: AudioBus, volume: number) {
+    this.#volumes[bus] = Math.max(0, Math.min(1, volume));
+    this.#applyVolume(bus);
+  }
+
+  /**
+   * Passes the volume of a bus to the backend, silencing the master bus while muted.
+   */
+  #applyVolume(bus: AudioBus) {
+    const muted = bus === "master" && this.#muted;
+    this.backend.setBusVolume(bus, muted ? 0 : this.#volumes[bus]);
+  }
+
+  /**
+   * Decodes a sound, once. Rejects if its asset isn't loaded audio.
+   */
+  #decode(name: string): Promise<unknown> {
+    let decoding = this.#decoding.get(name);
+    if (!decoding) {
+      decoding = Promise.resolve().then(() =>
+        this.backend.decode(this.engine.assets.audio(name))
+      );
+      decoding.then(
+        (buffer) => this.#buffers.set(name, buffer),
+        // Tried again the next time it's played
+        () => this.#decoding.delete(name)
+      );
+      this.#decoding.set(name, decoding);
+    }
+    return decoding;
+  }
+
+  /**
+   * Emits `error` for a sound that can't be played.
+   */
+  #emitError(name: string, error: unknown) {
+    this.events.emit("error", {
+      name,
+      error: error instanceof Error ? error : new Error(String(error)),
+    });
+  }
+
+  /**
+   * Pans the sounds following game objects to where the objects are now.
+   */
+  #follow() {
+    this.#followed.forEach((object, voice) => {
+      if (object.engine) voice.setPan(this.panAt(object));
+      else this.#followed.delete(voice);
+    });
+  }
+}
@@ -0,0 +1,94 @@
+import type {
+  AudioBackend,
+  AudioBus,
+  AudioVoice,
+  VoiceOptions,
+} from "./AudioBackend";
+
+/**
+ * A sound played on a MemoryAudioBackend, with everything done to it since.
+ */
+export type MemoryVoice = AudioVoice &
+  VoiceOptions & {
+    /** Whether the sound has finished or been stopped. */
+    ended: boolean;
+  };
+
+/**
+ * A backend that plays nothing, but keeps a list of every sound played, for tests
+ * and for engines that should stay silent.
+ *
+ * @example
+ * const backend = new MemoryAudioBackend();
+ * const engine = new GameEngine({ canvas, audio: backend });
+ * // ...fire...
+ * backend.played.map((voice) => voice.sound); // ["fire"]
+ */
+export class MemoryAudioBackend implements AudioBackend {
+  /** Every sound played, in order. */
+  played: MemoryVoice[] = [];
+  /** The volume of each bus. */
+  volumes: Record<AudioBus, number> = { master: 1, music: 1, sfx: 1 };
+  /** Whether the backend is suspended. */
+  suspended: boolean = false;
+
+  /**
+   * Gets the sounds still playing.
+   * @returns {MemoryVoice[]} The voices that haven't ended.
+   */
+  get playing(): MemoryVoice[] {
+    return this.played.filter((voice) => !voice.ended);
+  }
+
+  /** @inheritdoc */
+  async decode(data: ArrayBuffer): Promise<unknown> {
+    return data;
+  }
+
+  /** @inheritdoc */
+  play(sound: string, _buffer: unknown, options: VoiceOptions): AudioVoice {
+    const voice: MemoryVoice = {
+      sound,
+      ...options,
+      ended: false,
+      setVolume: (volume) => (voice.volume = volume),
+      setPan: (pan) => (voice.pan = pan),
+      stop: () => this.finish(voice),
+      onEnded: null,
+    };
+    this.played.push(voice);
+    return voice;
+  }
+
+  /**
+   * Ends a sound as if it had finished playing.
+   * @param {AudioVoice} voice - The sound.
+   */
+  finish(voice: AudioVoice) {
+    const played = this.played.find((v) => v === voice);
+    if (!played || played.ended) return;
+    played.ended = true;
+    played.onEnded?.();
+    played.onEnded = null;
+  }
+
+  /** @inheritdoc */
+  setBusVolume(bus: AudioBus, volume: number) {
+    this.volumes[bus] = volume;
+  }
+
+  /** @inheritdoc */
+  suspend() {
+    this.suspended = true;
+  }
+
+  /** @inheritdoc */
+  resume() {
+    this.suspended = false;
+  }
+
+  /** @inheritdoc */
+  dispose() {
+    this.playing.forEach((voice) => this.finish(voice));
+  }
+}
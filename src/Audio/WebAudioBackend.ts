@@ -0,0 +1,174 @@
+import type {
+  AudioBackend,
+  AudioBus,
+  AudioVoice,
+  VoiceOptions,
+} from "./AudioBackend";
+
+/**
+ * Ramps an audio parameter from its current value to another.
+ * @param param The parameter.
+ * @param value The value to ramp to.
+ * @param time The current time of the audio context.
+ * @param duration How long the ramp takes in seconds. 0 sets it straight away.
+ */
+function rampTo(
+  param: AudioParam,
+  value: number,
+  time: number,
+  duration: number
+) {
+  param.cancelScheduledValues(time);
+  param.setValueAtTime(param.value, time);
+  if (duration > 0) param.linearRampToValueAtTime(value, time + duration);
+  else param.setValueAtTime(value, time);
+}
+
+/**
+ * Plays sounds with the Web Audio API. Each bus is a gain node, and each voice a
+ * buffer source through its own gain and stereo panner.
+ *
+ * The audio context is created the first time it's needed. Browsers keep it
+ * suspended until the page is interacted with, so it's resumed on the first
+ * pointer press or key press, unless the backend has been suspended.
+ */
+export class WebAudioBackend implements AudioBackend {
+  /**
+   * The audio context, once created.
+   * @private
+   */
+  #context: AudioContext | null = null;
+
+  /**
+   * The gain node of each bus, once the context is created.
+   * @private
+   */
+  #buses: Map<AudioBus, GainNode> = new Map();
+
+  /**
+   * The volume of each bus, kept until the context is created.
+   * @private
+   */
+  #volumes: Record<AudioBus, number> = { master: 1, music: 1, sfx: 1 };
+
+  /**
+   * Whether the backend has been suspended.
+   * @private
+   */
+  #suspended: boolean = false;
+
+  /**
+   * Resumes the context when the page is first interacted with.
+   * @private
+   */
+  #unlock = () => {
+    if (!this.#suspended) this.#context?.resume();
+    this.#removeUnlockListeners();
+  };
+
+  /**
+   * Gets the audio context, creating it and the buses the first time.
+   * @returns {AudioContext} The audio context.
+   */
+  get context(): AudioContext {
+    if (this.#context) return this.#context;
+
+    const context = new AudioContext();
+    this.#context = context;
+    const master = context.createGain();
+    master.connect(context.destination);
+    this.#buses.set("master", master);
+    (["music", "sfx"] as const).forEach((bus) => {
+      const gain = context.createGain();
+      gain.connect(master);
+      this.#buses.set(bus, gain);
+    });
+    this.#buses.forEach((gain, bus) => (gain.gain.value = this.#volumes[bus]));
+
+    if (this.#suspended) context.suspend();
+    else if (context.state === "suspended") {
+      window.addEventListener("pointerdown", this.#unlock);
+      window.addEventListener("keydown", this.#unlock);
+    }
+    return context;
+  }
+
+  /** @inheritdoc */
+  decode(data: ArrayBuffer): Promise<unknown> {
+    // Decoding detaches the data, so the asset's copy is kept intact
+    return this.context.decodeAudioData(data.slice(0));
+  }
+
+  /** @inheritdoc */
+  play(sound: string, buffer: unknown, options: VoiceOptions): AudioVoice {
+    const { context } = this;
+    const { bus, volume, pan, loop, fadeIn } = options;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer as AudioBuffer;
+    source.loop = loop;
+    const gain = context.createGain();
+    gain.gain.value = fadeIn > 0 ? 0 : volume;
+    const panner = context.createStereoPanner();
+    panner.pan.value = pan;
+    source.connect(gain).connect(panner).connect(this.#buses.get(bus)!);
+    if (fadeIn > 0) rampTo(gain.gain, volume, context.currentTime, fadeIn);
+
+    const voice: AudioVoice = {
+      sound,
+      bus,
+      setVolume: (v, fade = 0) =>
+        rampTo(gain.gain, v, context.currentTime, fade),
+      setPan: (p) => (panner.pan.value = p),
+      stop: (fade = 0) => {
+        rampTo(gain.gain, 0, context.currentTime, fade);
+        source.stop(context.currentTime + fade);
+      },
+      onEnded: null,
+    };
+    source.onended = () => {
+      source.disconnect();
+      panner.disconnect();
+      voice.onEnded?.();
+      voice.onEnded = null;
+    };
+    source.start();
+    return voice;
+  }
+
+  /** @inheritdoc */
+  setBusVolume(bus: AudioBus, volume: number) {
+    this.#volumes[bus] = volume;
+    const gain = this.#buses.get(bus);
+    if (gain && this.#context)
+      rampTo(gain.gain, volume, this.#context.currentTime, 0.05);
+  }
+
+  /** @inheritdoc */
+  suspend() {
+    this.#suspended = true;
+    this.#context?.suspend();
+  }
+
+  /** @inheritdoc */
+  resume() {
+    this.#suspended = false;
+    this.#context?.resume();
+  }
+
+  /** @inheritdoc */
+  dispose() {
+    this.#removeUnlockListeners();
+    this.#context?.close();
+    this.#context = null;
+    this.#buses.clear();
+  }
+
+  /**
+   * Stops waiting for the page to be interacted with.
+   */
+  #removeUnlockListeners() {
+    window.removeEventListener("pointerdown", this.#unlock);
+    window.removeEventListener("keydown", this.#unlock);
+  }
+}
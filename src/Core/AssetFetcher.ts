@@ -0,0 +1,76 @@
+/**
+ * Fetches the raw data of assets. The AssetManager loads everything through one,
+ * so it can be swapped, such as for an in-memory stand-in in tests.
+ */
+export type AssetFetcher = {
+  /**
+   * Fetches and decodes an image.
+   * @param url The URL of the image.
+   * @returns The image, ready to draw.
+   */
+  image(url: string): Promise<CanvasImageSource>;
+  /**
+   * Fetches an audio file without decoding it.
+   * @param url The URL of the audio file.
+   * @returns The encoded audio data.
+   */
+  audio(url: string): Promise<ArrayBuffer>;
+  /**
+   * Fetches and parses a JSON file.
+   * @param url The URL of the file.
+   * @returns The parsed data.
+   */
+  json(url: string): Promise<unknown>;
+};
+
+/**
+ * Fetches a URL, failing on error statuses as well as network errors.
+ * @param url The URL to fetch.
+ * @returns The response.
+ */
+async function fetchOk(url: string): Promise<Response> {
+  const response = await fetch(url);
+  if (!response.ok)
+    throw new Error(`${response.status} ${response.statusText}`.trim());
+  return response;
+}
+
+/**
+ * Fetches assets over the network with the browser's `fetch` and `Image`.
+ */
+export const browserFetcher: AssetFetcher = {
+  async image(url) {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  },
+  async audio(url) {
+    return (await fetchOk(url)).arrayBuffer();
+  },
+  async json(url) {
+    return (await fetchOk(url)).json();
+  },
+};
+
+/**
+ * Creates a fetcher that serves assets from memory, by URL, instead of the network.
+ * Useful for tests and for assets generated at runtime.
+ * @example
+ * const assets = new AssetManager({
+ *   fetcher: memoryFetcher({ "tank.json": atlasData, "tank.png": canvas }),
+ * });
+ * @param files The contents of each URL: images, audio data or JSON data.
+ * @returns The fetcher. Unknown URLs fail as not found.
+ */
+export function memoryFetcher(files: { [url: string]: unknown }): AssetFetcher {
+  const get = async (url: string) => {
+    if (!(url in files)) throw new Error("404 Not Found");
+    return files[url];
+  };
+  return {
+    image: async (url) => (await get(url)) as CanvasImageSource,
+    audio: async (url) => (await get(url)) as ArrayBuffer,
+    json: async (url) => structuredClone(await get(url)),
+  };
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+
+import { memoryFetcher, type AssetFetcher } from "./AssetFetcher";
+import { AssetManager, type AssetEvents } from "./AssetManager";
+
+const sheet = {};
+const atlasData = {
+  frames: { idle: { frame: { x: 0, y: 0, w: 16, h: 16 } } },
+  meta: { image: "sheet.png" },
+};
+
+const createAssets = () => {
+  const urls: string[] = [];
+  const files = memoryFetcher({
+    "data/level.json": { name: "level" },
+    "data/sound.wav": new ArrayBuffer(8),
+    "sprites/sheet.json": atlasData,
+    "sprites/sheet.png": sheet,
+    "other/sheet.png": {},
+  });
+  // Counts the fetches, so shared loads can be told apart
+  const counted =
+    <T>(fetch: (url: string) => Promise<T>) =>
+    (url: string) => {
+      urls.push(url);
+      return fetch(url);
+    };
+  const fetcher: AssetFetcher = {
+    image: counted(files.image),
+    audio: counted(files.audio),
+    json: counted(files.json),
+  };
+  const assets = new AssetManager({
+    manifest: {
+      level: { type: "json", url: "data/level.json" },
+      sound: { type: "audio", url: "data/sound.wav" },
+      sheet: { type: "atlas", url: "sprites/sheet.json" },
+      missing: { type: "image", url: "images/missing.png" },
+    },
+    fetcher,
+  });
+  return { assets, urls };
+};
+
+describe("AssetManager", () => {
+  it("reports progress as each asset settles", async () => {
+    const { assets } = createAssets();
+    const events: AssetEvents["progress"][] = [];
+    assets.events.on("progress", (event) => events.push(event));
+
+    const loading = assets.load(["level", "sound"]);
+    expect(assets.progress).toBe(0);
+    await loading;
+
+    expect(events).toEqual([
+      { name: "level", loaded: 1, total: 2 },
+      { name: "sound", loaded: 2, total: 2 },
+    ]);
+    expect(assets.progress).toBe(1);
+    expect(assets.json("level")).toEqual({ name: "level" });
+  });
+
+  it("shares loads and holds assets until every load is released", async () => {
+    const { assets, urls } = createAssets();
+
+    await Promise.all([assets.load("level"), assets.load("level")]);
+    expect(urls).toEqual(["data/level.json"]);
+    expect(assets.refCount("level")).toBe(2);
+
+    assets.release("level");
+    expect(assets.isLoaded("level")).toBe(true);
+    assets.release("level");
+    expect(assets.isLoaded("level")).toBe(false);
+    expect(assets.refCount("level")).toBe(0);
+    expect(() => assets.json("level")).toThrow(
+      'The asset "level" hasn\'t been loaded.'
+    );
+
+    await assets.load("level");
+    expect(urls).toEqual(["data/level.json", "data/level.json"]);
+  });
+
+  it("emits an error and rejects when an asset can't be fetched", async () => {
+    const { assets } = createAssets();
+    const errors: string[] = [];
+    assets.events.on("error", ({ name, error }) =>
+      errors.push(`${name}: ${error.message}`)
+    );
+
+    await expect(assets.load(["level", "missing"])).rejects.toThrow(
+      'Could not load the asset "missing" from images/missing.png: 404 Not Found'
+    );
+    expect(errors).toEqual([
+      'missing: Could not load the asset "missing" from images/missing.png: 404 Not Found',
+    ]);
+    // The assets loaded along with it are released again
+    expect(assets.refCount("level")).toBe(0);
+    expect(assets.isLoaded("missing")).toBe(false);
+    expect(assets.progress).toBe(1);
+  });
+
+  it("rejects assets that aren't in the manifest", async () => {
+    const { assets } = createAssets();
+
+    await expect(assets.load("nothing")).rejects.toThrow(
+      'The asset "nothing" isn\'t in the manifest.'
+    );
+  });
+
+  it("loads an atlas's image from its meta, relative to the JSON", async () => {
+    const { assets, urls } = createAssets();
+
+    await assets.load("sheet");
+
+    expect(urls).toEqual(["sprites/sheet.json", "sprites/sheet.png"]);
+    const atlas = assets.atlas("sheet");
+    expect(atlas.image).toBe(sheet);
+    expect(atlas.hasFrame("idle")).toBe(true);
+    expect(() => assets.image("sheet")).toThrow(
+      'The asset "sheet" is atlas, not image.'
+    );
+  });
+
+  it("loads an atlas's image from the manifest when it's given", async () => {
+    const { assets, urls } = createAssets();
+    assets.register({
+      other: {
+        type: "atlas",
+        url: "sprites/sheet.json",
+        image: "other/sheet.png",
+      },
+    });
+
+    await assets.load("other");
+
+    expect(urls).toEqual(["sprites/sheet.json", "other/sheet.png"]);
+    expect(assets.atlas("other").image).not.toBe(sheet);
+  });
+});
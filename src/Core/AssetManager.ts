@@ -0,0 +1,359 @@
+import { browserFetcher, type AssetFetcher } from "./AssetFetcher";
+import { EventBus } from "./EventBus";
+import { SpriteAtlas } from "../Graphics/SpriteAtlas";
+
+/**
+ * Where an asset is loaded from, and what it is.
+ */
+export type AssetDescriptor =
+  | { type: "image"; url: string }
+  | { type: "audio"; url: string }
+  | { type: "json"; url: string }
+  | {
+      /** An atlas exported by TexturePacker or Aseprite: the JSON, and the image it describes. */
+      type: "atlas";
+      url: string;
+      /** The URL of the image. Defaults to the export's `meta.image`, relative to the JSON. */
+      image?: string;
+    };
+
+/**
+ * The kinds of asset.
+ */
+export type AssetType = AssetDescriptor["type"];
+
+/**
+ * The assets the game can load, by name.
+ */
+export type AssetManifest = { [name: string]: AssetDescriptor };
+
+/**
+ * What each kind of asset loads as.
+ */
+export type AssetTypes = {
+  image: CanvasImageSource;
+  /** The encoded audio data, decoded by whatever plays it. */
+  audio: ArrayBuffer;
+  json: unknown;
+  atlas: SpriteAtlas;
+};
+
+/**
+ * The events emitted by the asset manager, mapped to their payloads.
+ */
+export type AssetEvents = {
+  /** An asset finished loading, or failed to. Counts every asset since loading last started. */
+  progress: { name: string; loaded: number; total: number };
+  /** An asset failed to load. */
+  error: { name: string; error: Error };
+};
+
+/**
+ * Arguments for creating an AssetManager.
+ */
+export type AssetManagerArguments = {
+  /** The assets the game can load. Defaults to none, register them later. */
+  manifest?: AssetManifest;
+  /** Fetches the data of assets. Defaults to the browser's network fetching. */
+  fetcher?: AssetFetcher;
+};
+
+/**
+ * A loaded or loading asset.
+ */
+type CachedAsset = {
+  /** How many loads are holding on to the asset. */
+  refs: number;
+  /** The loaded asset, once loaded. */
+  value: unknown;
+  /** Settles when the asset has loaded. */
+  promise: Promise<void>;
+};
+
+/**
+ * Loads the assets of a manifest, such as images, audio and JSON, and caches them by name.
+ *
+ * Assets load in parallel, and loading an asset that's already loading or loaded
+ * shares it. Every `load` holds on to its assets until they're `release`d, and an
+ * asset is dropped from the cache once nothing holds on to it. Loaded assets are
+ * read with typed getters, such as `assets.image("tank")`.
+ *
+ * Engines can share one manager, so an asset is only loaded once.
+ */
+export class AssetManager {
+  /** Fetches the data of assets. */
+  fetcher: AssetFetcher;
+  /** The event bus for loading progress and errors. */
+  events: EventBus<AssetEvents> = new EventBus();
+
+  /**
+   * The assets that can be loaded, by name.
+   * @private
+   */
+  #manifest: Map<string, AssetDescriptor> = new Map();
+
+  /**
+   * The loaded and loading assets, by name.
+   * @private
+   */
+  #cache: Map<string, CachedAsset> = new Map();
+
+  /**
+   * The number of assets that started loading since nothing was loading.
+   * @private
+   */
+  #total: number = 0;
+
+  /**
+   * How many of those have finished loading, or failed to.
+   * @private
+   */
+  #settled: number = 0;
+
+  /**
+   * Creates a new AssetManager.
+   * @param {AssetManagerArguments} args - The arguments for the manager.
+   */
+  constructor({
+    manifest = {},
+    fetcher = browserFetcher,
+  }: AssetManagerArguments = {}) {
+    this.fetcher = fetcher;
+    this.register(manifest);
+  }
+
+  /**
+   * Gets how far the current loading is, from 0 to 1. 1 when nothing is loading.
+   * @returns {number} The fraction of the assets loaded.
+   */
+  get progress(): number {
+    return this.#total === 0 ? 1 : this.#settled / this.#total;
+  }
+
+  /**
+   * Adds assets to the ones that can be loaded.
+   * @param {AssetManifest} manifest - The assets, by name.
+   * @throws {Error} If a name is already registered for a different asset.
+   */
+  register(manifest: AssetManifest) {
+    Object.entries(manifest).forEach(([name, descriptor]) => {
+      const existing = this.#manifest.get(name);
+      if (existing && JSON.stringify(existing) !== JSON.stringify(descriptor))
+        throw new Error(
+          `The asset "${name}" is already registered as ${existing.url}.`
+        );
+      this.#manifest.set(name, { ...descriptor });
+    });
+  }
+
+  /**
+   * Checks if an asset is in the manifest.
+   * @param {string} name - The name of the asset.
+   * @returns {boolean} True if the asset can be loaded.
+   */
+  has(name: string): boolean {
+    return this.#manifest.has(name);
+  }
+
+  /**
+   * Checks if an asset has loaded.
+   * @param {string} name - The name of the asset.
+   * @returns {boolean} True if the asset is loaded and cached.
+   */
+  isLoaded(name: string): boolean {
+    const cached = this.#cache.get(name);
+    return cached !== undefined && cached.value !== undefined;
+  }
+
+  /**
+   * Gets how many loads are holding on to an asset.
+   * @param {string} name - The name of the asset.
+   * @returns {number} The reference count, 0 if it isn't cached.
+   */
+  refCount(name: string): number {
+    return this.#cache.get(name)?.refs ?? 0;
+  }
+
+  /**
+   * Loads assets in parallel and holds on to them until they're released.
+   * If any fails, the ones loaded by this call are released again.
+   * @param {string | string[]} names - The names of the assets. Defaults to every asset in the manifest.
+   * @returns {Promise<void>} Settles when every asset has loaded.
+   * @throws {Error} If an asset isn't in the manifest, or fails to load.
+   */
+  async load(names: string | string[] = [...this.#manifest.keys()]) {
+    const list = [names].flat();
+    list.forEach((name) => this.#descriptor(name));
+
+    const promises = list.map((name) => {
+      let cached = this.#cache.get(name);
+      if (!cached) {
+        cached = { refs: 0, value: undefined, promise: Promise.resolve() };
+        cached.promise = this.#fetch(name, cached);
+        this.#cache.set(name, cached);
+      }
+      cached.refs++;
+      return cached.promise;
+    });
+
+    try {
+      await Promise.all(promises);
+    } catch (error) {
+      this.release(list);
+      throw error;
+    }
+  }
+
+  /**
+   * Lets go of assets held by a `load`. An asset nothing holds on to any more is
+   * dropped from the cache, and loaded again the next time it's needed.
+   * @param {string | string[]} names - The names of the assets.
+   */
+  release(names: string | string[]) {
+    [names].flat().forEach((name) => {
+      const cached = this.#cache.get(name);
+      if (!cached) return;
+      cached.refs--;
+      if (cached.refs <= 0) this.#cache.delete(name);
+    });
+  }
+
+  /**
+   * Drops every cached asset, whatever holds on to it.
+   */
+  clear() {
+    this.#cache.clear();
+  }
+
+  /**
+   * Gets a loaded image.
+   * @param {string} name - The name of the asset.
+   * @returns {CanvasImageSource} The image.
+   * @throws {Error} If the asset isn't a loaded image.
+   */
+  image(name: string): CanvasImageSource {
+    return this.#get(name, "image");
+  }
+
+  /**
+   * Gets the data of a loaded audio file.
+   * @param {string} name - The name of the asset.
+   * @returns {ArrayBuffer} The encoded audio data.
+   * @throws {Error} If the asset isn't loaded audio.
+   */
+  audio(name: string): ArrayBuffer {
+    return this.#get(name, "audio");
+  }
+
+  /**
+   * Gets loaded JSON data. The data isn't checked against `T`.
+   * @param {string} name - The name of the asset.
+   * @returns {T} The parsed data.
+   * @throws {Error} If the asset isn't loaded JSON.
+   */
+  json<T = unknown>(name: string): T {
+    return this.#get(name, "json") as T;
+  }
+
+  /**
+   * Gets a loaded sprite atlas.
+   * @param {string} name - The name of the asset.
+   * @returns {SpriteAtlas} The atlas.
+   * @throws {Error} If the asset isn't a loaded atlas.
+   */
+  atlas(name: string): SpriteAtlas {
+    return this.#get(name, "atlas");
+  }
+
+  /**
+   * Gets the descriptor of an asset, failing if it isn't in the manifest.
+   */
+  #descriptor(name: string): AssetDescriptor {
+    const descriptor = this.#manifest.get(name);
+    if (!descriptor)
+      throw new Error(`The asset "${name}" isn't in the manifest.`);
+    return descriptor;
+  }
+
+  /**
+   * Gets a loaded asset of a type.
+   */
+  #get<T extends AssetType>(name: string, type: T): AssetTypes[T] {
+    const descriptor = this.#descriptor(name);
+    if (descriptor.type !== type)
+      throw new Error(
+        `The asset "${name}" is ${descriptor.type}, not ${type}.`
+      );
+    const cached = this.#cache.get(name);
+    if (!cached || cached.value === undefined)
+      throw new Error(`The asset "${name}" hasn't been loaded.`);
+    return cached.value as AssetTypes[T];
+  }
+
+  /**
+   * Loads an asset into its cache entry, reporting progress.
+   */
+  async #fetch(name: string, cached: CachedAsset) {
+    const descriptor = this.#descriptor(name);
+    this.#total++;
+    try {
+      cached.value = await this.#fetchValue(descriptor);
+    } catch (e) {
+      if (this.#cache.get(name) === cached) this.#cache.delete(name);
+      const reason = e instanceof Error ? e.message : String(e);
+      const error = new Error(
+        `Could not load the asset "${name}" from ${descriptor.url}: ${reason}`
+      );
+      this.events.emit("error", { name, error });
+      throw error;
+    } finally {
+      this.#settle(name);
+    }
+  }
+
+  /**
+   * Fetches the value of an asset.
+   */
+  async #fetchValue(descriptor: AssetDescriptor): Promise<unknown> {
+    const { fetcher } = this;
+    switch (descriptor.type) {
+      case "image":
+        return fetcher.image(descriptor.url);
+      case "audio":
+        return fetcher.audio(descriptor.url);
+      case "json":
+        return fetcher.json(descriptor.url);
+      case "atlas": {
+        const data = await fetcher.json(descriptor.url);
+        const meta = (data as { meta?: { image?: unknown } } | null)?.meta;
+        let url = descriptor.image;
+        if (url === undefined && typeof meta?.image === "string") {
+          // Exports name the image relative to themselves
+          const folder = descriptor.url.slice(
+            0,
+            descriptor.url.lastIndexOf("/") + 1
+          );
+          url = folder + meta.image;
+        }
+        if (url === undefined)
+          throw new Error("The atlas doesn't say which image it describes.");
+        return SpriteAtlas.parse(data, await fetcher.image(url));
+      }
+    }
+  }
+
+  /**
+   * Counts an asset as settled and emits `progress`, starting the count over once
+   * nothing is loading.
+   */
+  #settle(name: string) {
+    this.#settled++;
+    const loaded = this.#settled;
+    const total = this.#total;
+    if (loaded === total) {
+      this.#settled = 0;
+      this.#total = 0;
+    }
+    this.events.emit("progress", { name, loaded, total });
+  }
+}
@@ -0,0 +1,326 @@
+import { Vec2 } from "wtc-math";
+
+import type { GameObject } from "./GameObject";
+import type { RenderLayer } from "./RenderLayers";
+import type { RenderContext } from "../Graphics/Renderer";
+import { Rectangle } from "../Helpers/Rectangle";
+
+/**
+ * Type definition for the arguments required to create a Camera.
+ */
+export type CameraArguments = {
+  /** The size of the viewport in logical (screen) pixels. */
+  viewport: Vec2;
+  /** The world position at the center of the view. Defaults to the viewport center. */
+  position?: Vec2;
+  /** The zoom factor. Defaults to 1. */
+  zoom?: number;
+  /** The rotation of the camera in radians. Defaults to 0. */
+  rotation?: number;
+};
+
+/**
+ * Options for following a target.
+ */
+export type CameraFollowOptions = {
+  /** How quickly the camera catches up with the target, per second. `Infinity` snaps. Defaults to 5. */
+  speed?: number;
+  /** The size of the box, in world units, the target can move in without moving the camera. */
+  deadzone?: Vec2;
+  /** An offset from the target's position to look at. */
+  offset?: Vec2;
+};
+
+/**
+ * Interface representing the basic properties of a camera.
+ */
+export interface ICamera {
+  /** The size of the viewport in logical (screen) pixels. */
+  viewport: Vec2;
+  /** The world position at the center of the view. */
+  position: Vec2;
+  /** The zoom factor. */
+  zoom: number;
+  /** The rotation of the camera in radians. */
+  rotation: number;
+  /** The game object being followed, if any. */
+  target: GameObject | null;
+  /** The area of the world the view is kept inside, if any. */
+  bounds: Rectangle | null;
+}
+
+/**
+ * A 2D camera that maps the game world onto the canvas.
+ * Supports zoom, rotation, smooth following of a target with a deadzone,
+ * and clamping the view to world bounds.
+ * @implements {ICamera}
+ */
+export class Camera implements ICamera {
+  /** @inheritdoc */
+  viewport: Vec2;
+  /** @inheritdoc */
+  position: Vec2;
+  /** @inheritdoc */
+  zoom: number;
+  /** @inheritdoc */
+  rotation: number;
+  /** @inheritdoc */
+  target: GameObject | null = null;
+  /** @inheritdoc */
+  bounds: Rectangle | null = null;
+  /** How quickly the camera catches up with the target, per second. */
+  followSpeed: number = 5;
+  /** The size of the deadzone box, in world units. */
+  deadzone: Vec2 = new Vec2(0, 0);
+  /** An offset from the target's position to look at. */
+  followOffset: Vec2 = new Vec2(0, 0);
+  /** The position at the start of the last update, used for interpolation. */
+  previousPosition: Vec2;
+
+  /**
+   * Creates a new Camera instance.
+   * @param {CameraArguments} args - The arguments for the camera.
+   */
+  constructor({ viewport, position, zoom = 1, rotation = 0 }: CameraArguments) {
+    this.viewport = viewport;
+    this.position = position ?? viewport.scaleNew(0.5);
+    this.previousPosition = this.position.clone();
+    this.zoom = zoom;
+    this.rotation = rotation;
+  }
+
+  /**
+   * Starts following a game object.
+   * @param {GameObject} target - The game object to follow.
+   * @param {CameraFollowOptions} options - Options for following the target.
+   */
+  follow(
+    target: GameObject,
+    { speed, deadzone, offset }: CameraFollowOptions = {}
+  ) {
+    this.target = target;
+    if (speed !== undefined) this.followSpeed = speed;
+    if (deadzone) this.deadzone = deadzone;
+    if (offset) this.followOffset = offset;
+  }
+
+  /**
+   * Stops following the current target.
+   */
+  unfollow() {
+    this.target = null;
+  }
+
+  /**
+   * Puts the camera back as it was created with default arguments: centered on the
+   * viewport, unzoomed, unrotated, following nothing and unbounded.
+   */
+  reset() {
+    this.position = this.viewport.scaleNew(0.5);
+    this.previousPosition = this.position.clone();
+    this.zoom = 1;
+    this.rotation = 0;
+    this.target = null;
+    this.bounds = null;
+    this.followSpeed = 5;
+    this.deadzone = new Vec2(0, 0);
+    this.followOffset = new Vec2(0, 0);
+  }
+
+  /**
+   * Updates the camera position, following the target and clamping to bounds.
+   * @param {number} deltaTime - The time elapsed since the last update in seconds.
+   */
+  update(deltaTime: number) {
+    this.previousPosition.resetToVector(this.position);
+
+    if (this.target) {
+      const focus = this.target.worldPosition.add(this.followOffset);
+      const desired = this.position.clone();
+      const halfDeadzone = this.deadzone.scaleNew(0.5);
+
+      if (focus.x < desired.x - halfDeadzone.x)
+        desired.x = focus.x + halfDeadzone.x;
+      else if (focus.x > desired.x + halfDeadzone.x)
+        desired.x = focus.x - halfDeadzone.x;
+      if (focus.y < desired.y - halfDeadzone.y)
+        desired.y = focus.y + halfDeadzone.y;
+      else if (focus.y > desired.y + halfDeadzone.y)
+        desired.y = focus.y - halfDeadzone.y;
+
+      const t =
+        this.followSpeed === Infinity
+          ? 1
+          : 1 - Math.exp(-this.followSpeed * deltaTime);
+      this.position.add(desired.subtract(this.position).scale(t));
+    }
+
+    this.clampToBounds();
+  }
+
+  /**
+   * Keeps the view inside the world bounds, if set.
+   * Rotation is ignored; a view larger than the bounds is centered on them.
+   */
+  clampToBounds() {
+    if (!this.bounds) return;
+    const half = this.viewport.scaleNew(0.5 / this.zoom);
+    const { x, y, width, height } = this.bounds;
+
+    this.position.x =
+      width < half.x * 2
+        ? x + width / 2
+        : Math.min(Math.max(this.position.x, x + half.x), x + width - half.x);
+    this.position.y =
+      height < half.y * 2
+        ? y + height / 2
+        : Math.min(Math.max(this.position.y, y + half.y), y + height - half.y);
+  }
+
+  /**
+   * Applies the camera transform to a rendering context.
+   * A layer with a parallax scrolls that much of the way with the camera, from where
+   * it is when the camera is centered on the viewport. Screen space layers aren't transformed.
+   * @param {RenderContext} ctx - The context to transform.
+   * @param {number} alpha - How far to interpolate from the previous position. Defaults to 1.
+   * @param {RenderLayer} layer - The layer being drawn. Defaults to one that moves with the world.
+   */
+  apply(ctx: RenderContext, alpha: number = 1, layer?: RenderLayer) {
+    if (layer?.screen) return;
+    const position = this.#parallaxPosition(
+      Vec2.lerp(this.previousPosition, this.position, alpha),
+      layer?.parallax ?? 1
+    );
+    ctx.translate(this.viewport.x / 2, this.viewport.y / 2);
+    ctx.scale(this.zoom, this.zoom);
+    ctx.rotate(-this.rotation);
+    ctx.translate(-position.x, -position.y);
+  }
+
+  /**
+   * Converts a point in world space to screen space.
+   * @param {Vec2} point - The point in world coordinates.
+   * @returns {Vec2} The point in logical screen coordinates.
+   */
+  worldToScreen(point: Vec2): Vec2 {
+    return point
+      .subtractNew(this.position)
+      .rotate(-this.rotation)
+      .scale(this.zoom)
+      .add(this.viewport.scaleNew(0.5));
+  }
+
+  /**
+   * Converts a point in screen space to world space.
+   * @param {Vec2} point - The point in logical screen coordinates.
+   * @returns {Vec2} The point in world coordinates.
+   */
+  screenToWorld(point: Vec2): Vec2 {
+    return point
+      .subtractNew(this.viewport.scaleNew(0.5))
+      .scale(1 / this.zoom)
+      .rotate(this.rotation)
+      .add(this.position);
+  }
+
+  /**
+   * Gets the area of the world currently visible.
+   * When the camera is rotated this is the bounding box of the rotated view.
+   * @returns {Rectangle} The visible area in world coordinates.
+   */
+  get view(): Rectangle {
+    const corners = [
+      new Vec2(0, 0),
+      new Vec2(this.viewport.x, 0),
+      new Vec2(0, this.viewport.y),
+      new Vec2(this.viewport.x, this.viewport.y),
+    ].map((corner) => this.screenToWorld(corner));
+
+    const xs = corners.map((c) => c.x);
+    const ys = corners.map((c) => c.y);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    return new Rectangle(
+      minX,
+      minY,
+      Math.max(...xs) - minX,
+      Math.max(...ys) - minY
+    );
+  }
+
+  /**
+   * Gets the area of a render layer currently visible, in the layer's coordinates.
+   * This is the view moved by the layer's parallax, or the viewport for screen space layers.
+   * @param {RenderLayer} layer - The layer.
+   * @returns {Rectangle} The visible area of the layer.
+   */
+  viewOf(layer: RenderLayer): Rectangle {
+    if (layer.screen)
+      return new Rectangle(0, 0, this.viewport.x, this.viewport.y);
+    const view = this.view;
+    const offset = this.#parallaxPosition(
+      this.position,
+      layer.parallax
+    ).subtract(this.position);
+    return new Rectangle(
+      view.x + offset.x,
+      view.y + offset.y,
+      view.width,
+      view.height
+    );
+  }
+
+  /**
+   * Converts an area of a render layer to screen space, as it's drawn after `apply`.
+   * @param {Rectangle} area - The area, in the layer's coordinates.
+   * @param {RenderLayer} layer - The layer.
+   * @param {number} alpha - How far to interpolate from the previous position. Defaults to 1.
+   * @returns {Rectangle} The box enclosing the area on screen, in logical pixels.
+   */
+  layerToScreen(
+    area: Rectangle,
+    layer: RenderLayer,
+    alpha: number = 1
+  ): Rectangle {
+    if (layer.screen)
+      return new Rectangle(area.x, area.y, area.width, area.height);
+    const position = this.#parallaxPosition(
+      Vec2.lerp(this.previousPosition, this.position, alpha),
+      layer.parallax
+    );
+    const center = this.viewport.scaleNew(0.5);
+    const corners = [
+      new Vec2(area.x, area.y),
+      new Vec2(area.x + area.width, area.y),
+      new Vec2(area.x, area.y + area.height),
+      new Vec2(area.x + area.width, area.y + area.height),
+    ].map((corner) =>
+      corner
+        .subtract(position)
+        .rotate(-this.rotation)
+        .scale(this.zoom)
+        .add(center)
+    );
+
+    const xs = corners.map((c) => c.x);
+    const ys = corners.map((c) => c.y);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    return new Rectangle(
+      minX,
+      minY,
+      Math.max(...xs) - minX,
+      Math.max(...ys) - minY
+    );
+  }
+
+  /**
+   * Moves a camera position towards the viewport center, for a layer with a parallax.
+   * Returns a new vector.
+   */
+  #parallaxPosition(position: Vec2, parallax: number): Vec2 {
+    if (parallax === 1) return position.clone();
+    const center = this.viewport.scaleNew(0.5);
+    return position.subtractNew(center).scale(parallax).add(center);
+  }
+}
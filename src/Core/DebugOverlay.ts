@@ -0,0 +1,205 @@
+import { Vec2 } from "wtc-math";
+import type { FolderApi, Pane } from "tweakpane";
+
+import type { GameEngine } from "./GameEngine";
+import { AnchorPoint, type GameObject } from "./GameObject";
+import type { RenderContext } from "../Graphics/Renderer";
+import type { WorldShape } from "../Physics/Collider";
+
+/**
+ * Type definition for the arguments required to create a DebugOverlay.
+ */
+export type DebugOverlayArguments = {
+  /** The engine to debug. */
+  engine: GameEngine;
+  /** The key that toggles the overlay. Defaults to "`". */
+  toggleKey?: string;
+  /** The tweakpane pane the inspector is added to. The inspector is disabled without one. */
+  pane?: Pane | null;
+};
+
+/**
+ * Draws debugging information over the scene: each object's bounds, anchor point,
+ * rotation and id, highlighting the objects that redrew their offscreen canvas this frame.
+ * While enabled, clicking an object selects it and shows its properties as live
+ * bindings in the tweakpane pane.
+ */
+export class DebugOverlay {
+  /** The engine being debugged. */
+  engine: GameEngine;
+  /** Whether the overlay is shown. */
+  enabled: boolean = false;
+  /** The key that toggles the overlay. */
+  toggleKey: string;
+  /** The tweakpane pane the inspector is added to. */
+  pane: Pane | null;
+  /** The currently selected game object, if any. */
+  selected: GameObject | null = null;
+
+  /**
+   * The inspector folder for the selected object.
+   * @private
+   */
+  #folder: FolderApi | null = null;
+
+  /**
+   * The toggle key state last frame, used to detect presses.
+   * @private
+   */
+  #toggleWasDown: boolean = false;
+
+  /**
+   * The mouse button state last frame, used to detect clicks.
+   * @private
+   */
+  #mouseWasDown: boolean = false;
+
+  /**
+   * Creates a new DebugOverlay and hooks it into the engine's draw events.
+   * @param {DebugOverlayArguments} args - The arguments for the overlay.
+   */
+  constructor({ engine, toggleKey = "`", pane = null }: DebugOverlayArguments) {
+    this.engine = engine;
+    this.toggleKey = toggleKey;
+    this.pane = pane;
+
+    engine.events.on("afterDraw", ({ ctx }) => {
+      this.#handleInput();
+      if (this.enabled) this.draw(ctx);
+    });
+    engine.events.on("objectRemoved", ({ object }) => {
+      if (object === this.selected) this.select(null);
+    });
+  }
+
+  /**
+   * Selects a game object and shows it in the inspector.
+   * @param {GameObject | null} obj - The object to select, or null to deselect.
+   */
+  select(obj: GameObject | null) {
+    this.selected = obj;
+    this.#folder?.dispose();
+    this.#folder = null;
+    if (!obj || !this.pane) return;
+
+    const folder = this.pane.addFolder({ title: `Inspect: ${obj.id}` });
+    obj.inspect(folder);
+    this.#folder = folder;
+  }
+
+  /**
+   * Draws the overlay for every object in the visible scenes, in their render layers.
+   * @param {RenderContext} ctx - The context to draw to, in screen space.
+   */
+  draw(ctx: RenderContext) {
+    const { camera } = this.engine;
+    const lineWidth = 1 / camera.zoom;
+
+    this.engine.scenes.visibleScenes.forEach((scene) => {
+      this.engine.drawInLayers(scene, (roots) => {
+        ctx.lineWidth = lineWidth;
+        ctx.font = `${10 / camera.zoom}px monospace`;
+        ctx.textBaseline = "bottom";
+        roots.forEach((root) =>
+          root.traverse((obj) => this.#drawObject(ctx, obj))
+        );
+      });
+    });
+
+    this.#folder?.refresh();
+  }
+
+  /**
+   * Draws the debugging information for a single object.
+   * @param {RenderContext} ctx - The context to draw to, in world space.
+   * @param {GameObject} obj - The object to draw.
+   */
+  #drawObject(ctx: RenderContext, obj: GameObject) {
+    const bounds = obj.bounds;
+    const scale = 1 / this.engine.camera.zoom;
+
+    ctx.strokeStyle =
+      obj === this.selected ? "red" : obj.redrawn ? "orange" : "lime";
+    ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+
+    if (obj.collider) this.#drawCollider(ctx, obj.collider.toWorld(obj));
+
+    // Anchor point and rotation
+    const anchor = obj.worldPosition;
+    const rotation = obj.worldRotation;
+    const heading = new Vec2(Math.cos(rotation), Math.sin(rotation));
+    ctx.beginPath();
+    ctx.arc(anchor.x, anchor.y, 3 * scale, 0, Math.PI * 2);
+    ctx.moveTo(anchor.x, anchor.y);
+    ctx.lineTo(
+      anchor.x + heading.x * 15 * scale,
+      anchor.y + heading.y * 15 * scale
+    );
+    ctx.stroke();
+
+    ctx.fillStyle = ctx.strokeStyle;
+    const label = obj.redrawn ? `${obj.id} (redrawn)` : obj.id;
+    const labelPosition =
+      obj.anchorPoint === AnchorPoint.TOP_LEFT
+        ? new Vec2(bounds.x + 2 * scale, bounds.y + 12 * scale)
+        : new Vec2(bounds.x, bounds.y - 2 * scale);
+    ctx.fillText(label, labelPosition.x, labelPosition.y);
+  }
+
+  /**
+   * Draws a collider shape.
+   * @param {RenderContext} ctx - The context to draw to, in world space.
+   * @param {WorldShape} shape - The collider shape in world space.
+   */
+  #drawCollider(ctx: RenderContext, shape: WorldShape) {
+    ctx.save();
+    ctx.strokeStyle = "cyan";
+    ctx.setLineDash([4 / this.engine.camera.zoom]);
+    ctx.beginPath();
+    if (shape.kind === "circle") {
+      ctx.arc(shape.center.x, shape.center.y, shape.radius, 0, Math.PI * 2);
+    } else {
+      shape.vertices.forEach((v) => ctx.lineTo(v.x, v.y));
+      ctx.closePath();
+    }
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  /**
+   * Handles the toggle key and click-to-select.
+   */
+  #handleInput() {
+    const input = this.engine.inputManager;
+
+    const toggleDown = input.isKeyDown(this.toggleKey);
+    if (toggleDown && !this.#toggleWasDown) {
+      this.enabled = !this.enabled;
+      if (!this.enabled) this.select(null);
+    }
+    this.#toggleWasDown = toggleDown;
+
+    const mouseDown = input.isMouseButtonDown(0);
+    if (this.enabled && mouseDown && !this.#mouseWasDown) {
+      this.select(this.objectAt(input.worldMousePosition));
+    }
+    this.#mouseWasDown = mouseDown;
+  }
+
+  /**
+   * Finds the topmost object in the active scene at a point.
+   * Children are drawn over their parents, so they are checked first.
+   * @param {Vec2} point - The point in world coordinates.
+   * @returns {GameObject | null} The object at the point, or null.
+   */
+  objectAt(point: Vec2): GameObject | null {
+    const objects: GameObject[] = [];
+    this.engine.gameObjects.forEach((root) =>
+      root.traverse((obj) => objects.push(obj))
+    );
+    for (let i = objects.length - 1; i >= 0; i--) {
+      if (objects[i].bounds.containsPoint(point)) return objects[i];
+    }
+    return null;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * A function that handles an event's payload.
+ */
+export type EventHandler<T> = (payload: T) => void;
+
+/**
+ * The handlers subscribed to each event, typed by the event's payload.
+ */
+type EventHandlers<Events extends object> = {
+  [K in keyof Events]?: Set<EventHandler<Events[K]>>;
+};
+
+/**
+ * A typed publish/subscribe event bus.
+ * Each event name maps to the type of its payload, so handlers and emitters
+ * are checked against each other.
+ *
+ * @example
+ * type Events = { scored: { points: number } };
+ * const bus = new EventBus<Events>();
+ * const off = bus.on("scored", ({ points }) => console.log(points));
+ * bus.emit("scored", { points: 10 });
+ * off();
+ */
+export class EventBus<Events extends object> {
+  /**
+   * The registered handlers for each event name.
+   * @private
+   */
+  #handlers: EventHandlers<Events> = {};
+
+  /**
+   * Subscribes to an event.
+   * @param {K} name - The name of the event.
+   * @param {EventHandler} handler - The function called with the event payload.
+   * @returns {() => void} A function that removes the subscription.
+   */
+  on<K extends keyof Events>(
+    name: K,
+    handler: EventHandler<Events[K]>
+  ): () => void {
+    const handlers = (this.#handlers[name] ??= new Set());
+    handlers.add(handler);
+    return () => this.off(name, handler);
+  }
+
+  /**
+   * Subscribes to the next occurrence of an event only.
+   * @param {K} name - The name of the event.
+   * @param {EventHandler} handler - The function called with the event payload.
+   * @returns {() => void} A function that removes the subscription.
+   */
+  once<K extends keyof Events>(
+    name: K,
+    handler: EventHandler<Events[K]>
+  ): () => void {
+    const wrapper: EventHandler<Events[K]> = (payload) => {
+      this.off(name, wrapper);
+      handler(payload);
+    };
+    return this.on(name, wrapper);
+  }
+
+  /**
+   * Removes a subscription.
+   * @param {K} name - The name of the event.
+   * @param {EventHandler} handler - The handler to remove.
+   */
+  off<K extends keyof Events>(name: K, handler: EventHandler<Events[K]>) {
+    const handlers = this.#handlers[name];
+    if (!handlers) return;
+    handlers.delete(handler);
+    if (handlers.size === 0) delete this.#handlers[name];
+  }
+
+  /**
+   * Calls every handler subscribed to an event.
+   * Handlers added or removed while emitting take effect on the next emit.
+   * @param {K} name - The name of the event.
+   * @param {Events[K]} payload - The payload passed to the handlers.
+   */
+  emit<K extends keyof Events>(name: K, payload: Events[K]) {
+    const handlers = this.#handlers[name];
+    if (!handlers) return;
+    [...handlers].forEach((handler) => handler(payload));
+  }
+
+  /**
+   * Removes every handler for an event, or for all events if no name is given.
+   * @param {K} name - The name of the event to clear.
+   */
+  clear<K extends keyof Events>(name?: K) {
+    if (name === undefined) this.#handlers = {};
+    else delete this.#handlers[name];
+  }
+}
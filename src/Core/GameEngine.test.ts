@@ -0,0 +1,117 @@
+import { Vec2 } from "wtc-math";
+import { describe, expect, it } from "vitest";
+
+import { GameEngine } from "./GameEngine";
+import { GameObject } from "./GameObject";
+import { MemoryAudioBackend } from "../Audio/MemoryAudioBackend";
+import { HeadlessRenderer } from "../Graphics/HeadlessRenderer";
+
+class Box extends GameObject {
+  drawObject() {
+    this.ctx.fillStyle = "red";
+    this.ctx.fillRect(0, 0, this.dims.x, this.dims.y);
+    this.needsRedraw = false;
+  }
+}
+
+const createEngine = () => {
+  const renderer = new HeadlessRenderer();
+  const engine = new GameEngine({
+    renderer,
+    dimensions: new Vec2(800, 600),
+    dpr: 1,
+    seed: 1,
+    audio: new MemoryAudioBackend(),
+  });
+  return { engine, renderer };
+};
+
+describe("GameEngine", () => {
+  it("draws each object's surface to the screen at its position", () => {
+    const { engine, renderer } = createEngine();
+    const box = new Box({
+      id: "box",
+      position: new Vec2(100, 50),
+      dimensions: new Vec2(20, 10),
+    });
+    engine.addObject(box);
+
+    engine.step();
+
+    const draws = renderer.ctx
+      .callsTo("drawImage")
+      .filter((call) => call.args[0] === box.c);
+    expect(draws).toHaveLength(1);
+    expect(draws[0].args.slice(1)).toEqual([-10, -5, 20, 10]);
+    expect(draws[0].transform[4]).toBe(100);
+    expect(draws[0].transform[5]).toBe(50);
+  });
+
+  it("only keeps the calls of the last frame", () => {
+    const { engine, renderer } = createEngine();
+    const box = new Box({
+      id: "box",
+      position: new Vec2(100, 50),
+      dimensions: new Vec2(20, 10),
+    });
+    engine.addObject(box);
+
+    engine.step();
+    box.position = new Vec2(200, 80);
+    engine.step();
+
+    expect(renderer.frames).toBe(2);
+    const draws = renderer.ctx
+      .callsTo("drawImage")
+      .filter((call) => call.args[0] === box.c);
+    expect(draws).toHaveLength(1);
+    expect(draws[0].transform[4]).toBe(200);
+    expect(draws[0].transform[5]).toBe(80);
+  });
+
+  it("interpolates rotation the shortest way round", () => {
+    const { engine, renderer } = createEngine();
+    const box = new Box({
+      id: "box",
+      position: new Vec2(100, 50),
+      dimensions: new Vec2(20, 10),
+    });
+    engine.addObject(box);
+    box.previousRotation = Math.PI - 0.1;
+    box.rotation = -Math.PI + 0.1;
+
+    engine.alpha = 0.5;
+    engine.draw();
+
+    const [draw] = renderer.ctx
+      .callsTo("drawImage")
+      .filter((call) => call.args[0] === box.c);
+    const [a, b] = draw.transform;
+    // Halfway between the two is π, not 0
+    expect(a).toBeCloseTo(-1);
+    expect(b).toBeCloseTo(0);
+  });
+
+  it("draws cached static objects in zIndex order with dynamic ones", () => {
+    const { engine, renderer } = createEngine();
+    const box = (id: string, zIndex: number, isStatic: boolean) =>
+      new Box({
+        id,
+        position: new Vec2(100 + zIndex * 10, 50),
+        dimensions: new Vec2(20, 10),
+        zIndex,
+        isStatic,
+      });
+    const below = box("below", 0, true);
+    const between = box("between", 1, false);
+    const above = box("above", 2, true);
+    [above, between, below].forEach((obj) => engine.addObject(obj));
+
+    engine.step();
+
+    const draws = renderer.ctx.callsTo("drawImage");
+    expect(draws).toHaveLength(3);
+    expect(draws[1].args[0]).toBe(between.c);
+    expect(engine.scenes.current.staticLayers.rebuilds).toBe(2);
+  });
+});
@@ -1,34 +1,102 @@
 import { Vec2 } from "wtc-math";
 
+import { AssetManager } from "./AssetManager";
+import { Camera } from "./Camera";
+import { DebugOverlay } from "./DebugOverlay";
+import { EventBus } from "./EventBus";
 import { GameObject } from "./GameObject";
 import { InputManager } from "./InputManager";
+import { objectRegistry } from "./GameObjectRegistry";
+import type { GameObjectType } from "./ObjectIndex";
+import { RenderLayers, type RenderLayer } from "./RenderLayers";
+import { ReplayManager, type ReplayMode } from "./ReplayManager";
+import { Scene } from "./Scene";
+import { migrateSceneData, SCENE_VERSION, type SceneData } from "./SceneData";
+import { SceneManager } from "./SceneManager";
+import type { AudioBackend } from "../Audio/AudioBackend";
+import { AudioManager } from "../Audio/AudioManager";
+import { WebAudioBackend } from "../Audio/WebAudioBackend";
+import { Canvas2DRenderer } from "../Graphics/Canvas2DRenderer";
+import { DirtyRectTracker } from "../Graphics/DirtyRectTracker";
+import type { RenderContext, Renderer } from "../Graphics/Renderer";
+import { Random } from "../Helpers/Random";
 import { Rectangle } from "../Helpers/Rectangle";
-
-/** TODO:
- * - Add Camera functionality.
- * - Add some time management functions.
- * - Add a way to get objects by type.
- * - Add debug mode.
- * - Add event system
- * - Add state management.
- */
+import { CollisionSystem } from "../Physics/CollisionSystem";
+import { PhysicsSystem } from "../Physics/PhysicsSystem";
+import { TweenManager } from "../Tweens/TweenManager";
 
 export type GameEngineArguments = {
-  canvas: HTMLCanvasElement;
+  canvas?: HTMLCanvasElement | null;
+  renderer?: Renderer;
   dimensions?: Vec2;
   dpr?: number;
+  updateRate?: number;
+  maxDeltaTime?: number;
+  seed?: number;
+  assets?: AssetManager;
+  audio?: AudioBackend;
+  cacheStaticLayers?: boolean;
+  dirtyRects?: boolean;
+};
+
+/**
+ * The events emitted by the engine, mapped to their payloads.
+ */
+export type EngineEvents = {
+  /** A game object was added to the scene. */
+  objectAdded: { object: GameObject };
+  /** A game object was removed from the scene. */
+  objectRemoved: { object: GameObject };
+  /** A different scene became the active scene. */
+  sceneChanged: { scene: Scene };
+  /** The game loop was started or stopped. */
+  playingChanged: { playing: boolean };
+  /** A simulation tick is about to run. */
+  beforeUpdate: { deltaTime: number };
+  /** A simulation tick has finished. */
+  afterUpdate: { deltaTime: number };
+  /** The scene is about to be drawn, the canvas has been cleared. */
+  beforeDraw: { ctx: RenderContext };
+  /** The scene has been drawn. The context is in screen space. */
+  afterDraw: { ctx: RenderContext };
+  /** Recording or replaying input started or stopped. */
+  replayModeChanged: { mode: ReplayMode };
 };
 
 export interface IGameEngine {
-  canvas: HTMLCanvasElement;
+  canvas: HTMLCanvasElement | null;
+  renderer: Renderer;
   dims: Vec2;
   dpr: number;
-  ctx: CanvasRenderingContext2D;
+  readonly ctx: RenderContext;
   gameObjects: GameObject[];
   lastTime: number;
   deltaTime: number;
+  fixedDeltaTime: number;
+  maxDeltaTime: number;
+  timeScale: number;
+  paused: boolean;
+  alpha: number;
+  ticks: number;
+  time: number;
   animationFrameId: number | null;
   inputManager: InputManager;
+  camera: Camera;
+  layers: RenderLayers;
+  cacheStaticLayers: boolean;
+  dirtyRects: boolean;
+  events: EventBus<EngineEvents>;
+  scenes: SceneManager;
+  debug: DebugOverlay;
+  collisions: CollisionSystem;
+  physics: PhysicsSystem;
+  random: Random;
+  replay: ReplayManager;
+  assets: AssetManager;
+  audio: AudioManager;
+  tweens: TweenManager;
+  serializeScene(scene?: Scene): SceneData;
+  loadScene(data: SceneData | string): void;
 }
 
 /**
@@ -37,90 +105,364 @@ export interface IGameEngine {
  * @implements {IGameEngine}
  */
 export class GameEngine implements IGameEngine {
-  /** The HTML canvas element to render to. */
-  canvas: HTMLCanvasElement;
+  /** The canvas input is read from, and drawn to by the default renderer. Null when headless. */
+  canvas: HTMLCanvasElement | null;
+  /** Draws the game to the screen. */
+  renderer: Renderer;
   /** The logical dimensions of the canvas. */
   dims!: Vec2;
   /** The device pixel ratio for high-resolution displays. */
   dpr!: number;
-  /** The 2D rendering context for the canvas. */
-  ctx: CanvasRenderingContext2D;
-  /** A list of all game objects in the scene. */
-  gameObjects!: GameObject[];
   /** The timestamp of the last frame. */
   lastTime: number = 0;
-  /** The time elapsed since the last frame in seconds. */
+  /** The time elapsed since the last frame in seconds, clamped to maxDeltaTime. */
   deltaTime: number = 0;
+  /** The duration of a single simulation tick in seconds. */
+  fixedDeltaTime: number;
+  /** The largest frame delta fed into the simulation, to avoid spikes after a stall. */
+  maxDeltaTime: number;
+  /** The rate simulation time passes at. 1 is real time, 0.5 is half speed. */
+  timeScale: number = 1;
+  /** Whether the simulation is paused. The scene keeps rendering while paused. */
+  paused: boolean = false;
+  /** How far, from 0 to 1, rendering is between the previous and current tick. */
+  alpha: number = 0;
+  /** The number of simulation ticks run so far. */
+  ticks: number = 0;
+  /** The simulated time elapsed in seconds. */
+  time: number = 0;
+  /** Simulation time waiting to be consumed by fixed ticks. */
+  #accumulator: number = 0;
   /** The ID of the current animation frame request. */
   animationFrameId: number | null = null;
   /** The input manager for handling keyboard and mouse events. */
   inputManager: InputManager;
+  /** The camera used to view the game world. */
+  camera: Camera;
+  /** The render layers, in the order they're drawn, with their parallax. */
+  layers: RenderLayers = new RenderLayers();
+  /** Whether static objects are drawn from a cached image of their layer. */
+  cacheStaticLayers: boolean;
+  /** Whether only the parts of the screen the dynamic objects are drawn to are repainted. */
+  dirtyRects: boolean;
+  /**
+   * Works out the parts of the screen to repaint while `dirtyRects` is on.
+   * @private
+   */
+  #dirtyRects: DirtyRectTracker = new DirtyRectTracker();
+  /** The event bus for engine-wide events. */
+  events: EventBus<EngineEvents> = new EventBus();
+  /** The stack of scenes. The active scene owns `gameObjects`. */
+  scenes: SceneManager;
+  /** The debug overlay, toggled with the backtick key. */
+  debug: DebugOverlay;
+  /** The collision detection system. */
+  collisions: CollisionSystem;
+  /** The rigid body physics system. */
+  physics: PhysicsSystem;
+  /** The random number generator for the simulation. Seeded, so replays match. */
+  random: Random;
+  /** Records the input of every tick, and replays recordings. */
+  replay: ReplayManager;
+  /** Loads and caches images, audio and data. Can be shared with other engines. */
+  assets: AssetManager;
+  /** Plays sound effects and music. */
+  audio: AudioManager;
+  /** Animates the properties of game objects, and anything else, over time. */
+  tweens: TweenManager;
 
   /**
    * Creates a new GameEngine instance.
    * @param {GameEngineArguments} args - The arguments for the game engine.
    */
   constructor({
-    canvas,
+    canvas = null,
+    renderer,
     dimensions = new Vec2(1000, 1000),
     dpr = 2,
+    updateRate = 60,
+    maxDeltaTime = 0.25,
+    seed = Random.randomSeed(),
+    assets = new AssetManager(),
+    audio = new WebAudioBackend(),
+    cacheStaticLayers = true,
+    dirtyRects = false,
   }: GameEngineArguments) {
-    if (!canvas) throw new Error("Canvas not defined.");
     this.canvas = canvas;
+    // Without a renderer, the engine draws to the canvas
+    if (renderer) this.renderer = renderer;
+    else if (canvas) this.renderer = new Canvas2DRenderer(canvas);
+    else throw new Error("Canvas not defined.");
     this.dims = dimensions;
     this.dpr = dpr;
-    const ctx: CanvasRenderingContext2D | null = canvas.getContext("2d");
-    if (!ctx) throw new Error("Context not able to be created.");
-    this.ctx = ctx;
-    canvas.width = this.dims.x * dpr;
-    canvas.height = this.dims.y * dpr;
-    this.ctx.scale(dpr, dpr);
+    this.fixedDeltaTime = 1 / updateRate;
+    this.maxDeltaTime = maxDeltaTime;
+    this.cacheStaticLayers = cacheStaticLayers;
+    this.dirtyRects = dirtyRects;
+    this.renderer.resize(this.dims, dpr);
+
+    this.scenes = new SceneManager(this, new Scene({ id: "main" }));
+    this.camera = new Camera({ viewport: this.dims.clone() });
+    this.inputManager = new InputManager(canvas, this.dims);
+    this.inputManager.camera = this.camera;
+    this.debug = new DebugOverlay({ engine: this });
+    this.collisions = new CollisionSystem(this);
+    this.physics = new PhysicsSystem(this);
+    this.random = new Random(seed);
+    this.replay = new ReplayManager(this);
+    this.assets = assets;
+    this.audio = new AudioManager(this, audio);
+    this.tweens = new TweenManager(this);
+  }
+
+  /**
+   * Gets the context that draws to the screen, in logical pixels.
+   * @returns {RenderContext} The renderer's context.
+   */
+  get ctx(): RenderContext {
+    return this.renderer.ctx;
+  }
 
-    this.gameObjects = [];
-    this.inputManager = new InputManager(canvas);
+  /**
+   * Gets the seed the random number generator was last seeded with.
+   * @returns {number} The seed.
+   */
+  get seed(): number {
+    return this.random.seed;
   }
 
   /**
-   * Adds a game object to the scene.
+   * Restarts the random number generator from a seed.
+   * @param {number} seed - The seed.
+   */
+  reseed(seed: number) {
+    this.random = new Random(seed);
+  }
+
+  /**
+   * Gets/Sets the list of game objects in the active scene.
+   * @param {GameObject[]} objects - The new list of game objects.
+   */
+  get gameObjects(): GameObject[] {
+    return this.scenes.current.gameObjects;
+  }
+  set gameObjects(objects) {
+    this.scenes.current.gameObjects = objects;
+  }
+
+  /**
+   * Adds a game object, and its children, to the active scene.
+   * A child is added to its parent's scene instead, without becoming a root object.
    * @param {GameObject} obj - The game object to add.
+   * @throws {Error} If the scene already has an object with the same id.
    */
   addObject(obj: GameObject) {
     if (obj instanceof GameObject) {
-      this.gameObjects.push(obj);
+      if (obj.parent && obj.parent.engine !== this)
+        throw new Error(
+          `GameObject ${obj.id} has a parent, add ${obj.parent.id} to the engine instead.`
+        );
+      const scene = obj.parent?.scene ?? this.scenes.current;
+
+      const objects: GameObject[] = [];
+      obj.traverse((o) => objects.push(o));
+      const ids = new Set<string>();
+      objects.forEach((o) => {
+        if (ids.has(o.id) || scene.index.getById(o.id))
+          throw new Error(`A GameObject with the id "${o.id}" already exists.`);
+        ids.add(o.id);
+      });
+
+      if (!obj.parent) {
+        scene.gameObjects.push(obj);
+        scene.invalidateDrawOrder();
+      }
+      objects.forEach((o) => this.#attachObject(o, scene));
     }
   }
 
   /**
-   * Removes a game object from the scene.
+   * Removes a game object, and its children, from the scene it belongs to.
+   * A child is detached from its parent first.
+   * Any event subscriptions the objects made through `subscribe` are removed.
    * @param {GameObject} obj - The game object to remove.
    */
   removeObject(obj: GameObject) {
-    this.gameObjects = this.gameObjects.filter((o) => o !== obj);
+    const scene = obj.scene;
+    if (!scene || obj.engine !== this) return;
+    if (obj.parent) {
+      obj.parent.removeChild(obj);
+      return;
+    }
+
+    scene.gameObjects = scene.gameObjects.filter((o) => o !== obj);
+    const objects: GameObject[] = [];
+    obj.traverse((o) => objects.push(o));
+    objects.forEach((o) => this.#detachObject(o, scene));
   }
 
   /**
-   * Clears all game objects from the scene.
+   * Clears all game objects from the active scene.
    */
   clearScene() {
-    this.gameObjects = [];
+    const scene = this.scenes.current;
+    const objects: GameObject[] = [];
+    scene.gameObjects.forEach((obj) => obj.traverse((o) => objects.push(o)));
+    scene.gameObjects = [];
+    objects.forEach((obj) => this.#detachObject(obj, scene));
+  }
+
+  /**
+   * Saves the game objects of a scene, and the camera, so they can be loaded again.
+   * Only objects of types registered with `objectRegistry` are saved.
+   * @param {Scene} scene - The scene to save. Defaults to the active scene.
+   * @returns {SceneData} The save, serializable to JSON.
+   */
+  serializeScene(scene: Scene = this.scenes.current): SceneData {
+    const { camera } = this;
+    const target = camera.target?.scene === scene ? camera.target : null;
+    return {
+      version: SCENE_VERSION,
+      scene: scene.id,
+      camera: {
+        position: [camera.position.x, camera.position.y],
+        zoom: camera.zoom,
+        rotation: camera.rotation,
+        target: target?.id ?? null,
+      },
+      objects: scene.gameObjects
+        .filter((obj) => objectRegistry.nameOf(obj) !== null)
+        .map((obj) => obj.toJSON()),
+    };
+  }
+
+  /**
+   * Replaces the game objects of the active scene with saved ones, and restores the camera.
+   * Saves of older versions are migrated first. The objects are all created before
+   * the scene is cleared, so a save that fails to load leaves the scene as it was.
+   * @param {SceneData | string} data - The save, or its JSON.
+   * @throws {Error} If the save is invalid or can't be migrated, or one of its types isn't registered.
+   */
+  loadScene(data: SceneData | string) {
+    const parsed = migrateSceneData(
+      typeof data === "string" ? JSON.parse(data) : data
+    );
+    const objects = parsed.objects.map((objectData) =>
+      objectRegistry.create(objectData, this)
+    );
+
+    this.clearScene();
+    objects.forEach((obj) => this.addObject(obj));
+
+    const { camera } = this;
+    const [x, y] = parsed.camera.position;
+    camera.position.reset(x, y);
+    camera.previousPosition.reset(x, y);
+    camera.zoom = parsed.camera.zoom;
+    camera.rotation = parsed.camera.rotation;
+    camera.target =
+      parsed.camera.target === null
+        ? null
+        : this.getObjectById(parsed.camera.target) ?? null;
+  }
+
+  /**
+   * Registers a game object that has been put into a scene.
+   * @param {GameObject} obj - The game object to register.
+   * @param {Scene} scene - The scene it was put into.
+   */
+  #attachObject(obj: GameObject, scene: Scene) {
+    scene.index.add(obj);
+    scene.spatialHash.insert(obj, obj.bounds);
+    obj.scene = scene;
+    obj.engine = this;
+    obj.savePreviousState();
+    obj.onAdded(this);
+    this.events.emit("objectAdded", { object: obj });
+  }
+
+  /**
+   * Releases a game object that has been taken out of a scene.
+   * @param {GameObject} obj - The game object to release.
+   * @param {Scene} scene - The scene it was taken out of.
+   */
+  #detachObject(obj: GameObject, scene: Scene) {
+    scene.index.remove(obj);
+    scene.spatialHash.remove(obj);
+    obj.unsubscribeAll();
+    obj.onRemoved(this);
+    obj.engine = null;
+    obj.scene = null;
+    if (this.camera.target === obj) this.camera.unfollow();
+    this.events.emit("objectRemoved", { object: obj });
   }
 
   /**
    * Finds a game object by its ID.
    * @param {string} id - The ID of the game object to find.
+   * @param {Scene} scene - The scene to search. Defaults to the active scene.
    * @returns {GameObject | undefined} The found game object or undefined if not found.
    */
-  getObjectById(id: string): GameObject | undefined {
-    return this.gameObjects.find((obj) => obj.id === id);
+  getObjectById(
+    id: string,
+    scene: Scene = this.scenes.current
+  ): GameObject | undefined {
+    return scene.index.getById(id);
+  }
+
+  /**
+   * Gets all game objects of a type, including subclasses.
+   * @example
+   * const players = engine.getObjectsByType(Player); // Player[]
+   * @param {GameObjectType<T>} type - The class of the objects to find.
+   * @param {Scene} scene - The scene to search. Defaults to the active scene.
+   * @returns {T[]} Array of game objects of the type.
+   */
+  getObjectsByType<T extends GameObject>(
+    type: GameObjectType<T>,
+    scene: Scene = this.scenes.current
+  ): T[] {
+    return scene.index.getByType(type);
+  }
+
+  /**
+   * Gets all game objects with a tag.
+   * @param {string} tag - The tag to look for.
+   * @param {Scene} scene - The scene to search. Defaults to the active scene.
+   * @returns {GameObject[]} Array of game objects with the tag.
+   */
+  getObjectsByTag(
+    tag: string,
+    scene: Scene = this.scenes.current
+  ): GameObject[] {
+    return scene.index.getByTag(tag);
+  }
+
+  /**
+   * Gets all game objects in a layer.
+   * @param {string} layer - The name of the layer.
+   * @param {Scene} scene - The scene to search. Defaults to the active scene.
+   * @returns {GameObject[]} Array of game objects in the layer.
+   */
+  getObjectsInLayer(
+    layer: string,
+    scene: Scene = this.scenes.current
+  ): GameObject[] {
+    return scene.index.getByLayer(layer);
   }
 
   /**
    * Gets all game objects within a specific area.
    * @param {Rectangle} area - The area to check for objects.
+   * @param {Scene} scene - The scene to search. Defaults to the active scene.
    * @returns {GameObject[]} Array of game objects within the specified area.
    */
-  getObjectsInArea(area: Rectangle): GameObject[] {
-    return this.gameObjects.filter((obj) => {
+  getObjectsInArea(
+    area: Rectangle,
+    scene: Scene = this.scenes.current
+  ): GameObject[] {
+    const candidates = scene.spatialHash.query(area);
+    return [...candidates].filter((obj) => {
       const bounds = obj.bounds;
       return area.intersects(bounds);
     });
@@ -128,6 +470,8 @@ export class GameEngine implements IGameEngine {
 
   /**
    * Swaps the index positions of two game objects in the scene.
+   * This only changes the draw order of objects in the same layer with the same zIndex,
+   * set their `zIndex` to draw them in a particular order.
    * @param {GameObject} obj1 - The first game object.
    * @param {GameObject} obj2 - The second game object.
    * @returns {boolean} True if the swap was successful, false if either object wasn't found.
@@ -142,44 +486,179 @@ export class GameEngine implements IGameEngine {
       this.gameObjects[index2],
       this.gameObjects[index1],
     ];
+    this.scenes.current.invalidateDrawOrder();
 
     return true;
   }
 
   /**
-   * Updates all game objects in the scene.
+   * Snapshots the input, recorded or live, updates the active scene, the tweens and all of
+   * the scene's game objects, then runs physics and collision detection and moves the camera.
    * @param {number} deltaTime - The time elapsed since the last frame in seconds.
    */
   update(deltaTime: number) {
-    this.gameObjects.forEach((obj) => obj.update(this, deltaTime));
+    this.replay.snapshot();
+    this.events.emit("beforeUpdate", { deltaTime });
+    this.scenes.update(deltaTime);
+    this.scenes.current.update(this, deltaTime);
+    this.gameObjects.forEach((obj) =>
+      obj.traverse((o) => o.savePreviousState())
+    );
+    this.tweens.update(deltaTime);
+    this.gameObjects.forEach((obj) => obj.updateHierarchy(this, deltaTime));
+    this.physics.update(this.scenes.current, deltaTime);
+    this.collisions.update(this.scenes.current);
+    this.camera.update(deltaTime);
+    this.ticks++;
+    this.time += deltaTime;
+    this.events.emit("afterUpdate", { deltaTime });
   }
 
   /**
-   * Draws all game objects in the scene.
+   * Advances the simulation by a number of fixed ticks and draws the result.
+   * Works while paused or stopped, which makes it useful for debugging and tests.
+   * @param {number} n - The number of ticks to advance.
+   */
+  step(n: number = 1) {
+    for (let i = 0; i < n; i++) this.update(this.fixedDeltaTime);
+    this.alpha = 1;
+    this.draw();
+  }
+
+  /**
+   * Draws the game objects of every visible scene, layer by layer through the camera,
+   * then any running scene transition.
+   * While `cacheStaticLayers` is on, each run of static objects is drawn from its cached
+   * image, in its place in the draw order, and with `dirtyRects` on only the parts of
+   * the screen that changed are repainted.
    */
   draw() {
-    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    const { ctx } = this;
+    const rebuilt = this.#updateStaticLayers();
+    const regions = this.dirtyRects
+      ? this.#dirtyRects.regions(this, rebuilt)
+      : null;
+    if (!this.dirtyRects) this.#dirtyRects.reset();
 
-    this.gameObjects.forEach((obj) => {
-      obj.render(this);
-    });
+    this.renderer.clear(regions ?? undefined);
+    this.events.emit("beforeDraw", { ctx });
+
+    if (regions) {
+      ctx.save();
+      ctx.beginPath();
+      regions.forEach(({ x, y, width, height }) =>
+        ctx.rect(x, y, width, height)
+      );
+      ctx.clip();
+    }
+    this.scenes.visibleScenes.forEach((scene) =>
+      this.drawInLayers(scene, (objects) =>
+        objects.forEach((obj) => {
+          if (obj.isStatic && this.cacheStaticLayers)
+            scene.staticLayers.draw(this, obj, ctx);
+          else obj.render(this);
+        })
+      )
+    );
+    this.scenes.drawTransition(ctx);
+    if (regions) ctx.restore();
+
+    this.events.emit("afterDraw", { ctx });
+  }
+
+  /**
+   * Calls a function for each render layer of a scene with root objects in it, in draw
+   * order, with the screen context transformed by the camera for the layer.
+   * @param {Scene} scene - The scene to draw.
+   * @param {(objects: GameObject[], layer: RenderLayer) => void} draw - The function that draws
+   * the root objects of a layer, given in draw order.
+   */
+  drawInLayers(
+    scene: Scene,
+    draw: (objects: GameObject[], layer: RenderLayer) => void
+  ) {
+    const { ctx } = this;
+    const order = scene.drawOrder(this.layers);
+    let start = 0;
+    while (start < order.length) {
+      const layer = this.layers.get(order[start].layer);
+      let end = start + 1;
+      while (end < order.length && this.layers.get(order[end].layer) === layer)
+        end++;
+
+      ctx.save();
+      this.camera.apply(ctx, this.alpha, layer);
+      draw(order.slice(start, end), layer);
+      ctx.restore();
+      start = end;
+    }
+  }
+
+  /**
+   * Rebuilds the cached images of the static objects of the visible scenes that changed.
+   * Without caching, the images are dropped, as the objects are drawn directly.
+   * @returns {boolean} True if any image changed.
+   */
+  #updateStaticLayers(): boolean {
+    return this.scenes.visibleScenes.reduce((changed, scene) => {
+      if (!this.cacheStaticLayers) {
+        scene.staticLayers.clear();
+        return changed;
+      }
+      return (
+        scene.staticLayers.update(this, scene.drawOrder(this.layers)) || changed
+      );
+    }, false);
+  }
+
+  /**
+   * Tears the engine down: stops the game loop, every sound and every tween, removes the active
+   * scene's objects, the input event listeners and every engine event handler.
+   * The engine can't be used afterwards.
+   */
+  dispose() {
+    this.playing = false;
+    this.replay.stop();
+    this.debug.select(null);
+    this.clearScene();
+    this.inputManager.dispose();
+    this.audio.dispose();
+    this.tweens.cancelAll();
+    this.events.clear();
   }
 
   /**
    * The main game loop.
-   * Updates and draws the scene on each frame.
+   * Runs as many fixed ticks as the elapsed time allows, then draws the scene
+   * interpolated between the last two ticks. While paused, only the running
+   * scene transition is advanced, so it doesn't freeze halfway.
    * @param {number} d - The current timestamp.
    */
   gameLoop = (d: number) => {
     if (!this.playing) return;
 
-    this.deltaTime = (d - this.lastTime) / 1000;
+    this.deltaTime = Math.min((d - this.lastTime) / 1000, this.maxDeltaTime);
     this.lastTime = d;
 
-    this.update(this.deltaTime);
+    if (this.paused) {
+      // Ticks don't run while paused, so a running transition is advanced here
+      this.scenes.update(this.deltaTime);
+      this.alpha = 1;
+    } else {
+      this.#accumulator += this.deltaTime * this.timeScale;
+      while (this.#accumulator >= this.fixedDeltaTime) {
+        this.update(this.fixedDeltaTime);
+        this.#accumulator -= this.fixedDeltaTime;
+      }
+      this.alpha = this.#accumulator / this.fixedDeltaTime;
+    }
+
     this.draw();
 
-    this.animationFrameId = requestAnimationFrame(this.gameLoop);
+    // The loop may have been stopped during the update
+    if (this.playing) {
+      this.animationFrameId = requestAnimationFrame(this.gameLoop);
+    }
   };
 
   #playing = false;
@@ -193,11 +672,13 @@ export class GameEngine implements IGameEngine {
       this.#playing = true;
       this.lastTime = performance.now();
       this.animationFrameId = requestAnimationFrame(this.gameLoop);
+      this.events.emit("playingChanged", { playing: true });
     } else if (this.animationFrameId && p === false) {
       console.log("Game loop stopped");
       cancelAnimationFrame(this.animationFrameId);
       this.animationFrameId = null;
       this.#playing = false;
+      this.events.emit("playingChanged", { playing: false });
     }
   }
   get playing() {
@@ -1,8 +1,20 @@
-import { Mat2 } from "wtc-math";
-import type { Vec2 } from "wtc-math";
+import { Mat2, Vec2 } from "wtc-math";
+import type { FolderApi } from "tweakpane";
 
-import type { GameEngine } from "./GameEngine";
+import type { EventHandler } from "./EventBus";
+import type { EngineEvents, GameEngine } from "./GameEngine";
+import { objectRegistry } from "./GameObjectRegistry";
+import { RenderLayerName } from "./RenderLayers";
+import type { Scene } from "./Scene";
+import type { RenderContext, RenderImage, Surface } from "../Graphics/Renderer";
 import { Rectangle } from "../Helpers/Rectangle";
+import { type Collider, CollisionLayer } from "../Physics/Collider";
+import {
+  isRigidBodyData,
+  type RigidBody,
+  type RigidBodyData,
+} from "../Physics/RigidBody";
+import type { Contact } from "../Physics/SAT";
 
 /**
  * Enum representing the anchor point of a game object.
@@ -20,7 +32,7 @@ export enum AnchorPoint {
 export interface IGameObject {
   /** A unique identifier for the game object. */
   id: string;
-  /** The position of the game object in the game world. */
+  /** The position of the game object, relative to its parent's center if it has one. */
   position: Vec2;
   /** The dimensions of the game object. */
   dims: Vec2;
@@ -28,16 +40,48 @@ export interface IGameObject {
   anchorPoint: AnchorPoint;
   /** The device pixel ratio, used for high-resolution rendering. */
   dpr: number;
-  /** The offscreen canvas element for the game object. */
-  c: HTMLCanvasElement;
-  /** The 2D rendering context for the offscreen canvas. */
-  ctx: CanvasRenderingContext2D;
+  /** The image of the offscreen surface, created by the engine's renderer the first time the object is rendered. */
+  readonly c: RenderImage;
+  /** The context that draws on the offscreen surface, in logical pixels. */
+  readonly ctx: RenderContext;
   /** A flag indicating whether the game object needs to be redrawn. */
   needsRedraw: boolean;
-  /** The rotation of the game object in radians. */
+  /** The rotation of the game object in radians, relative to its parent. */
   rotation: number;
+  /** The scale of the game object, relative to its parent. */
+  scale: Vec2;
+  /** The game object this one is attached to, if any. */
+  parent: GameObject | null;
+  /** The game objects attached to this one. */
+  children: GameObject[];
   /** A flag indicating whether the game object is currently renderable. */
   renderable: boolean;
+  /** The engine the game object has been added to, if any. */
+  engine: GameEngine | null;
+  /** The scene the game object belongs to, if any. */
+  scene: Scene | null;
+  /** The tags used to find the game object. */
+  tags: ReadonlySet<string>;
+  /** The name of the render layer the game object is drawn in. */
+  layer: string;
+  /** The order the game object is drawn in, among the roots of its layer or its siblings. */
+  zIndex: number;
+  /** Whether the game object, as a root, is drawn from its layer's cached image. */
+  isStatic: boolean;
+  /** The position at the start of the current tick, used for interpolation. */
+  previousPosition: Vec2;
+  /** The rotation at the start of the current tick, used for interpolation. */
+  previousRotation: number;
+  /** Whether the last call to draw redrew the offscreen canvas. */
+  redrawn: boolean;
+  /** The shape used for collision detection, if any. */
+  collider: Collider | null;
+  /** The collision layers the game object is in, as bit flags. */
+  collisionLayer: number;
+  /** The collision layers the game object collides with, as bit flags. */
+  collisionMask: number;
+  /** The physical state moved by the physics system, if any. */
+  body: RigidBody | null;
 }
 
 /**
@@ -56,16 +100,115 @@ export type GameObjectProps = {
   dpr?: number;
   /** The initial rotation of the game object in radians. Defaults to 0. */
   rotation?: number;
+  /** The initial scale of the game object. Defaults to (1, 1). */
+  scale?: Vec2;
+  /** Tags used to find the game object. Defaults to none. */
+  tags?: string[];
+  /** The name of the render layer the game object is drawn in. Defaults to RenderLayerName.WORLD. */
+  layer?: string;
+  /** The order the game object is drawn in, higher is drawn over lower. Defaults to 0. */
+  zIndex?: number;
+  /** Whether the game object, as a root, is drawn from its layer's cached image. Defaults to false. */
+  isStatic?: boolean;
+  /** The shape used for collision detection. Defaults to none. */
+  collider?: Collider | null;
+  /** The collision layers the game object is in. Defaults to CollisionLayer.DEFAULT. */
+  collisionLayer?: number;
+  /** The collision layers the game object collides with. Defaults to CollisionLayer.ALL. */
+  collisionMask?: number;
+  /** The physical state moved by the physics system. Defaults to none. */
+  body?: RigidBody | null;
 };
 
+/**
+ * The saved state of a game object. Serializable to JSON.
+ * Subclasses add their own fields.
+ */
+export type GameObjectData = {
+  /** The name the object's class is registered under. */
+  type: string;
+  /** The unique identifier of the game object. */
+  id: string;
+  /** The position, relative to its parent's center if it has one. */
+  position: [number, number];
+  /** The dimensions. */
+  dimensions: [number, number];
+  /** The anchor point. */
+  anchorPoint: AnchorPoint;
+  /** The rotation in radians, relative to its parent. */
+  rotation: number;
+  /** The scale, relative to its parent. */
+  scale: [number, number];
+  /** The tags used to find the game object. */
+  tags: string[];
+  /** The name of the render layer the game object is drawn in. */
+  layer: string;
+  /** The order the game object is drawn in. */
+  zIndex: number;
+  /** Whether the game object, as a root, is drawn from its layer's cached image. */
+  isStatic: boolean;
+  /** The collision layers the game object is in. */
+  collisionLayer: number;
+  /** The collision layers the game object collides with. */
+  collisionMask: number;
+  /** The state of its rigid body, if it has one. */
+  body: RigidBodyData | null;
+  /** The saved children. Only children of registered classes are saved. */
+  children: GameObjectData[];
+};
+
+/**
+ * Checks if a value is a pair of numbers, such as a saved vector.
+ * @param value The value to check.
+ * @returns `true` if the value is `[number, number]`.
+ */
+function isPair(value: unknown): value is [number, number] {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    value.every((n) => typeof n === "number")
+  );
+}
+
+/**
+ * Checks if a value has the fields every saved game object has. The children
+ * are only checked to be objects, the registry checks each of them when loading.
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value is GameObjectData.
+ */
+export function isGameObjectData(value: unknown): value is GameObjectData {
+  if (typeof value !== "object" || value === null) return false;
+  const data = value as Record<string, unknown>;
+  return (
+    typeof data.type === "string" &&
+    typeof data.id === "string" &&
+    isPair(data.position) &&
+    isPair(data.dimensions) &&
+    Object.values(AnchorPoint).includes(data.anchorPoint as AnchorPoint) &&
+    typeof data.rotation === "number" &&
+    isPair(data.scale) &&
+    Array.isArray(data.tags) &&
+    data.tags.every((tag) => typeof tag === "string") &&
+    typeof data.layer === "string" &&
+    typeof data.zIndex === "number" &&
+    typeof data.isStatic === "boolean" &&
+    typeof data.collisionLayer === "number" &&
+    typeof data.collisionMask === "number" &&
+    (data.body === null || isRigidBodyData(data.body)) &&
+    Array.isArray(data.children) &&
+    data.children.every((child) => typeof child === "object" && child !== null)
+  );
+}
+
 /**
  * The base class for all objects in the game.
  * Provides common functionality such as rendering and updating.
+ *
+ * Game objects form a hierarchy: children are positioned, rotated and scaled
+ * relative to their parent's center, and are updated, rendered and removed with it.
  * @implements {IGameObject}
  */
 export class GameObject implements IGameObject {
-  /** @inheritdoc */
-  id: string;
   /** @inheritdoc */
   position: Vec2;
   /** @inheritdoc */
@@ -75,9 +218,48 @@ export class GameObject implements IGameObject {
   /** @inheritdoc */
   dpr: number;
   /** @inheritdoc */
-  c: HTMLCanvasElement;
+  scale: Vec2;
+  /** @inheritdoc */
+  parent: GameObject | null = null;
+  /** @inheritdoc */
+  children: GameObject[] = [];
+  /** @inheritdoc */
+  engine: GameEngine | null = null;
+  /** @inheritdoc */
+  scene: Scene | null = null;
+  /** @inheritdoc */
+  previousPosition: Vec2;
+  /** @inheritdoc */
+  previousRotation: number;
+  /** @inheritdoc */
+  redrawn: boolean = false;
+  /** @inheritdoc */
+  collider: Collider | null;
+  /** @inheritdoc */
+  collisionLayer: number;
   /** @inheritdoc */
-  ctx: CanvasRenderingContext2D;
+  collisionMask: number;
+  /** @inheritdoc */
+  body: RigidBody | null;
+  /**
+   * @inheritdoc
+   * Static objects are composited, with their children, into an image of their render
+   * layer, which is only rebuilt when one of them is added, removed or needs redrawing.
+   * They're drawn under the other objects of their layer, and shouldn't move.
+   */
+  isStatic: boolean;
+  /**
+   * The offscreen surface, once the object has been rendered.
+   * @private
+   */
+  #surface: Surface | null = null;
+  /**
+   * The children sorted for drawing, until one is added or removed or changes zIndex.
+   * @private
+   */
+  #sortedChildren: GameObject[] | null = null;
+  /** Removers for the engine event subscriptions made through `subscribe`. */
+  #subscriptions: (() => void)[] = [];
 
   /**
    * Creates a new GameObject instance.
@@ -90,53 +272,105 @@ export class GameObject implements IGameObject {
     anchorPoint = AnchorPoint.CENTER,
     dpr = 2,
     rotation = 0,
+    scale = new Vec2(1, 1),
+    tags = [],
+    layer = RenderLayerName.WORLD,
+    zIndex = 0,
+    isStatic = false,
+    collider = null,
+    collisionLayer = CollisionLayer.DEFAULT,
+    collisionMask = CollisionLayer.ALL,
+    body = null,
   }: GameObjectProps) {
-    this.id = id;
+    this.#id = id;
     this.position = position;
     this.dims = dimensions;
     this.anchorPoint = anchorPoint;
     this.dpr = dpr;
     this.rotation = rotation;
-    this.c = document.createElement("canvas");
-    const ctx = this.c.getContext("2d");
-    if (!ctx) throw new Error("Could not get 2d context");
-    this.ctx = ctx;
-    this.c.width = this.dims.x * dpr;
-    this.c.height = this.dims.y * dpr;
+    this.scale = scale;
+    this.previousPosition = position.clone();
+    this.previousRotation = rotation;
+    this.#tags = new Set(tags);
+    this.#layer = layer;
+    this.#zIndex = zIndex;
+    this.isStatic = isStatic;
+    this.collider = collider;
+    this.collisionLayer = collisionLayer;
+    this.collisionMask = collisionMask;
+    this.body = body;
+  }
 
-    this.ctx.scale(dpr, dpr);
+  /** @inheritdoc */
+  get c(): RenderImage {
+    return this.#requireSurface().image;
+  }
 
-    this.draw();
+  /** @inheritdoc */
+  get ctx(): RenderContext {
+    return this.#requireSurface().ctx;
   }
 
   /**
-   * Renders the game object to the main canvas.
+   * Renders the game object, then its children, to the main canvas or another context.
+   * Children are rendered in the object's transform, even when the object itself is culled.
    * @param {GameEngine} engine - The game engine instance.
+   * @param {RenderContext} ctx - The context to render to. Defaults to the engine's.
+   * @param {boolean} cull - Whether to skip objects outside the camera's view. Defaults to true.
    */
-  render(engine: GameEngine) {
-    if (this.renderable) {
-      this.draw();
+  render(
+    engine: GameEngine,
+    ctx: RenderContext = engine.ctx,
+    cull: boolean = true
+  ) {
+    // Save the current context state
+    ctx.save();
 
-      // Save the current context state
-      engine.ctx.save();
+    // Interpolate between the previous and current tick
+    const position = Vec2.lerp(
+      this.previousPosition,
+      this.position,
+      engine.alpha
+    );
+    // The shortest way round, so an angle wrapping across ±π doesn't spin the long way
+    const turn = this.rotation - this.previousRotation;
+    const rotation =
+      this.previousRotation +
+      Math.atan2(Math.sin(turn), Math.cos(turn)) * engine.alpha;
 
-      // Calculate the position based on anchor point
-      const pos =
-        this.anchorPoint === AnchorPoint.CENTER
-          ? this.position.subtractNew(this.dims.scaleNew(0.5))
-          : this.position;
+    // Move to the center of the object, then rotate and scale
+    const center =
+      this.anchorPoint === AnchorPoint.CENTER
+        ? position
+        : position.add(this.dims.scaleNew(0.5));
+    ctx.translate(center.x, center.y);
+    ctx.rotate(rotation);
+    ctx.scale(this.scale.x, this.scale.y);
 
-      // Move to the center of the object, then rotate
-      engine.ctx.translate(pos.x + this.dims.x / 2, pos.y + this.dims.y / 2);
-      engine.ctx.rotate(this.rotation);
-      engine.ctx.translate(-this.dims.x / 2, -this.dims.y / 2);
+    if (!cull || this.renderable) {
+      this.#surface ??= engine.renderer.createSurface(
+        this.dims.x,
+        this.dims.y,
+        this.dpr
+      );
+      this.draw();
 
       // Draw the object
-      engine.ctx.drawImage(this.c, 0, 0, this.dims.x, this.dims.y);
-
-      // Restore the context state
-      engine.ctx.restore();
+      ctx.drawImage(
+        this.c,
+        -this.dims.x / 2,
+        -this.dims.y / 2,
+        this.dims.x,
+        this.dims.y
+      );
     }
+
+    this.#childrenInDrawOrder().forEach((child) =>
+      child.render(engine, ctx, cull)
+    );
+
+    // Restore the context state
+    ctx.restore();
   }
 
   /**
@@ -155,9 +389,65 @@ export class GameObject implements IGameObject {
 
   /**
    * A wrapper for drawObject that only redraws when necessary.
+   * Nothing is drawn until the object has been rendered once, and has a surface.
    */
   draw() {
-    if (this.needsRedraw) this.drawObject();
+    this.redrawn = this.needsRedraw && this.#surface !== null;
+    if (this.redrawn) this.drawObject();
+  }
+
+  /**
+   * Gets the children sorted by zIndex, keeping the order they were added in for ties.
+   */
+  #childrenInDrawOrder(): GameObject[] {
+    this.#sortedChildren ??= [...this.children].sort(
+      (a, b) => a.zIndex - b.zIndex
+    );
+    return this.#sortedChildren;
+  }
+
+  /**
+   * Marks the draw order this object is sorted in as out of date:
+   * its parent's children, or its scene's roots.
+   */
+  #invalidateDrawOrder() {
+    if (this.parent) this.parent.#sortedChildren = null;
+    else this.scene?.invalidateDrawOrder();
+  }
+
+  /**
+   * Gets the offscreen surface.
+   * @throws {Error} If the object hasn't been rendered yet.
+   */
+  #requireSurface(): Surface {
+    if (!this.#surface)
+      throw new Error(
+        `GameObject ${this.id} has no surface until it's been rendered.`
+      );
+    return this.#surface;
+  }
+
+  /**
+   * Stores the current position and rotation so rendering can interpolate
+   * from them. Called by the engine at the start of every tick.
+   * Call it after moving an object instantly to avoid it visibly sliding there.
+   */
+  savePreviousState() {
+    this.previousPosition.resetToVector(this.position);
+    this.previousRotation = this.rotation;
+  }
+
+  /**
+   * Updates the game object, then its children.
+   * Called by the engine for every object at the root of the scene.
+   * @param {GameEngine} engine - The game engine instance.
+   * @param {number} deltaTime - The time elapsed since the last frame.
+   */
+  updateHierarchy(engine: GameEngine, deltaTime: number) {
+    this.update(engine, deltaTime);
+    [...this.children].forEach((child) =>
+      child.updateHierarchy(engine, deltaTime)
+    );
   }
 
   /**
@@ -166,17 +456,332 @@ export class GameObject implements IGameObject {
    * @param {GameEngine} engine - The game engine instance.
    * @param {number} deltaTime - The time elapsed since the last frame.
    */
-  update(engine: GameEngine, deltaTime: number) {
+  update(_engine: GameEngine, _deltaTime: number) {
     // Do nothing, this should be overridden;
   }
 
+  /**
+   * Called when the object starts colliding with another one.
+   * @param {GameObject} other - The other object.
+   * @param {Contact} contact - The contact, with the normal pointing towards the other object.
+   */
+  onCollisionEnter(_other: GameObject, _contact: Contact) {
+    // Do nothing, this can be overridden;
+  }
+
+  /**
+   * Called every tick the object keeps colliding with another one.
+   * @param {GameObject} other - The other object.
+   * @param {Contact} contact - The contact, with the normal pointing towards the other object.
+   */
+  onCollisionStay(_other: GameObject, _contact: Contact) {
+    // Do nothing, this can be overridden;
+  }
+
+  /**
+   * Called when the object stops colliding with another one.
+   * @param {GameObject} other - The other object.
+   */
+  onCollisionExit(_other: GameObject) {
+    // Do nothing, this can be overridden;
+  }
+
+  /**
+   * Attaches a game object to this one.
+   * If this object is in an engine, the child is added to the same scene.
+   * @param {GameObject} child - The game object to attach.
+   */
+  addChild(child: GameObject) {
+    if (child === this || child.isAncestorOf(this))
+      throw new Error(`GameObject ${child.id} cannot be its own ancestor.`);
+    if (child.parent) child.parent.removeChild(child);
+    else child.engine?.removeObject(child);
+
+    child.parent = this;
+    this.children.push(child);
+    this.#sortedChildren = null;
+    this.engine?.addObject(child);
+  }
+
+  /**
+   * Detaches a child from this object, removing it and its own children from the engine.
+   * @param {GameObject} child - The child to detach.
+   */
+  removeChild(child: GameObject) {
+    const index = this.children.indexOf(child);
+    if (index === -1) return;
+
+    this.children.splice(index, 1);
+    this.#sortedChildren = null;
+    child.parent = null;
+    child.engine?.removeObject(child);
+  }
+
+  /**
+   * Checks if this object is an ancestor of another one.
+   * @param {GameObject} obj - The possible descendant.
+   * @returns {boolean} True if obj is below this object in the hierarchy.
+   */
+  isAncestorOf(obj: GameObject): boolean {
+    for (let p = obj.parent; p; p = p.parent) if (p === this) return true;
+    return false;
+  }
+
+  /**
+   * Calls a function for this object and each of its descendants, parents first.
+   * @param {(obj: GameObject) => void} callback - The function to call.
+   */
+  traverse(callback: (obj: GameObject) => void) {
+    callback(this);
+    this.children.forEach((child) => child.traverse(callback));
+  }
+
+  /**
+   * Gets the state of the game object and its children, to save it.
+   * Subclasses with state of their own add it to the data:
+   * @example
+   * toJSON(): CrateData {
+   *   return { ...super.toJSON(), health: this.health };
+   * }
+   * @returns {GameObjectData} The state.
+   * @throws {Error} If the object's class isn't registered.
+   */
+  toJSON(): GameObjectData {
+    const type = objectRegistry.nameOf(this);
+    if (!type)
+      throw new Error(
+        `GameObject ${this.id} can't be saved, ${this.constructor.name} isn't registered.`
+      );
+    return {
+      type,
+      id: this.id,
+      position: [this.position.x, this.position.y],
+      dimensions: [this.dims.x, this.dims.y],
+      anchorPoint: this.anchorPoint,
+      rotation: this.rotation,
+      scale: [this.scale.x, this.scale.y],
+      tags: [...this.tags],
+      layer: this.layer,
+      zIndex: this.zIndex,
+      isStatic: this.isStatic,
+      collisionLayer: this.collisionLayer,
+      collisionMask: this.collisionMask,
+      body: this.body?.toJSON() ?? null,
+      children: this.children
+        .filter((child) => objectRegistry.nameOf(child) !== null)
+        .map((child) => child.toJSON()),
+    };
+  }
+
+  /**
+   * Restores a saved state of the game object and its children.
+   * Children its constructor already built are restored in place, others are
+   * created from the registry. The dimensions are set by the constructor.
+   * Subclasses with state of their own restore it after calling `super.fromJSON`.
+   * @param {GameObjectData} data - The state.
+   * @param {GameEngine} engine - The engine it's loaded into.
+   * @throws {Error} If the type of a saved child isn't registered.
+   */
+  fromJSON(data: GameObjectData, engine: GameEngine) {
+    this.position.reset(data.position[0], data.position[1]);
+    this.anchorPoint = data.anchorPoint;
+    this.rotation = data.rotation;
+    this.scale.reset(data.scale[0], data.scale[1]);
+    [...this.tags]
+      .filter((tag) => !data.tags.includes(tag))
+      .forEach((tag) => this.removeTag(tag));
+    data.tags.forEach((tag) => this.addTag(tag));
+    this.layer = data.layer;
+    this.zIndex = data.zIndex;
+    this.isStatic = data.isStatic;
+    this.collisionLayer = data.collisionLayer;
+    this.collisionMask = data.collisionMask;
+    if (this.body && data.body) this.body.fromJSON(data.body);
+
+    data.children.forEach((childData) => {
+      const child = this.children.find((c) => c.id === childData.id);
+      if (child) child.fromJSON(childData, engine);
+      else this.addChild(objectRegistry.create(childData, engine));
+    });
+    this.savePreviousState();
+    this.needsRedraw = true;
+  }
+
+  /**
+   * Adds the fields worth tuning while the game runs to the debug inspector, as live bindings.
+   * Subclasses add their own fields after calling `super.inspect`.
+   * @param {FolderApi} folder - The inspector folder of the object.
+   */
+  inspect(folder: FolderApi) {
+    folder.addBinding(this, "position");
+    folder
+      .addBinding(this, "dims")
+      .on("change", () => (this.needsRedraw = true));
+    folder.addBinding(this, "rotation", { min: -Math.PI, max: Math.PI });
+    folder.addBinding(this, "scale");
+    folder.addBinding(this, "isStatic");
+  }
+
+  /**
+   * Called by the engine after the object has been added to it.
+   * This is the place to subscribe to engine events.
+   * @param {GameEngine} engine - The game engine instance.
+   */
+  onAdded(_engine: GameEngine) {
+    // Do nothing, this can be overridden;
+  }
+
+  /**
+   * Called by the engine after the object has been removed from it.
+   * @param {GameEngine} engine - The game engine instance.
+   */
+  onRemoved(_engine: GameEngine) {
+    // Do nothing, this can be overridden;
+  }
+
+  /**
+   * Subscribes to an engine event for as long as the object is in the engine.
+   * The subscription is removed automatically when the object is removed.
+   * @param {K} name - The name of the event.
+   * @param {EventHandler} handler - The function called with the event payload.
+   * @returns {() => void} A function that removes the subscription early.
+   */
+  subscribe<K extends keyof EngineEvents>(
+    name: K,
+    handler: EventHandler<EngineEvents[K]>
+  ): () => void {
+    if (!this.engine)
+      throw new Error(
+        `GameObject ${this.id} must be added to an engine before subscribing to events.`
+      );
+    const unsubscribe = this.engine.events.on(name, handler);
+    this.#subscriptions.push(unsubscribe);
+    return unsubscribe;
+  }
+
+  /**
+   * Removes every engine event subscription made through `subscribe`.
+   */
+  unsubscribeAll() {
+    this.#subscriptions.forEach((unsubscribe) => unsubscribe());
+    this.#subscriptions = [];
+  }
+
   /**
    * Determines if the object is currently renderable.
-   * This can be used for culling objects that are off-screen.
+   * Objects outside of the engine camera's view of their render layer are culled.
    * @returns {boolean} True if the object should be rendered, false otherwise.
    */
   get renderable(): boolean {
-    return true;
+    if (!this.engine) return true;
+    const { camera, layers } = this.engine;
+    return camera.viewOf(layers.of(this)).intersects(this.bounds);
+  }
+
+  /**
+   * Gets the area the object and its descendants draw to, in the coordinates of
+   * its render layer. Objects that draw outside their bounds in `render` override it.
+   * @returns {Rectangle | null} The area, or null if they may draw anywhere.
+   */
+  get renderBounds(): Rectangle | null {
+    let area = this.bounds;
+    for (const child of this.children) {
+      const childArea = child.renderBounds;
+      if (!childArea) return null;
+      area = area.union(childArea);
+    }
+    return area;
+  }
+
+  /**
+   * Gets the center of the object in its parent's space.
+   * This is the point the object rotates and scales around, and the origin for its children.
+   * @returns {Vec2} The local center.
+   */
+  get localCenter(): Vec2 {
+    return this.anchorPoint === AnchorPoint.CENTER
+      ? this.position.clone()
+      : this.position.addNew(this.dims.scaleNew(0.5));
+  }
+
+  /**
+   * Gets the rotation and scale of the object relative to its parent.
+   * @returns {Mat2} The local linear transform.
+   */
+  get localMatrix(): Mat2 {
+    return Mat2.fromAngle(-this.rotation).scaleByVec2New(this.scale);
+  }
+
+  /**
+   * Gets the rotation and scale of the object in world space, composed through its ancestors.
+   * @returns {Mat2} The world linear transform.
+   */
+  get worldMatrix(): Mat2 {
+    return this.parent
+      ? this.parent.worldMatrix.multiplyNew(this.localMatrix)
+      : this.localMatrix;
+  }
+
+  /**
+   * Gets the center of the object in world space.
+   * @returns {Vec2} The world center.
+   */
+  get worldCenter(): Vec2 {
+    return this.parent
+      ? this.parent.localToWorld(this.localCenter)
+      : this.localCenter;
+  }
+
+  /**
+   * Gets the position of the object in world space.
+   * @returns {Vec2} The world position.
+   */
+  get worldPosition(): Vec2 {
+    return this.parent
+      ? this.parent.localToWorld(this.position)
+      : this.position.clone();
+  }
+
+  /**
+   * Gets the rotation of the object in world space.
+   * @returns {number} The world rotation in radians.
+   */
+  get worldRotation(): number {
+    return this.parent
+      ? this.parent.worldRotation + this.rotation
+      : this.rotation;
+  }
+
+  /**
+   * Gets the scale of the object in world space.
+   * @returns {Vec2} The world scale.
+   */
+  get worldScale(): Vec2 {
+    return this.parent
+      ? this.parent.worldScale.multiply(this.scale)
+      : this.scale.clone();
+  }
+
+  /**
+   * Converts a point relative to this object's center into world space.
+   * @param {Vec2} point - The point in the object's local space.
+   * @returns {Vec2} The point in world space.
+   */
+  localToWorld(point: Vec2): Vec2 {
+    return point.transformByMat2New(this.worldMatrix).add(this.worldCenter);
+  }
+
+  /**
+   * Converts a point in world space into this object's local space, relative to its center.
+   * @param {Vec2} point - The point in world space.
+   * @returns {Vec2} The point in the object's local space.
+   */
+  worldToLocal(point: Vec2): Vec2 {
+    // Mat2.invert relies on a faulty determinant, so invert through the adjoint
+    const matrix = this.worldMatrix;
+    const [a, b, c, d] = matrix.array;
+    const inverse = matrix.adjoint().multiplyScalar(1 / (a * d - b * c));
+    return point.subtractNew(this.worldCenter).transformByMat2(inverse);
   }
 
   #needsRedraw = true;
@@ -191,6 +796,90 @@ export class GameObject implements IGameObject {
     return this.#needsRedraw;
   }
 
+  #id: string;
+  /**
+   * Unique identifier. Changing it keeps the engine's lookups up to date.
+   * @param {string} id - The new id.
+   * @throws {Error} If another object in its scene already has the id.
+   */
+  get id(): string {
+    return this.#id;
+  }
+  set id(id) {
+    if (id === this.#id) return;
+    this.scene?.index.reid(this, this.#id, id);
+    this.#id = id;
+  }
+
+  #tags: Set<string>;
+  /**
+   * Gets the tags used to find the game object.
+   * Use addTag and removeTag to change them so the engine's lookups stay up to date.
+   * @returns {ReadonlySet<string>} The tags.
+   */
+  get tags(): ReadonlySet<string> {
+    return this.#tags;
+  }
+
+  /**
+   * Adds a tag to the game object.
+   * @param {string} tag - The tag to add.
+   */
+  addTag(tag: string) {
+    if (this.#tags.has(tag)) return;
+    this.#tags.add(tag);
+    this.scene?.index.retag(this, tag, true);
+  }
+
+  /**
+   * Removes a tag from the game object.
+   * @param {string} tag - The tag to remove.
+   */
+  removeTag(tag: string) {
+    if (!this.#tags.delete(tag)) return;
+    this.scene?.index.retag(this, tag, false);
+  }
+
+  /**
+   * Checks if the game object has a tag.
+   * @param {string} tag - The tag to check.
+   * @returns {boolean} True if the object has the tag.
+   */
+  hasTag(tag: string): boolean {
+    return this.#tags.has(tag);
+  }
+
+  #layer: string;
+  /**
+   * Layer name. Children are drawn in their root's layer, whatever theirs is.
+   * @param {string} layer - The name of the render layer the game object is drawn in.
+   */
+  get layer(): string {
+    return this.#layer;
+  }
+  set layer(layer) {
+    if (layer === this.#layer) return;
+    const previous = this.#layer;
+    this.#layer = layer;
+    this.scene?.index.relayer(this, previous, layer);
+    this.#invalidateDrawOrder();
+  }
+
+  #zIndex: number;
+  /**
+   * Draw order. Objects with a higher zIndex are drawn over those with a lower one,
+   * and objects with the same zIndex in the order they were added.
+   * @param {number} zIndex - The order among the roots of its layer, or its siblings.
+   */
+  get zIndex(): number {
+    return this.#zIndex;
+  }
+  set zIndex(zIndex) {
+    if (zIndex === this.#zIndex) return;
+    this.#zIndex = zIndex;
+    this.#invalidateDrawOrder();
+  }
+
   #rotation: number = 0;
   /**
    * Sprite rotation.
@@ -204,14 +893,30 @@ export class GameObject implements IGameObject {
   }
 
   /**
-   * Gets the bounding rectangle of the game object.
+   * Gets the world space bounding rectangle of the game object.
+   * Rotated or scaled objects get the box enclosing their transformed corners.
    * @returns {Rectangle} The bounding rectangle of the game object
    */
   get bounds(): Rectangle {
-    const pos =
-      this.anchorPoint === AnchorPoint.CENTER
-        ? this.position.subtractNew(this.dims.scaleNew(0.5))
-        : this.position;
-    return Rectangle.fromPositionAndDimensions(pos, this.dims);
+    const half = this.dims.scaleNew(0.5);
+    const matrix = this.worldMatrix;
+    const center = this.worldCenter;
+    const corners = [
+      new Vec2(-half.x, -half.y),
+      new Vec2(half.x, -half.y),
+      new Vec2(-half.x, half.y),
+      new Vec2(half.x, half.y),
+    ].map((corner) => corner.transformByMat2(matrix).add(center));
+
+    const xs = corners.map((c) => c.x);
+    const ys = corners.map((c) => c.y);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    return new Rectangle(
+      minX,
+      minY,
+      Math.max(...xs) - minX,
+      Math.max(...ys) - minY
+    );
   }
 }
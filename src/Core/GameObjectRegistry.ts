@@ -0,0 +1,174 @@
+import type { GameEngine } from "./GameEngine";
+import {
+  isGameObjectData,
+  type GameObject,
+  type GameObjectData,
+} from "./GameObject";
+import type { GameObjectType } from "./ObjectIndex";
+
+/**
+ * Creates a game object from its saved data, passing what its constructor needs.
+ * The rest of the data is applied afterwards with `fromJSON`.
+ */
+export type GameObjectFactory<
+  T extends GameObject = GameObject,
+  D extends GameObjectData = GameObjectData
+> = (data: D, engine: GameEngine) => T;
+
+/**
+ * Checks that saved data has the fields a class of game object saves on top of
+ * the common ones, which are checked by the registry.
+ */
+export type GameObjectDataGuard<D extends GameObjectData = GameObjectData> = (
+  data: GameObjectData
+) => data is D;
+
+/**
+ * A registered type of game object.
+ */
+type RegisteredType = {
+  /** The class of the objects. */
+  type: GameObjectType<GameObject>;
+  /** Checks the data of the objects. */
+  isData: (data: GameObjectData) => boolean;
+  /**
+   * Creates the objects from their data, checking it first.
+   * @throws {Error} If the data isn't valid for the class.
+   */
+  create: (data: GameObjectData, engine: GameEngine) => GameObject;
+};
+
+/**
+ * Maps the names game objects are saved under to their classes and factories,
+ * so saved scenes can be loaded again.
+ *
+ * Classes register themselves in their own module with the shared `objectRegistry`.
+ * Only objects of registered classes are saved: short-lived objects such as
+ * projectiles and particle effects are left out, and children built by their
+ * parent's constructor are built again when the parent is loaded.
+ *
+ * Saved data is checked before anything is created from it, so a save that was
+ * edited or corrupted fails to load rather than leaving objects half restored.
+ *
+ * @example
+ * objectRegistry.register(
+ *   "Crate",
+ *   Crate,
+ *   (data, engine) =>
+ *     new Crate({ id: data.id, position: new Vec2(...data.position), dpr: engine.dpr }),
+ *   isGameObjectData
+ * );
+ */
+export class GameObjectRegistry {
+  /**
+   * The registered types, by name.
+   * @private
+   */
+  #byName: Map<string, RegisteredType> = new Map();
+
+  /**
+   * The names of the registered classes.
+   * @private
+   */
+  #names: Map<GameObjectType<GameObject>, string> = new Map();
+
+  /**
+   * Registers a class of game object under a name. Registering a name again
+   * replaces it, such as when a module is reloaded during development.
+   * @param {string} name - The name the objects are saved under. It must never change, or old saves won't load.
+   * @param {GameObjectType<T>} type - The class. Subclasses must be registered separately.
+   * @param {GameObjectFactory<T, D>} factory - Creates the objects from their data.
+   * @param {GameObjectDataGuard<D>} isData - Checks the fields the class saves on top of
+   * the common ones. Classes that save nothing more pass `isGameObjectData`.
+   */
+  register<T extends GameObject, D extends GameObjectData>(
+    name: string,
+    type: GameObjectType<T>,
+    factory: GameObjectFactory<T, D>,
+    isData: GameObjectDataGuard<D>
+  ) {
+    const previous = this.#byName.get(name);
+    if (previous) this.#names.delete(previous.type);
+    this.#byName.set(name, {
+      type,
+      isData,
+      create: (data, engine) => {
+        if (!isData(data)) throw invalidData(data);
+        return factory(data, engine);
+      },
+    });
+    this.#names.set(type, name);
+  }
+
+  /**
+   * Checks if a name is registered.
+   * @param {string} name - The name.
+   * @returns {boolean} True if objects saved under the name can be loaded.
+   */
+  has(name: string): boolean {
+    return this.#byName.has(name);
+  }
+
+  /**
+   * Gets the name a game object is saved under.
+   * @param {GameObject} obj - The game object.
+   * @returns {string | null} The name its class is registered under, or null if it isn't.
+   */
+  nameOf(obj: GameObject): string | null {
+    return (
+      this.#names.get(obj.constructor as GameObjectType<GameObject>) ?? null
+    );
+  }
+
+  /**
+   * Creates a game object, and its saved children, from its data.
+   * The data of the object and its children is checked before anything is created.
+   * @param {GameObjectData} data - The saved data.
+   * @param {GameEngine} engine - The engine it's loaded into.
+   * @returns {GameObject} The game object, not yet added to the engine.
+   * @throws {Error} If its type, or the type of one of its children, isn't registered,
+   * or their data isn't valid for their class.
+   */
+  create(data: GameObjectData, engine: GameEngine): GameObject {
+    this.#check(data);
+    const obj = this.#registered(data.type).create(data, engine);
+    obj.fromJSON(data, engine);
+    return obj;
+  }
+
+  /**
+   * Gets a registered type, failing if it isn't registered.
+   */
+  #registered(name: string): RegisteredType {
+    const registered = this.#byName.get(name);
+    if (!registered)
+      throw new Error(`The GameObject type "${name}" isn't registered.`);
+    return registered;
+  }
+
+  /**
+   * Checks the data of an object and of its children against their classes.
+   */
+  #check(data: unknown) {
+    if (!isGameObjectData(data)) throw invalidData(data);
+    if (!this.#registered(data.type).isData(data)) throw invalidData(data);
+    data.children.forEach((child) => this.#check(child));
+  }
+}
+
+/**
+ * Creates the error for saved data that isn't valid.
+ * @param data The data.
+ * @returns The error, naming the object if the data has an id.
+ */
+function invalidData(data: unknown): Error {
+  const { id, type } = (data ?? {}) as { id?: unknown; type?: unknown };
+  return new Error(
+    typeof id === "string"
+      ? `The saved data of the GameObject "${id}" isn't valid ${type} data.`
+      : "Invalid GameObject data."
+  );
+}
+
+/** The registry the game's classes register themselves with, and saved scenes are loaded from. */
+export const objectRegistry = new GameObjectRegistry();
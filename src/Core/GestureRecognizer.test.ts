@@ -0,0 +1,120 @@
+import { Vec2 } from "wtc-math";
+import { describe, expect, it } from "vitest";
+
+import { GestureRecognizer, type Gesture } from "./GestureRecognizer";
+
+const createRecognizer = () => {
+  const recognizer = new GestureRecognizer();
+  const gestures: Gesture[] = [];
+  recognizer.addListener((gesture) => gestures.push(gesture));
+  return { recognizer, gestures };
+};
+
+const phases = (gestures: Gesture[]) =>
+  gestures.map((gesture) =>
+    gesture.type === "tap" ? "tap" : `${gesture.type} ${gesture.phase}`
+  );
+
+describe("GestureRecognizer", () => {
+  it("recognizes a quick press and release as a tap", () => {
+    const { recognizer, gestures } = createRecognizer();
+
+    recognizer.pointerDown(1, new Vec2(10, 20), 0);
+    recognizer.pointerMove(1, new Vec2(15, 20));
+    recognizer.pointerUp(1, 100);
+
+    expect(phases(gestures)).toEqual(["tap"]);
+    expect(gestures[0].type === "tap" && gestures[0].position).toEqual(
+      new Vec2(15, 20)
+    );
+  });
+
+  it("doesn't tap after a long press", () => {
+    const { recognizer, gestures } = createRecognizer();
+
+    recognizer.pointerDown(1, new Vec2(10, 20), 0);
+    recognizer.pointerUp(1, 251);
+
+    expect(gestures).toEqual([]);
+  });
+
+  it("starts a drag once the pointer moves past the threshold", () => {
+    const { recognizer, gestures } = createRecognizer();
+
+    recognizer.pointerDown(1, new Vec2(0, 0), 0);
+    recognizer.pointerMove(1, new Vec2(9, 0));
+    expect(gestures).toEqual([]);
+
+    recognizer.pointerMove(1, new Vec2(12, 0));
+    recognizer.pointerMove(1, new Vec2(12, 5));
+    recognizer.pointerUp(1, 100);
+
+    expect(phases(gestures)).toEqual(["drag start", "drag move", "drag end"]);
+    const [start, move] = gestures;
+    expect(start.type === "drag" && start.delta).toEqual(new Vec2(12, 0));
+    expect(move.type === "drag" && move.delta).toEqual(new Vec2(0, 5));
+  });
+
+  it("ends a drag and starts a pinch when a second pointer goes down", () => {
+    const { recognizer, gestures } = createRecognizer();
+
+    recognizer.pointerDown(1, new Vec2(0, 0), 0);
+    recognizer.pointerMove(1, new Vec2(20, 0));
+    recognizer.pointerDown(2, new Vec2(120, 0), 50);
+    recognizer.pointerMove(2, new Vec2(220, 0));
+    recognizer.pointerUp(2, 100);
+    recognizer.pointerUp(1, 100);
+
+    expect(phases(gestures)).toEqual([
+      "drag start",
+      "drag end",
+      "pinch start",
+      "pinch move",
+      "pinch end",
+    ]);
+    const move = gestures[3];
+    expect(move.type === "pinch" && move.scale).toBeCloseTo(2);
+    expect(move.type === "pinch" && move.center).toEqual(new Vec2(120, 0));
+  });
+
+  it("keeps the pinch going when a third finger takes over", () => {
+    const { recognizer, gestures } = createRecognizer();
+
+    recognizer.pointerDown(1, new Vec2(0, 0), 0);
+    recognizer.pointerDown(2, new Vec2(100, 0), 0);
+    recognizer.pointerMove(2, new Vec2(200, 0));
+    // A third finger doesn't change the pinch
+    recognizer.pointerDown(3, new Vec2(200, 300), 0);
+    recognizer.pointerUp(1, 10);
+    recognizer.pointerMove(3, new Vec2(200, 600));
+    recognizer.pointerUp(2, 10);
+    recognizer.pointerUp(3, 10);
+
+    expect(phases(gestures)).toEqual([
+      "pinch start",
+      "pinch move",
+      "pinch move",
+      "pinch end",
+    ]);
+    const scales = gestures.map(
+      (gesture) => gesture.type === "pinch" && gesture.scale
+    );
+    // The scale carries on from 2 rather than jumping when the first finger lifts
+    expect(scales[1]).toBeCloseTo(2);
+    expect(scales[2]).toBeCloseTo(4);
+    expect(scales[3]).toBeCloseTo(4);
+  });
+
+  it("doesn't tap after a pinch or a cancelled pointer", () => {
+    const { recognizer, gestures } = createRecognizer();
+
+    recognizer.pointerDown(1, new Vec2(0, 0), 0);
+    recognizer.pointerDown(2, new Vec2(100, 0), 0);
+    recognizer.pointerUp(2, 10);
+    recognizer.pointerUp(1, 10);
+    recognizer.pointerDown(3, new Vec2(0, 0), 20);
+    recognizer.pointerCancel(3);
+
+    expect(phases(gestures)).toEqual(["pinch start", "pinch end"]);
+  });
+});
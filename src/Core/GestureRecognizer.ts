@@ -0,0 +1,332 @@
+import { Vec2 } from "wtc-math";
+
+/**
+ * The phase of a continuous gesture.
+ */
+export type GesturePhase = "start" | "move" | "end";
+
+/**
+ * A recognized gesture. Positions are in the engine's logical screen space.
+ */
+export type Gesture =
+  | {
+      /** A quick press and release without moving. */
+      type: "tap";
+      /** Where the pointer was released. */
+      position: Vec2;
+    }
+  | {
+      /** A single pointer moving while pressed. */
+      type: "drag";
+      phase: GesturePhase;
+      /** The current position of the pointer. */
+      position: Vec2;
+      /** How far the pointer moved since the last drag event. */
+      delta: Vec2;
+    }
+  | {
+      /** Two pointers moving towards or away from each other. */
+      type: "pinch";
+      phase: GesturePhase;
+      /** The midpoint between the two pointers. */
+      center: Vec2;
+      /** The distance between the pointers relative to when the pinch started. */
+      scale: number;
+    };
+
+/**
+ * A callback for a recognized gesture.
+ */
+export type GestureListener = (gesture: Gesture) => void;
+
+/**
+ * A gesture with its vectors as `[x, y]` pairs, so it can be saved as JSON.
+ */
+export type SerializedGesture = Gesture extends infer G
+  ? G extends Gesture
+    ? { [K in keyof G]: G[K] extends Vec2 ? [number, number] : G[K] }
+    : never
+  : never;
+
+/**
+ * Converts a gesture into a form that can be saved as JSON.
+ * @param gesture The gesture.
+ * @returns The gesture with its vectors as `[x, y]` pairs.
+ */
+export function serializeGesture(gesture: Gesture): SerializedGesture {
+  return Object.fromEntries(
+    Object.entries(gesture).map(([key, value]) => [
+      key,
+      value instanceof Vec2 ? [value.x, value.y] : value,
+    ])
+  ) as SerializedGesture;
+}
+
+/**
+ * Converts a gesture saved with `serializeGesture` back.
+ * @param gesture The serialized gesture.
+ * @returns The gesture with its vectors restored.
+ */
+export function deserializeGesture(gesture: SerializedGesture): Gesture {
+  return Object.fromEntries(
+    Object.entries(gesture).map(([key, value]) => [
+      key,
+      Array.isArray(value) ? new Vec2(value[0], value[1]) : value,
+    ])
+  ) as Gesture;
+}
+
+/**
+ * The state of a pointer held down, as tracked by the recognizer.
+ */
+type TrackedPointer = {
+  /** Where the pointer went down. */
+  start: Vec2;
+  /** The current position of the pointer. */
+  position: Vec2;
+  /** When the pointer went down, in milliseconds. */
+  startTime: number;
+};
+
+/**
+ * Recognizes taps, drags and pinches from pointers going down, moving and going up.
+ * Fed by the InputManager, which maps pointer events into logical coordinates.
+ *
+ * A single pointer becomes a drag once it moves past `dragThreshold`, otherwise
+ * releasing it quickly is a tap. A second pointer ends any drag and starts a pinch.
+ */
+export class GestureRecognizer {
+  /** How far a pointer must move before it's a drag rather than a tap, in logical pixels. */
+  dragThreshold: number = 10;
+  /** The longest a press can last to count as a tap, in milliseconds. */
+  tapDuration: number = 250;
+
+  /**
+   * The pointers held down, by pointer id.
+   * @private
+   */
+  #pointers: Map<number, TrackedPointer> = new Map();
+
+  /**
+   * The listeners for gestures.
+   * @private
+   */
+  #listeners: Set<GestureListener> = new Set();
+
+  /**
+   * Whether a drag is in progress.
+   * @private
+   */
+  #dragging: boolean = false;
+
+  /**
+   * The distance between the two pointers when the current pinch started, if pinching.
+   * @private
+   */
+  #pinchDistance: number | null = null;
+
+  /**
+   * Whether the current press can still be a tap. Cleared once it drags or pinches.
+   * @private
+   */
+  #canTap: boolean = false;
+
+  /**
+   * Adds a callback for recognized gestures.
+   * @param {GestureListener} callback - Called with each gesture.
+   */
+  addListener(callback: GestureListener) {
+    this.#listeners.add(callback);
+  }
+
+  /**
+   * Removes a callback added with `addListener`.
+   * @param {GestureListener} callback - The callback to remove.
+   */
+  removeListener(callback: GestureListener) {
+    this.#listeners.delete(callback);
+  }
+
+  /**
+   * Handles a pointer going down.
+   * @param {number} id - The pointer id.
+   * @param {Vec2} position - The position in logical coordinates.
+   * @param {number} time - The time of the event in milliseconds.
+   */
+  pointerDown(id: number, position: Vec2, time: number) {
+    this.#pointers.set(id, {
+      start: position.clone(),
+      position: position.clone(),
+      startTime: time,
+    });
+
+    if (this.#pointers.size === 1) {
+      this.#canTap = true;
+      return;
+    }
+    this.#canTap = false;
+    if (this.#dragging) this.#endDrag();
+    if (this.#pointers.size === 2) {
+      const [a, b] = this.#pinchPointers();
+      this.#pinchDistance = Math.max(1, a.position.distance(b.position));
+      this.#emit({
+        type: "pinch",
+        phase: "start",
+        center: this.#pinchCenter(),
+        scale: 1,
+      });
+    }
+  }
+
+  /**
+   * Handles a pointer moving. Pointers that aren't down, or that didn't move, are ignored.
+   * @param {number} id - The pointer id.
+   * @param {Vec2} position - The position in logical coordinates.
+   */
+  pointerMove(id: number, position: Vec2) {
+    const pointer = this.#pointers.get(id);
+    if (!pointer) return;
+    const delta = position.subtractNew(pointer.position);
+    if (delta.x === 0 && delta.y === 0) return;
+    pointer.position.resetToVector(position);
+
+    if (this.#pinchDistance !== null) {
+      this.#emit({
+        type: "pinch",
+        phase: "move",
+        center: this.#pinchCenter(),
+        scale: this.#pinchScale(),
+      });
+      return;
+    }
+    if (this.#pointers.size !== 1) return;
+
+    if (!this.#dragging) {
+      if (position.distance(pointer.start) < this.dragThreshold) return;
+      this.#dragging = true;
+      this.#canTap = false;
+      this.#emit({
+        type: "drag",
+        phase: "start",
+        position: position.clone(),
+        delta: position.subtractNew(pointer.start),
+      });
+      return;
+    }
+    this.#emit({
+      type: "drag",
+      phase: "move",
+      position: position.clone(),
+      delta,
+    });
+  }
+
+  /**
+   * Handles a pointer going up.
+   * @param {number} id - The pointer id.
+   * @param {number} time - The time of the event in milliseconds.
+   */
+  pointerUp(id: number, time: number) {
+    const pointer = this.#pointers.get(id);
+    if (!pointer) return;
+
+    const pinching = this.#pinchDistance !== null;
+    const scale = pinching ? this.#pinchScale() : 1;
+    const pinchPointer = this.#pinchPointers().includes(pointer);
+    if (pinching && this.#pointers.size === 2) {
+      this.#emit({
+        type: "pinch",
+        phase: "end",
+        center: this.#pinchCenter(),
+        scale,
+      });
+      this.#pinchDistance = null;
+    }
+    this.#pointers.delete(id);
+
+    // Another pointer takes over the pinch, so its start distance is reset to keep the scale
+    if (pinching && this.#pointers.size >= 2 && pinchPointer) {
+      const [a, b] = this.#pinchPointers();
+      this.#pinchDistance =
+        Math.max(1, a.position.distance(b.position)) / scale;
+    }
+
+    if (this.#dragging) {
+      this.#endDrag(pointer.position);
+    } else if (
+      this.#canTap &&
+      this.#pointers.size === 0 &&
+      time - pointer.startTime <= this.tapDuration
+    ) {
+      this.#emit({ type: "tap", position: pointer.position.clone() });
+    }
+    if (this.#pointers.size === 0) this.#canTap = false;
+  }
+
+  /**
+   * Handles a pointer being cancelled, such as by the browser taking over the touch.
+   * Ends any gesture it was part of without a tap.
+   * @param {number} id - The pointer id.
+   */
+  pointerCancel(id: number) {
+    this.#canTap = false;
+    this.pointerUp(id, Infinity);
+  }
+
+  /**
+   * Forgets every pointer and listener.
+   */
+  clear() {
+    this.#pointers.clear();
+    this.#listeners.clear();
+    this.#dragging = false;
+    this.#pinchDistance = null;
+    this.#canTap = false;
+  }
+
+  /**
+   * Ends the current drag.
+   */
+  #endDrag(position?: Vec2) {
+    this.#dragging = false;
+    const end =
+      position ?? [...this.#pointers.values()][0]?.position ?? new Vec2(0, 0);
+    this.#emit({
+      type: "drag",
+      phase: "end",
+      position: end.clone(),
+      delta: new Vec2(0, 0),
+    });
+  }
+
+  /**
+   * Gets the two pointers of a pinch: the first two held down.
+   */
+  #pinchPointers(): [TrackedPointer, TrackedPointer] {
+    const [a, b] = [...this.#pointers.values()];
+    return [a, b];
+  }
+
+  /**
+   * Gets the midpoint between the pinching pointers.
+   */
+  #pinchCenter(): Vec2 {
+    const [a, b] = this.#pinchPointers();
+    return Vec2.lerp(a.position, b.position, 0.5);
+  }
+
+  /**
+   * Gets the distance between the pinching pointers relative to the start of the pinch.
+   */
+  #pinchScale(): number {
+    const [a, b] = this.#pinchPointers();
+    return a.position.distance(b.position) / (this.#pinchDistance ?? 1);
+  }
+
+  /**
+   * Calls every listener with a gesture.
+   */
+  #emit(gesture: Gesture) {
+    [...this.#listeners].forEach((listener) => listener(gesture));
+  }
+}
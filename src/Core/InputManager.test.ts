@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+
+import { InputManager, type GamepadLike } from "./InputManager";
+
+const keyEvent = (key: string, code: string) =>
+  ({ key, code, preventDefault() {} } as KeyboardEvent);
+
+const createInput = () => {
+  const input = new InputManager(null);
+  input.bindAction("fire", [{ type: "code", code: "Space" }]);
+  const press = () => input.onKeyDown(keyEvent(" ", "Space"));
+  const release = () => input.onKeyUp(keyEvent(" ", "Space"));
+  return { input, press, release };
+};
+
+const pad = (
+  axes: number[],
+  buttons: number[],
+  index: number = 0
+): GamepadLike => ({
+  index,
+  id: "Test pad",
+  connected: true,
+  axes,
+  buttons: buttons.map((value) => ({ value, pressed: value > 0.5 })),
+});
+
+const createGamepadInput = () => {
+  const input = new InputManager(null);
+  let gamepads: (GamepadLike | null)[] = [];
+  input.gamepadSource = () => gamepads;
+  const poll = (...next: (GamepadLike | null)[]) => {
+    gamepads = next;
+    input.pollGamepads();
+  };
+  return { input, poll };
+};
+
+describe("InputManager actions", () => {
+  it("reports presses and releases for one tick only", () => {
+    const { input, press, release } = createInput();
+
+    input.snapshot();
+    expect(input.isActionDown("fire")).toBe(false);
+
+    press();
+    input.snapshot();
+    expect(input.isActionDown("fire")).toBe(true);
+    expect(input.wasPressed("fire")).toBe(true);
+
+    input.snapshot();
+    expect(input.isActionDown("fire")).toBe(true);
+    expect(input.wasPressed("fire")).toBe(false);
+
+    release();
+    input.snapshot();
+    expect(input.isActionDown("fire")).toBe(false);
+    expect(input.wasReleased("fire")).toBe(true);
+
+    input.snapshot();
+    expect(input.wasReleased("fire")).toBe(false);
+  });
+
+  it("counts a press shorter than a tick", () => {
+    const { input, press, release } = createInput();
+
+    input.snapshot();
+    press();
+    release();
+    input.snapshot();
+    expect(input.wasPressed("fire")).toBe(true);
+
+    input.snapshot();
+    expect(input.wasReleased("fire")).toBe(true);
+    expect(input.isActionDown("fire")).toBe(false);
+  });
+
+  it("doesn't count key repeats as new presses", () => {
+    const { input, press } = createInput();
+
+    press();
+    input.snapshot();
+    press();
+    input.snapshot();
+    expect(input.isActionDown("fire")).toBe(true);
+    expect(input.wasPressed("fire")).toBe(false);
+  });
+
+  it("uses the new bindings after rebinding an action", () => {
+    const { input, press } = createInput();
+
+    input.bindAction("fire", [{ type: "key", key: "f" }]);
+    press();
+    input.snapshot();
+    expect(input.isActionDown("fire")).toBe(false);
+
+    input.onKeyDown(keyEvent("F", "KeyF"));
+    input.snapshot();
+    expect(input.wasPressed("fire")).toBe(true);
+  });
+
+  it("replaces every binding when loading saved ones", () => {
+    const { input } = createInput();
+    input.bindAction("jump", [{ type: "code", code: "ArrowUp" }]);
+
+    input.loadBindings(
+      JSON.stringify({ fire: [{ type: "mouse", button: 0 }] })
+    );
+
+    expect(input.toJSON()).toEqual({ fire: [{ type: "mouse", button: 0 }] });
+    expect(() =>
+      input.loadBindings({ fire: [{ type: "nope" }] } as any)
+    ).toThrow('Invalid bindings for the action "fire".');
+    expect(input.getBindings("fire")).toEqual([{ type: "mouse", button: 0 }]);
+  });
+
+  it("keeps the live keys apart from a replayed frame", () => {
+    const { input, press } = createInput();
+    press();
+    const frame = input.snapshot();
+    input.onKeyUp(keyEvent(" ", "Space"));
+    input.onKeyDown(keyEvent("a", "KeyA"));
+
+    input.snapshot(frame);
+    expect(input.isCodeDown("Space")).toBe(true);
+    expect(input.isCodeDown("KeyA")).toBe(false);
+
+    input.snapshot();
+    expect(input.isCodeDown("Space")).toBe(false);
+    expect(input.isCodeDown("KeyA")).toBe(true);
+  });
+
+  it("captures the next press as a binding", async () => {
+    const { input } = createInput();
+
+    const binding = input.captureBinding();
+    input.onKeyDown(keyEvent("a", "KeyA"));
+
+    expect(await binding).toEqual({ type: "code", code: "KeyA" });
+  });
+});
+
+describe("InputManager gamepads", () => {
+  it("applies the stick deadzone to each axis", () => {
+    const { input, poll } = createGamepadInput();
+
+    poll(pad([0.1, -0.6, 0, 0], []));
+
+    expect(input.getGamepadAxis(0)).toBe(0);
+    expect(input.getGamepadAxis(1)).toBeCloseTo(-0.5);
+  });
+
+  it("applies a radial deadzone to the sticks", () => {
+    const { input, poll } = createGamepadInput();
+
+    poll(pad([0.1, 0.1, 0.6, 0.8], []));
+
+    expect(input.getStick("left").length).toBe(0);
+    const right = input.getStick("right");
+    expect(right.length).toBeCloseTo(1);
+    expect(right.y / right.x).toBeCloseTo(0.8 / 0.6);
+  });
+
+  it("applies the trigger deadzone to button values", () => {
+    const { input, poll } = createGamepadInput();
+
+    poll(pad([], [0.05, 0, 0, 0, 0, 0, 0, 0.55]));
+
+    expect(input.getGamepadButtonValue(0)).toBe(0);
+    expect(input.getGamepadButtonValue(7)).toBeCloseTo(0.5);
+  });
+
+  it("reports button edges for one poll only", () => {
+    const { input, poll } = createGamepadInput();
+
+    poll(pad([], [0]));
+    expect(input.wasGamepadButtonPressed(0)).toBe(false);
+
+    poll(pad([], [1]));
+    expect(input.isGamepadButtonDown(0)).toBe(true);
+    expect(input.wasGamepadButtonPressed(0)).toBe(true);
+
+    poll(pad([], [1]));
+    expect(input.wasGamepadButtonPressed(0)).toBe(false);
+
+    poll(pad([], [0]));
+    expect(input.isGamepadButtonDown(0)).toBe(false);
+    expect(input.wasGamepadButtonReleased(0)).toBe(true);
+
+    poll(pad([], [0]));
+    expect(input.wasGamepadButtonReleased(0)).toBe(false);
+  });
+
+  it("notifies listeners when gamepads connect and disconnect", () => {
+    const { input, poll } = createGamepadInput();
+    const events: [number, boolean][] = [];
+    input.addGamepadListener((index, connected) =>
+      events.push([index, connected])
+    );
+
+    poll(null, pad([], [], 1));
+    poll(null, pad([], [], 1));
+    poll();
+
+    expect(events).toEqual([
+      [1, true],
+      [1, false],
+    ]);
+  });
+});
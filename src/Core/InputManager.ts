@@ -1,17 +1,337 @@
 import { Vec2 } from "wtc-math";
+
+import type { Camera } from "./Camera";
+import {
+  GestureRecognizer,
+  deserializeGesture,
+  serializeGesture,
+  type Gesture,
+  type GestureListener,
+  type SerializedGesture,
+} from "./GestureRecognizer";
+
 /**
- * Manages keyboard and mouse input by tracking the state of keys and mouse events.
+ * An input that can trigger an action.
+ * `key` matches `KeyboardEvent.key`, ignoring case for single characters.
+ * `code` matches `KeyboardEvent.code`, the physical key, whatever the layout.
+ * Gamepad buttons and axes use the standard mapping, and match any connected
+ * gamepad unless `gamepad` is set. An axis is down when it's pushed past the
+ * deadzone in `direction`.
+ */
+export type InputBinding =
+  | { type: "key"; key: string }
+  | { type: "code"; code: string }
+  | { type: "mouse"; button: number }
+  | { type: "gamepadButton"; button: number; gamepad?: number }
+  | { type: "gamepadAxis"; axis: number; direction: 1 | -1; gamepad?: number };
+
+/**
+ * The state of a gamepad, copied when the gamepads are polled.
+ */
+export type GamepadState = {
+  /** The index of the gamepad, as in `navigator.getGamepads()`. */
+  index: number;
+  /** The name of the gamepad. */
+  id: string;
+  /** The raw axis values, from -1 to 1. */
+  axes: number[];
+  /** The button values, from 0 to 1. Triggers are analog. */
+  buttons: number[];
+  /** Whether each button is pressed. */
+  pressed: boolean[];
+};
+
+/**
+ * The parts of a Gamepad API gamepad that are polled.
+ */
+export type GamepadLike = Pick<Gamepad, "index" | "id" | "connected"> & {
+  axes: readonly number[];
+  buttons: readonly Pick<GamepadButton, "value" | "pressed">[];
+};
+
+/**
+ * Reads the connected gamepads, with null for empty slots, as `navigator.getGamepads()`.
+ */
+export type GamepadSource = () => readonly (GamepadLike | null)[];
+
+/**
+ * A callback for a gamepad connecting or disconnecting.
+ */
+export type GamepadListener = (index: number, connected: boolean) => void;
+
+/**
+ * A callback for a key or mouse button going down or up.
+ */
+export type PressListener = (pressed: boolean) => void;
+
+/**
+ * A callback for the mouse moving, with its position on the canvas.
+ */
+export type MouseMoveListener = (position: Vec2) => void;
+
+/**
+ * A pointer held down on the canvas: a mouse button, a pen or a finger.
+ */
+export type PointerState = {
+  /** The id of the pointer, as in `PointerEvent.pointerId`. */
+  id: number;
+  /** The kind of pointer: `mouse`, `pen` or `touch`. */
+  type: string;
+  /** Whether it's the primary pointer, which drives the mouse position and buttons. */
+  primary: boolean;
+  /** The position of the pointer in logical coordinates. */
+  position: Vec2;
+};
+
+/**
+ * The held input state: which keys, buttons and pointers are down, and where the mouse is.
+ */
+type HeldInput = {
+  keys: { [key: string]: boolean };
+  codes: { [code: string]: boolean };
+  mouseButtons: { [button: number]: boolean };
+  mousePosition: Vec2;
+  pointers: Map<number, PointerState>;
+  isDragging: boolean;
+};
+
+/**
+ * The raw input state for a tick, as taken by `snapshot`. Serializable to JSON,
+ * so a session can be recorded and fed back in tick by tick.
+ */
+export type InputFrame = {
+  /** The keys held down, normalized with `normalizeKey`. */
+  keys: string[];
+  /** The physical keys held down. */
+  codes: string[];
+  /** The mouse buttons held down. */
+  mouseButtons: number[];
+  /** The mouse position in logical coordinates. */
+  mouse: [number, number];
+  /** The pointers held down on the canvas, with their positions in logical coordinates. */
+  pointers: {
+    id: number;
+    type: string;
+    primary: boolean;
+    x: number;
+    y: number;
+  }[];
+  /** The connected gamepads. */
+  gamepads: GamepadState[];
+  /** The inputs pressed since the last snapshot, so presses shorter than a tick still count. */
+  pressed: InputBinding[];
+  /** The gestures recognized since the last snapshot. */
+  gestures: SerializedGesture[];
+};
+
+/**
+ * The bindings of each action, by action name. Serializable to JSON.
+ */
+export type ActionBindings = { [action: string]: InputBinding[] };
+
+/**
+ * Normalizes a key so that single characters match whatever the case,
+ * for example with Caps Lock or Shift held.
+ * @param key The key, as in `KeyboardEvent.key`.
+ * @returns The normalized key.
+ */
+function normalizeKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+/**
+ * Checks if a value is a valid input binding.
+ * @param value The value to check.
+ * @returns `true` if the value is an InputBinding.
+ */
+function isInputBinding(value: unknown): value is InputBinding {
+  if (typeof value !== "object" || value === null) return false;
+  const binding = value as Record<string, unknown>;
+  switch (binding.type) {
+    case "key":
+      return typeof binding.key === "string";
+    case "code":
+      return typeof binding.code === "string";
+    case "mouse":
+      return typeof binding.button === "number";
+    case "gamepadButton":
+      return (
+        typeof binding.button === "number" &&
+        (binding.gamepad === undefined || typeof binding.gamepad === "number")
+      );
+    case "gamepadAxis":
+      return (
+        typeof binding.axis === "number" &&
+        (binding.direction === 1 || binding.direction === -1) &&
+        (binding.gamepad === undefined || typeof binding.gamepad === "number")
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Checks if a binding matches an input that was pressed.
+ * @param binding The binding.
+ * @param pressed The pressed input.
+ * @returns `true` if they refer to the same input.
+ */
+function bindingsMatch(binding: InputBinding, pressed: InputBinding): boolean {
+  if (binding.type === "key" && pressed.type === "key") {
+    return normalizeKey(binding.key) === normalizeKey(pressed.key);
+  }
+  if (binding.type === "code" && pressed.type === "code") {
+    return binding.code === pressed.code;
+  }
+  if (binding.type === "mouse" && pressed.type === "mouse") {
+    return binding.button === pressed.button;
+  }
+  return false;
+}
+
+/**
+ * Rescales a value so that it's 0 within a deadzone and reaches 1 at the edge.
+ * @param value The raw value, from -1 to 1.
+ * @param deadzone The size of the deadzone, from 0 to 1.
+ * @returns The value outside the deadzone, from -1 to 1.
+ */
+function applyDeadzone(value: number, deadzone: number): number {
+  const magnitude = Math.abs(value);
+  if (magnitude <= deadzone) return 0;
+  return (
+    (Math.sign(value) * (Math.min(1, magnitude) - deadzone)) / (1 - deadzone)
+  );
+}
+
+/**
+ * Reads the connected gamepads from the Gamepad API, if the browser has it.
+ * @returns The gamepads, with null for empty slots.
+ */
+function readGamepads(): (GamepadLike | null)[] {
+  if (typeof navigator === "undefined" || !navigator.getGamepads) return [];
+  return Array.from(navigator.getGamepads());
+}
+
+/**
+ * Adds a listener to the set for a key or button, creating the set if needed.
+ * @param listeners The sets of listeners.
+ * @param id The key or button.
+ * @param callback The listener to add.
+ */
+function addListener<K>(
+  listeners: Map<K, Set<PressListener>>,
+  id: K,
+  callback: PressListener
+) {
+  let set = listeners.get(id);
+  if (!set) {
+    set = new Set();
+    listeners.set(id, set);
+  }
+  set.add(callback);
+}
+
+/**
+ * Removes a listener from the set for a key or button, dropping the set once it's empty.
+ * @param listeners The sets of listeners.
+ * @param id The key or button.
+ * @param callback The listener to remove.
+ */
+function removeListener<K>(
+  listeners: Map<K, Set<PressListener>>,
+  id: K,
+  callback: PressListener
+) {
+  const set = listeners.get(id);
+  if (!set) return;
+  set.delete(callback);
+  if (set.size === 0) listeners.delete(id);
+}
+
+/**
+ * Calls each listener in a set. Listeners may remove themselves while being called.
+ * @param listeners The listeners, if any.
+ * @param pressed Whether the input went down.
+ */
+function notify(listeners: Set<PressListener> | undefined, pressed: boolean) {
+  if (listeners) [...listeners].forEach((listener) => listener(pressed));
+}
+
+/**
+ * Gets the bit of a mouse button in `PointerEvent.buttons`,
+ * where the middle and right buttons are swapped compared to `PointerEvent.button`.
+ * @param button The mouse button (0 = left, 1 = middle, 2 = right).
+ * @returns The bit of the button.
+ */
+function buttonMask(button: number): number {
+  if (button === 1) return 4;
+  if (button === 2) return 2;
+  return 1 << button;
+}
+
+/**
+ * Manages keyboard, mouse and touch input by tracking the state of keys and pointer events.
  * Keyboard events are handled at the window level to capture all keyboard input,
- * while mouse events are handled at the canvas level to track mouse position relative to the canvas.
+ * while pointer events are handled at the canvas level to track positions relative to the canvas.
+ *
+ * Pointer positions are in logical coordinates: when `dimensions` is set, they are
+ * scaled from the size the canvas is displayed at, so they match the engine's `dims`
+ * however the canvas is resized with CSS. The primary pointer drives the mouse
+ * position and buttons, so a finger on a touch screen acts as the left mouse button.
+ * Every pointer also feeds the `gestures` recognizer for taps, drags and pinches.
+ *
+ * Inputs can be bound to named actions, such as `moveLeft` or `fire`.
+ * The engine takes a snapshot of the actions at the start of every tick, so
+ * `wasPressed` and `wasReleased` are true for exactly one tick per press.
+ *
+ * Gamepads are polled with the Gamepad API as part of the snapshot.
+ * The snapshot returns the raw input state of the tick as an `InputFrame`,
+ * and can be given a recorded frame to use instead of the live input.
  */
 export class InputManager {
   /**
-   * Stores the pressed state of each key.
+   * Stores the pressed state of each key, normalized with `normalizeKey`.
    * `true` if the key is pressed, otherwise `false`.
    * @private
    */
   #keys: { [key: string]: boolean } = {};
 
+  /**
+   * Stores the pressed state of each physical key, by `KeyboardEvent.code`.
+   * @private
+   */
+  #codes: { [code: string]: boolean } = {};
+
+  /**
+   * The bindings of each action.
+   * @private
+   */
+  #actions: Map<string, InputBinding[]> = new Map();
+
+  /**
+   * The actions that were down at the last snapshot.
+   * @private
+   */
+  #down: Set<string> = new Set();
+
+  /**
+   * The actions that were down at the snapshot before the last one.
+   * @private
+   */
+  #previousDown: Set<string> = new Set();
+
+  /**
+   * The inputs pressed since the last snapshot, so presses shorter than a tick still count.
+   * @private
+   */
+  #pressed: InputBinding[] = [];
+
+  /**
+   * Resolvers waiting for the next input, from `captureBinding`.
+   * @private
+   */
+  #captures: ((binding: InputBinding) => void)[] = [];
+
   /**
    * Stores the pressed state of mouse buttons.
    * @private
@@ -30,22 +350,179 @@ export class InputManager {
    */
   #isDragging: boolean = false;
 
+  /**
+   * The pointers held down on the canvas, by pointer id.
+   * @private
+   */
+  #pointers: Map<number, PointerState> = new Map();
+
+  /**
+   * The held state of the recorded frame being replayed, read in place of the live state.
+   * Kept apart so the live state is still right once the replay ends.
+   * @private
+   */
+  #replayed: HeldInput | null = null;
+
+  /**
+   * The gestures recognized since the last snapshot.
+   * @private
+   */
+  #pendingGestures: SerializedGesture[] = [];
+
+  /**
+   * The listeners for gestures, called as part of the snapshot.
+   * @private
+   */
+  #gestureListeners: Set<GestureListener> = new Set();
+
+  /**
+   * The listeners for each key, by normalized key.
+   * @private
+   */
+  #keyListeners: Map<string, Set<PressListener>> = new Map();
+
+  /**
+   * The listeners for each mouse button.
+   * @private
+   */
+  #mouseButtonListeners: Map<number, Set<PressListener>> = new Map();
+
+  /**
+   * The listeners for mouse movement.
+   * @private
+   */
+  #mouseMoveListeners: Set<MouseMoveListener> = new Set();
+
+  /**
+   * The canvas the mouse events are attached to, if any.
+   * @private
+   */
+  #canvas: HTMLCanvasElement | null;
+
+  /**
+   * The DOM event handlers, kept so they can be removed in `dispose`.
+   * @private
+   */
+  #handleKeyDown = (e: KeyboardEvent) => this.onKeyDown(e);
+  #handleKeyUp = (e: KeyboardEvent) => this.onKeyUp(e);
+  #handlePointerDown = (e: PointerEvent) => this.onPointerDown(e);
+  #handlePointerUp = (e: PointerEvent) => this.onPointerUp(e);
+  #handlePointerMove = (e: PointerEvent) => this.onPointerMove(e);
+  #handlePointerCancel = (e: PointerEvent) => this.onPointerCancel(e);
+  #handlePointerLeave = (e: PointerEvent) => this.onPointerLeave(e);
+  #handleGesture = (gesture: Gesture) =>
+    this.#pendingGestures.push(serializeGesture(gesture));
+
+  /**
+   * The connected gamepads at the last poll, by index.
+   * @private
+   */
+  #gamepads: Map<number, GamepadState> = new Map();
+
+  /**
+   * The connected gamepads at the poll before the last one, by index.
+   * @private
+   */
+  #previousGamepads: Map<number, GamepadState> = new Map();
+
+  /**
+   * The listeners for gamepads connecting and disconnecting.
+   * @private
+   */
+  #gamepadListeners: Set<GamepadListener> = new Set();
+
+  /**
+   * The camera used to convert the mouse position into world space.
+   */
+  camera: Camera | null = null;
+
+  /**
+   * The logical size of the canvas. Pointer positions are scaled from the size the
+   * canvas is displayed at to this size. When null, they are in CSS pixels.
+   */
+  dimensions: Vec2 | null;
+
+  /** Recognizes taps, drags and pinches from the pointers on the canvas. */
+  readonly gestures: GestureRecognizer = new GestureRecognizer();
+
+  /** The radial deadzone of the sticks, from 0 to 1. */
+  stickDeadzone: number = 0.2;
+
+  /** The deadzone of the analog triggers, from 0 to 1. */
+  triggerDeadzone: number = 0.1;
+
+  /**
+   * Where the gamepads are polled from. Defaults to the Gamepad API, replace it to
+   * feed in gamepads from elsewhere, such as in tests.
+   */
+  gamepadSource: GamepadSource = readGamepads;
+
   /**
    * Initializes the InputManager and adds event listeners.
    * Keyboard events are attached to the window to capture all keyboard input.
-   * Mouse events are attached to the canvas to track position relative to the canvas.
-   * @param canvas The canvas element to track mouse events on
+   * Pointer events are attached to the canvas to track position relative to the canvas.
+   * Without a canvas, such as in a headless engine, no events are listened to, and
+   * input only comes from replays and from calling the event handlers directly.
+   * @param canvas The canvas element to track pointer events on, or null.
+   * @param dimensions The logical size of the canvas. Defaults to none, for CSS pixels.
+   */
+  constructor(
+    canvas: HTMLCanvasElement | null,
+    dimensions: Vec2 | null = null
+  ) {
+    this.#canvas = canvas;
+    this.dimensions = dimensions;
+
+    if (canvas) {
+      // Keyboard events
+      window.addEventListener("keydown", this.#handleKeyDown);
+      window.addEventListener("keyup", this.#handleKeyUp);
+
+      // Pointer events, without the browser scrolling or zooming on touch
+      canvas.style.touchAction = "none";
+      canvas.addEventListener("pointerdown", this.#handlePointerDown);
+      canvas.addEventListener("pointerup", this.#handlePointerUp);
+      canvas.addEventListener("pointermove", this.#handlePointerMove);
+      canvas.addEventListener("pointercancel", this.#handlePointerCancel);
+      canvas.addEventListener("pointerleave", this.#handlePointerLeave);
+    }
+
+    // Gestures are held until the next snapshot, so they line up with the ticks
+    this.gestures.addListener(this.#handleGesture);
+  }
+
+  /**
+   * Removes the event listeners and every registered callback.
+   * Called by the engine when it is disposed.
    */
-  constructor(canvas: HTMLCanvasElement) {
-    // Keyboard events
-    window.addEventListener("keydown", (e) => this.onKeyDown(e));
-    window.addEventListener("keyup", (e) => this.onKeyUp(e));
+  dispose() {
+    const canvas = this.#canvas;
+    if (canvas) {
+      window.removeEventListener("keydown", this.#handleKeyDown);
+      window.removeEventListener("keyup", this.#handleKeyUp);
+      canvas.removeEventListener("pointerdown", this.#handlePointerDown);
+      canvas.removeEventListener("pointerup", this.#handlePointerUp);
+      canvas.removeEventListener("pointermove", this.#handlePointerMove);
+      canvas.removeEventListener("pointercancel", this.#handlePointerCancel);
+      canvas.removeEventListener("pointerleave", this.#handlePointerLeave);
+    }
 
-    // Mouse events
-    canvas.addEventListener("mousedown", (e) => this.onMouseDown(e));
-    canvas.addEventListener("mouseup", (e) => this.onMouseUp(e));
-    canvas.addEventListener("mousemove", (e) => this.onMouseMove(e));
-    canvas.addEventListener("mouseleave", () => this.onMouseLeave());
+    this.#keyListeners.clear();
+    this.#mouseButtonListeners.clear();
+    this.#mouseMoveListeners.clear();
+    this.#gamepadListeners.clear();
+    this.#gestureListeners.clear();
+    this.#pendingGestures = [];
+    this.#gamepads.clear();
+    this.#previousGamepads.clear();
+    this.#captures = [];
+    this.#keys = {};
+    this.#codes = {};
+    this.#mouseButtons = {};
+    this.#isDragging = false;
+    this.#pointers.clear();
+    this.#replayed = null;
+    this.gestures.clear();
   }
 
   /**
@@ -53,7 +530,16 @@ export class InputManager {
    * @param e The keyboard event.
    */
   onKeyDown(e: KeyboardEvent): void {
-    this.#keys[e.key] = true;
+    const key = normalizeKey(e.key);
+    // Held keys repeat keydown events, listeners only hear the first one
+    if (!this.#keys[key]) notify(this.#keyListeners.get(key), true);
+    this.#keys[key] = true;
+    this.#codes[e.code] = true;
+    this.#pressed.push(
+      { type: "key", key: e.key },
+      { type: "code", code: e.code }
+    );
+    this.#resolveCaptures({ type: "code", code: e.code });
   }
 
   /**
@@ -61,53 +547,109 @@ export class InputManager {
    * @param e The keyboard event.
    */
   onKeyUp(e: KeyboardEvent): void {
-    this.#keys[e.key] = false;
+    const key = normalizeKey(e.key);
+    if (this.#keys[key]) notify(this.#keyListeners.get(key), false);
+    this.#keys[key] = false;
+    this.#codes[e.code] = false;
   }
 
   /**
-   * Handles the `mousedown` event.
-   * @param e The mouse event.
+   * Handles the `pointerdown` event.
+   * The pointer is captured, so it keeps being tracked if it leaves the canvas while down.
+   * @param e The pointer event.
    */
-  onMouseDown(e: MouseEvent): void {
-    this.#mouseButtons[e.button] = true;
+  onPointerDown(e: PointerEvent): void {
+    const position = this.#toLogical(e);
+    this.#canvas?.setPointerCapture(e.pointerId);
+    this.#pointers.set(e.pointerId, {
+      id: e.pointerId,
+      type: e.pointerType,
+      primary: e.isPrimary,
+      position: position.clone(),
+    });
+    this.gestures.pointerDown(e.pointerId, position, e.timeStamp);
+
+    if (!e.isPrimary) return;
+    this.#moveMouse(position);
+    const button = e.pointerType === "mouse" ? e.button : 0;
+    this.#setMouseButton(button, true);
     this.#isDragging = true;
+    this.#pressed.push({ type: "mouse", button });
+    this.#resolveCaptures({ type: "mouse", button });
   }
 
   /**
-   * Handles the `mouseup` event.
-   * @param e The mouse event.
+   * Handles the `pointerup` event.
+   * @param e The pointer event.
    */
-  onMouseUp(e: MouseEvent): void {
-    this.#mouseButtons[e.button] = false;
+  onPointerUp(e: PointerEvent): void {
+    const position = this.#toLogical(e);
+    this.gestures.pointerMove(e.pointerId, position);
+    this.gestures.pointerUp(e.pointerId, e.timeStamp);
+    this.#pointers.delete(e.pointerId);
+
+    if (!e.isPrimary) return;
+    this.#moveMouse(position);
+    this.#setMouseButton(e.pointerType === "mouse" ? e.button : 0, false);
     this.#isDragging = false;
   }
 
   /**
-   * Handles the `mousemove` event.
-   * @param e The mouse event.
+   * Handles the `pointermove` event.
+   * A mouse moves the mouse position even with no button down.
+   * @param e The pointer event.
    */
-  onMouseMove(e: MouseEvent): void {
-    const rect = (e.target as HTMLCanvasElement).getBoundingClientRect();
-    this.#mousePosition.x = e.clientX - rect.left;
-    this.#mousePosition.y = e.clientY - rect.top;
+  onPointerMove(e: PointerEvent): void {
+    const position = this.#toLogical(e);
+    this.#pointers.get(e.pointerId)?.position.resetToVector(position);
+    this.gestures.pointerMove(e.pointerId, position);
+
+    if (!e.isPrimary) return;
+    this.#moveMouse(position);
+    // Pressing or releasing another mouse button while one is down only moves the pointer
+    if (e.pointerType === "mouse" && e.button >= 0) {
+      const pressed = (e.buttons & buttonMask(e.button)) !== 0;
+      this.#setMouseButton(e.button, pressed);
+      if (pressed) this.#pressed.push({ type: "mouse", button: e.button });
+    }
   }
 
   /**
-   * Handles the `mouseleave` event.
+   * Handles the `pointercancel` event, such as when the browser takes over a touch.
+   * @param e The pointer event.
    */
-  onMouseLeave(): void {
-    // Reset all mouse buttons when mouse leaves the window
-    this.#mouseButtons = {};
-    this.#isDragging = false;
+  onPointerCancel(e: PointerEvent): void {
+    this.gestures.pointerCancel(e.pointerId);
+    this.#pointers.delete(e.pointerId);
+    if (e.isPrimary) this.#releaseMouseButtons();
+  }
+
+  /**
+   * Handles the `pointerleave` event.
+   * @param e The pointer event.
+   */
+  onPointerLeave(e: PointerEvent): void {
+    // Reset all mouse buttons when the mouse leaves the canvas
+    if (e.pointerType === "mouse") this.#releaseMouseButtons();
   }
 
   /**
    * Checks if a specific key is currently pressed down.
+   * Single characters match whatever the case.
    * @param key The key to check (e.g., 'w', 'ArrowUp').
    * @returns `true` if the key is pressed, otherwise `false`.
    */
   isKeyDown(key: string): boolean {
-    return this.#keys[key] || false;
+    return (this.#replayed?.keys ?? this.#keys)[normalizeKey(key)] || false;
+  }
+
+  /**
+   * Checks if a specific physical key is currently pressed down.
+   * @param code The code to check (e.g., 'KeyW', 'Space').
+   * @returns `true` if the key is pressed, otherwise `false`.
+   */
+  isCodeDown(code: string): boolean {
+    return (this.#replayed?.codes ?? this.#codes)[code] || false;
   }
 
   /**
@@ -116,7 +658,56 @@ export class InputManager {
    * @returns `true` if the button is pressed, otherwise `false`.
    */
   isMouseButtonDown(button: number): boolean {
-    return this.#mouseButtons[button] || false;
+    return (
+      (this.#replayed?.mouseButtons ?? this.#mouseButtons)[button] || false
+    );
+  }
+
+  /**
+   * Checks if a key is currently pressed down, by its value or its physical code,
+   * so both `isKeyPressed(" ")` and `isKeyPressed("Space")` match the space bar.
+   * @param key The key or code to check.
+   * @returns `true` if the key is pressed, otherwise `false`.
+   */
+  isKeyPressed(key: string): boolean {
+    return this.isKeyDown(key) || this.isCodeDown(key);
+  }
+
+  /**
+   * Checks if a specific mouse button is currently pressed down.
+   * @param button The mouse button to check (0 = left, 1 = middle, 2 = right).
+   * @returns `true` if the button is pressed, otherwise `false`.
+   */
+  isMouseButtonPressed(button: number): boolean {
+    return this.isMouseButtonDown(button);
+  }
+
+  /**
+   * Gets a copy of the current mouse position.
+   * @returns The mouse position, relative to the canvas.
+   */
+  getMousePosition(): Vec2 {
+    return this.mousePosition.clone();
+  }
+
+  /**
+   * Gets the state of every key seen so far, by key value.
+   * @returns A new map, so changing it doesn't affect the input.
+   */
+  get keys(): Map<string, boolean> {
+    return new Map(Object.entries(this.#replayed?.keys ?? this.#keys));
+  }
+
+  /**
+   * Gets the state of every mouse button seen so far.
+   * @returns A new map, so changing it doesn't affect the input.
+   */
+  get mouseButtons(): Map<number, boolean> {
+    return new Map(
+      Object.entries(this.#replayed?.mouseButtons ?? this.#mouseButtons).map(
+        ([button, pressed]) => [Number(button), pressed]
+      )
+    );
   }
 
   /**
@@ -124,7 +715,17 @@ export class InputManager {
    * @returns An object containing the x and y coordinates of the mouse.
    */
   get mousePosition(): Vec2 {
-    return this.#mousePosition;
+    return this.#replayed?.mousePosition ?? this.#mousePosition;
+  }
+
+  /**
+   * Gets the current mouse position in world space, using the camera if one is set.
+   * @returns The mouse position in world coordinates.
+   */
+  get worldMousePosition(): Vec2 {
+    return this.camera
+      ? this.camera.screenToWorld(this.mousePosition)
+      : this.mousePosition.clone();
   }
 
   /**
@@ -132,6 +733,569 @@ export class InputManager {
    * @returns `true` if the mouse is being dragged, otherwise `false`.
    */
   isDragging(): boolean {
-    return this.#isDragging;
+    return this.#replayed?.isDragging ?? this.#isDragging;
+  }
+
+  /**
+   * Gets the pointers held down on the canvas, such as each finger on a touch screen.
+   * @returns A copy of the state of each pointer.
+   */
+  get pointers(): PointerState[] {
+    const pointers = this.#replayed?.pointers ?? this.#pointers;
+    return [...pointers.values()].map((pointer) => ({
+      ...pointer,
+      position: pointer.position.clone(),
+    }));
+  }
+
+  /**
+   * Adds a callback for a key going down or up. Single characters match whatever the case.
+   * @param key The key to listen to (e.g., 'w', 'ArrowUp').
+   * @param callback Called with `true` when the key goes down and `false` when it goes up.
+   */
+  addKeyListener(key: string, callback: PressListener) {
+    addListener(this.#keyListeners, normalizeKey(key), callback);
+  }
+
+  /**
+   * Removes a callback added with `addKeyListener`.
+   * @param key The key the callback listens to.
+   * @param callback The callback to remove.
+   */
+  removeKeyListener(key: string, callback: PressListener) {
+    removeListener(this.#keyListeners, normalizeKey(key), callback);
+  }
+
+  /**
+   * Adds a callback for a mouse button going down or up.
+   * @param button The mouse button to listen to (0 = left, 1 = middle, 2 = right).
+   * @param callback Called with `true` when the button goes down and `false` when it goes up.
+   */
+  addMouseButtonListener(button: number, callback: PressListener) {
+    addListener(this.#mouseButtonListeners, button, callback);
+  }
+
+  /**
+   * Removes a callback added with `addMouseButtonListener`.
+   * @param button The mouse button the callback listens to.
+   * @param callback The callback to remove.
+   */
+  removeMouseButtonListener(button: number, callback: PressListener) {
+    removeListener(this.#mouseButtonListeners, button, callback);
+  }
+
+  /**
+   * Adds a callback for the mouse moving over the canvas.
+   * @param callback Called with a copy of the new mouse position.
+   */
+  addMouseMoveListener(callback: MouseMoveListener) {
+    this.#mouseMoveListeners.add(callback);
+  }
+
+  /**
+   * Removes a callback added with `addMouseMoveListener`.
+   * @param callback The callback to remove.
+   */
+  removeMouseMoveListener(callback: MouseMoveListener) {
+    this.#mouseMoveListeners.delete(callback);
+  }
+
+  /**
+   * Adds a callback for gestures recognized on the canvas: taps, drags and pinches.
+   * Gestures are delivered by the snapshot at the start of the next tick, so they
+   * are recorded and replayed along with the rest of the input.
+   * @param callback Called with each gesture.
+   */
+  addGestureListener(callback: GestureListener) {
+    this.#gestureListeners.add(callback);
+  }
+
+  /**
+   * Removes a callback added with `addGestureListener`.
+   * @param callback The callback to remove.
+   */
+  removeGestureListener(callback: GestureListener) {
+    this.#gestureListeners.delete(callback);
+  }
+
+  /**
+   * Adds a callback for a gamepad connecting or disconnecting.
+   * Connections are detected when the gamepads are polled.
+   * @param callback Called with the index of the gamepad and whether it connected.
+   */
+  addGamepadListener(callback: GamepadListener) {
+    this.#gamepadListeners.add(callback);
+  }
+
+  /**
+   * Removes a callback added with `addGamepadListener`.
+   * @param callback The callback to remove.
+   */
+  removeGamepadListener(callback: GamepadListener) {
+    this.#gamepadListeners.delete(callback);
+  }
+
+  /**
+   * Polls the gamepad source, keeping the previous state for button edges.
+   * Called as part of `snapshot`, once per tick.
+   */
+  pollGamepads() {
+    this.#previousGamepads = this.#gamepads;
+    this.#gamepads = new Map();
+    this.gamepadSource().forEach((gamepad) => {
+      if (!gamepad || !gamepad.connected) return;
+      this.#gamepads.set(gamepad.index, {
+        index: gamepad.index,
+        id: gamepad.id,
+        axes: [...gamepad.axes],
+        buttons: gamepad.buttons.map((button) => button.value),
+        pressed: gamepad.buttons.map((button) => button.pressed),
+      });
+    });
+
+    const listeners = [...this.#gamepadListeners];
+    this.#gamepads.forEach((_, index) => {
+      if (this.#previousGamepads.has(index)) return;
+      listeners.forEach((listener) => listener(index, true));
+    });
+    this.#previousGamepads.forEach((_, index) => {
+      if (this.#gamepads.has(index)) return;
+      listeners.forEach((listener) => listener(index, false));
+    });
+
+    if (this.#captures.length === 0) return;
+    this.#gamepads.forEach((gamepad, index) =>
+      gamepad.pressed.forEach((pressed, button) => {
+        if (pressed && !this.#previousGamepads.get(index)?.pressed[button]) {
+          this.#resolveCaptures({ type: "gamepadButton", button });
+        }
+      })
+    );
+  }
+
+  /**
+   * Gets the connected gamepads, as of the last poll.
+   * @returns The state of each connected gamepad.
+   */
+  get gamepads(): GamepadState[] {
+    return [...this.#gamepads.values()];
+  }
+
+  /**
+   * Checks if a gamepad button is down, as of the last poll.
+   * @param button The button, in the standard mapping (e.g., 0 = A, 7 = right trigger).
+   * @param gamepad The index of the gamepad. Defaults to any gamepad.
+   * @returns `true` if the button is pressed.
+   */
+  isGamepadButtonDown(button: number, gamepad?: number): boolean {
+    return this.#padsOf(this.#gamepads, gamepad).some(
+      (state) => state.pressed[button] ?? false
+    );
+  }
+
+  /**
+   * Checks if a gamepad button went down at the last poll.
+   * @param button The button, in the standard mapping.
+   * @param gamepad The index of the gamepad. Defaults to any gamepad.
+   * @returns `true` during the tick the button was pressed.
+   */
+  wasGamepadButtonPressed(button: number, gamepad?: number): boolean {
+    return this.#padsOf(this.#gamepads, gamepad).some(
+      (state) =>
+        state.pressed[button] &&
+        !this.#previousGamepads.get(state.index)?.pressed[button]
+    );
+  }
+
+  /**
+   * Checks if a gamepad button went up at the last poll.
+   * @param button The button, in the standard mapping.
+   * @param gamepad The index of the gamepad. Defaults to any gamepad.
+   * @returns `true` during the tick the button was released.
+   */
+  wasGamepadButtonReleased(button: number, gamepad?: number): boolean {
+    return this.#padsOf(this.#previousGamepads, gamepad).some(
+      (state) =>
+        state.pressed[button] &&
+        !this.#gamepads.get(state.index)?.pressed[button]
+    );
+  }
+
+  /**
+   * Gets the value of a gamepad button, with the trigger deadzone applied.
+   * @param button The button, in the standard mapping.
+   * @param gamepad The index of the gamepad. Defaults to the strongest of any gamepad.
+   * @returns The value, from 0 to 1.
+   */
+  getGamepadButtonValue(button: number, gamepad?: number): number {
+    return this.#padsOf(this.#gamepads, gamepad).reduce(
+      (max, state) =>
+        Math.max(
+          max,
+          applyDeadzone(state.buttons[button] ?? 0, this.triggerDeadzone)
+        ),
+      0
+    );
+  }
+
+  /**
+   * Gets the value of a gamepad axis, with the stick deadzone applied to it alone.
+   * @param axis The axis, in the standard mapping (0, 1 = left stick, 2, 3 = right stick).
+   * @param gamepad The index of the gamepad. Defaults to the strongest of any gamepad.
+   * @returns The value, from -1 to 1.
+   */
+  getGamepadAxis(axis: number, gamepad?: number): number {
+    return this.#padsOf(this.#gamepads, gamepad).reduce((strongest, state) => {
+      const value = applyDeadzone(state.axes[axis] ?? 0, this.stickDeadzone);
+      return Math.abs(value) > Math.abs(strongest) ? value : strongest;
+    }, 0);
+  }
+
+  /**
+   * Gets the position of a stick, with a radial deadzone so diagonals aren't snapped.
+   * @param stick The stick.
+   * @param gamepad The index of the gamepad. Defaults to the most pushed stick of any gamepad.
+   * @returns The position, with a length from 0 to 1. Down is positive y.
+   */
+  getStick(stick: "left" | "right", gamepad?: number): Vec2 {
+    const axis = stick === "left" ? 0 : 2;
+    let strongest = new Vec2(0, 0);
+    this.#padsOf(this.#gamepads, gamepad).forEach((state) => {
+      const raw = new Vec2(state.axes[axis] ?? 0, state.axes[axis + 1] ?? 0);
+      const length = raw.length;
+      const scaled = applyDeadzone(length, this.stickDeadzone);
+      if (scaled > strongest.length) strongest = raw.scale(scaled / length);
+    });
+    return strongest;
+  }
+
+  /**
+   * Binds an action to inputs, replacing its current bindings.
+   * @param action The name of the action.
+   * @param bindings The inputs that trigger the action.
+   */
+  bindAction(action: string, bindings: InputBinding[]) {
+    this.#actions.set(action, [...bindings]);
+  }
+
+  /**
+   * Adds an input to an action's bindings.
+   * @param action The name of the action.
+   * @param binding The input to add.
+   */
+  addBinding(action: string, binding: InputBinding) {
+    this.#actions.set(action, [...this.getBindings(action), binding]);
+  }
+
+  /**
+   * Removes all of an action's bindings.
+   * @param action The name of the action.
+   */
+  unbindAction(action: string) {
+    this.#actions.delete(action);
+    this.#down.delete(action);
+    this.#previousDown.delete(action);
+  }
+
+  /**
+   * Gets the inputs bound to an action.
+   * @param action The name of the action.
+   * @returns The bindings, or an empty array if the action isn't bound.
+   */
+  getBindings(action: string): InputBinding[] {
+    return [...(this.#actions.get(action) ?? [])];
+  }
+
+  /**
+   * Gets the bindings of every action, ready to be saved with `JSON.stringify`.
+   * @returns The bindings by action name.
+   */
+  toJSON(): ActionBindings {
+    const bindings: ActionBindings = {};
+    this.#actions.forEach((actionBindings, action) => {
+      bindings[action] = actionBindings.map((binding) => ({ ...binding }));
+    });
+    return bindings;
+  }
+
+  /**
+   * Replaces every action's bindings with saved ones.
+   * @param json The bindings by action name, or a JSON string of them.
+   * @throws If the bindings are malformed.
+   */
+  loadBindings(json: ActionBindings | string) {
+    const bindings: unknown =
+      typeof json === "string" ? JSON.parse(json) : json;
+    if (typeof bindings !== "object" || bindings === null) {
+      throw new Error("Action bindings must be an object.");
+    }
+    const entries = Object.entries(bindings);
+    entries.forEach(([action, actionBindings]) => {
+      if (
+        !Array.isArray(actionBindings) ||
+        !actionBindings.every(isInputBinding)
+      ) {
+        throw new Error(`Invalid bindings for the action "${action}".`);
+      }
+    });
+    this.#actions.clear();
+    entries.forEach(([action, actionBindings]) =>
+      this.bindAction(action, actionBindings)
+    );
+  }
+
+  /**
+   * Waits for the next key, mouse button or gamepad button press, for rebinding an action.
+   * Keys are captured by code, so the binding works whatever the layout.
+   * @returns A promise of the binding for the pressed input.
+   */
+  captureBinding(): Promise<InputBinding> {
+    return new Promise((resolve) => this.#captures.push(resolve));
+  }
+
+  /**
+   * Polls the gamepads and takes a snapshot of which actions are down,
+   * then delivers the gestures recognized since the last snapshot.
+   * Called by the engine at the start of every tick.
+   * An action pressed and released since the last snapshot counts as down.
+   * @param frame A recorded frame to use instead of the live input, until the next snapshot without one. Defaults to the live input.
+   * @returns The raw input state the snapshot was taken from.
+   */
+  snapshot(frame?: InputFrame): InputFrame {
+    if (frame) {
+      this.#applyFrame(frame);
+    } else {
+      this.#replayed = null;
+      this.pollGamepads();
+      frame = this.#captureFrame();
+    }
+    this.#pressed = [];
+    this.#pendingGestures = [];
+
+    const { pressed, gestures } = frame;
+    this.#previousDown = this.#down;
+    this.#down = new Set();
+    this.#actions.forEach((bindings, action) => {
+      const down = bindings.some(
+        (binding) =>
+          this.#isBindingDown(binding) ||
+          pressed.some((input) => bindingsMatch(binding, input))
+      );
+      if (down) this.#down.add(action);
+    });
+
+    const listeners = [...this.#gestureListeners];
+    gestures.forEach((gesture) => {
+      const restored = deserializeGesture(gesture);
+      listeners.forEach((listener) => listener(restored));
+    });
+    return frame;
+  }
+
+  /**
+   * Forgets which actions were down, so the next snapshot starts afresh.
+   * Called when a recording or a replay starts, so both begin the same way.
+   */
+  resetActions() {
+    this.#down = new Set();
+    this.#previousDown = new Set();
+  }
+
+  /**
+   * Checks if an action is down, as of the last snapshot.
+   * @param action The name of the action.
+   * @returns `true` if any of its inputs is down.
+   */
+  isActionDown(action: string): boolean {
+    return this.#down.has(action);
+  }
+
+  /**
+   * Gets how strongly an action is held, for analog inputs such as sticks and triggers.
+   * Digital inputs count as 0 or 1.
+   * @param action The name of the action.
+   * @returns The strongest of its inputs, from 0 to 1.
+   */
+  getActionValue(action: string): number {
+    return (this.#actions.get(action) ?? []).reduce(
+      (max, binding) => Math.max(max, this.#bindingValue(binding)),
+      0
+    );
+  }
+
+  /**
+   * Checks if an action went down at the last snapshot.
+   * @param action The name of the action.
+   * @returns `true` during the tick the action was pressed.
+   */
+  wasPressed(action: string): boolean {
+    return this.#down.has(action) && !this.#previousDown.has(action);
+  }
+
+  /**
+   * Checks if an action went up at the last snapshot.
+   * @param action The name of the action.
+   * @returns `true` during the tick the action was released.
+   */
+  wasReleased(action: string): boolean {
+    return !this.#down.has(action) && this.#previousDown.has(action);
+  }
+
+  /**
+   * Checks if a binding's input is currently down.
+   */
+  #isBindingDown(binding: InputBinding): boolean {
+    switch (binding.type) {
+      case "key":
+        return this.isKeyDown(binding.key);
+      case "code":
+        return this.isCodeDown(binding.code);
+      case "mouse":
+        return this.isMouseButtonDown(binding.button);
+      case "gamepadButton":
+        return this.isGamepadButtonDown(binding.button, binding.gamepad);
+      case "gamepadAxis":
+        return this.#bindingValue(binding) > 0;
+    }
+  }
+
+  /**
+   * Gets the value of a binding's input, from 0 to 1.
+   */
+  #bindingValue(binding: InputBinding): number {
+    switch (binding.type) {
+      case "gamepadButton":
+        return Math.max(
+          this.getGamepadButtonValue(binding.button, binding.gamepad),
+          this.isGamepadButtonDown(binding.button, binding.gamepad) ? 1 : 0
+        );
+      case "gamepadAxis":
+        return Math.max(
+          0,
+          this.getGamepadAxis(binding.axis, binding.gamepad) * binding.direction
+        );
+      default:
+        return this.#isBindingDown(binding) ? 1 : 0;
+    }
+  }
+
+  /**
+   * Gets the polled gamepads to read from: one by index, or all of them.
+   */
+  #padsOf(
+    gamepads: Map<number, GamepadState>,
+    index: number | undefined
+  ): GamepadState[] {
+    if (index === undefined) return [...gamepads.values()];
+    const state = gamepads.get(index);
+    return state ? [state] : [];
+  }
+
+  /**
+   * Copies the live input state into a frame.
+   */
+  #captureFrame(): InputFrame {
+    const held = (state: { [id: string]: boolean }) =>
+      Object.keys(state).filter((id) => state[id]);
+    return {
+      keys: held(this.#keys),
+      codes: held(this.#codes),
+      mouseButtons: held(this.#mouseButtons).map(Number),
+      mouse: [this.#mousePosition.x, this.#mousePosition.y],
+      pointers: [...this.#pointers.values()].map(
+        ({ id, type, primary, position }) => ({
+          id,
+          type,
+          primary,
+          x: position.x,
+          y: position.y,
+        })
+      ),
+      gamepads: [...this.#gamepads.values()],
+      pressed: this.#pressed,
+      gestures: this.#pendingGestures,
+    };
+  }
+
+  /**
+   * Reads the input state from a recorded frame until the next live snapshot.
+   * The live state is left as it is, and listeners aren't notified.
+   */
+  #applyFrame(frame: InputFrame) {
+    const held = (ids: (string | number)[]) =>
+      Object.fromEntries(ids.map((id) => [id, true]));
+    this.#replayed = {
+      keys: held(frame.keys),
+      codes: held(frame.codes),
+      mouseButtons: held(frame.mouseButtons),
+      mousePosition: new Vec2(frame.mouse[0], frame.mouse[1]),
+      pointers: new Map(
+        frame.pointers.map(({ id, type, primary, x, y }) => [
+          id,
+          { id, type, primary, position: new Vec2(x, y) },
+        ])
+      ),
+      isDragging: frame.pointers.some((pointer) => pointer.primary),
+    };
+    this.#previousGamepads = this.#gamepads;
+    this.#gamepads = new Map(
+      frame.gamepads.map((gamepad) => [gamepad.index, gamepad])
+    );
+  }
+
+  /**
+   * Converts the position of a pointer event into logical coordinates on the canvas.
+   * Without a canvas, the client position is taken as the logical position.
+   */
+  #toLogical(e: PointerEvent): Vec2 {
+    if (!this.#canvas) return new Vec2(e.clientX, e.clientY);
+    const rect = this.#canvas.getBoundingClientRect();
+    const position = new Vec2(e.clientX - rect.left, e.clientY - rect.top);
+    if (this.dimensions && rect.width > 0 && rect.height > 0) {
+      position.x *= this.dimensions.x / rect.width;
+      position.y *= this.dimensions.y / rect.height;
+    }
+    return position;
+  }
+
+  /**
+   * Moves the mouse, notifying the move listeners.
+   */
+  #moveMouse(position: Vec2) {
+    this.#mousePosition.resetToVector(position);
+    [...this.#mouseMoveListeners].forEach((listener) =>
+      listener(this.#mousePosition.clone())
+    );
+  }
+
+  /**
+   * Presses or releases a mouse button, notifying its listeners if its state changed.
+   */
+  #setMouseButton(button: number, pressed: boolean) {
+    if (!!this.#mouseButtons[button] !== pressed) {
+      notify(this.#mouseButtonListeners.get(button), pressed);
+    }
+    this.#mouseButtons[button] = pressed;
+  }
+
+  /**
+   * Releases every mouse button, notifying their listeners.
+   */
+  #releaseMouseButtons() {
+    Object.entries(this.#mouseButtons).forEach(([button, pressed]) => {
+      if (pressed)
+        notify(this.#mouseButtonListeners.get(Number(button)), false);
+    });
+    this.#mouseButtons = {};
+    this.#isDragging = false;
+  }
+
+  /**
+   * Hands an input to everything waiting in `captureBinding`.
+   */
+  #resolveCaptures(binding: InputBinding) {
+    const captures = this.#captures;
+    this.#captures = [];
+    captures.forEach((resolve) => resolve(binding));
   }
 }
@@ -0,0 +1,190 @@
+import type { GameObject } from "./GameObject";
+
+/**
+ * A constructor of a GameObject type, used for type queries.
+ * Abstract classes are allowed so base types can be queried too.
+ */
+export type GameObjectType<T extends GameObject> = abstract new (
+  ...args: any[]
+) => T;
+
+/**
+ * Lookup tables for the game objects of a scene, by id, type, tag and layer.
+ * Kept up to date by the engine as objects are added, removed, renamed, tagged and
+ * moved between layers, so queries never need to scan every object.
+ */
+export class ObjectIndex {
+  /**
+   * Objects by id.
+   * @private
+   */
+  #byId: Map<string, GameObject> = new Map();
+
+  /**
+   * Objects by constructor, including every superclass constructor.
+   * @private
+   */
+  #byType: Map<Function, Set<GameObject>> = new Map();
+
+  /**
+   * Objects by tag.
+   * @private
+   */
+  #byTag: Map<string, Set<GameObject>> = new Map();
+
+  /**
+   * Objects by layer name.
+   * @private
+   */
+  #byLayer: Map<string, Set<GameObject>> = new Map();
+
+  /**
+   * Adds an object to every table.
+   * @param {GameObject} obj - The object to add.
+   * @throws {Error} If an object with the same id is already indexed.
+   */
+  add(obj: GameObject) {
+    if (this.#byId.has(obj.id))
+      throw new Error(`A GameObject with the id "${obj.id}" already exists.`);
+
+    this.#byId.set(obj.id, obj);
+    this.#typesOf(obj).forEach((type) => addTo(this.#byType, type, obj));
+    obj.tags.forEach((tag) => addTo(this.#byTag, tag, obj));
+    addTo(this.#byLayer, obj.layer, obj);
+  }
+
+  /**
+   * Removes an object from every table.
+   * @param {GameObject} obj - The object to remove.
+   */
+  remove(obj: GameObject) {
+    if (this.#byId.get(obj.id) !== obj) return;
+
+    this.#byId.delete(obj.id);
+    this.#typesOf(obj).forEach((type) => removeFrom(this.#byType, type, obj));
+    obj.tags.forEach((tag) => removeFrom(this.#byTag, tag, obj));
+    removeFrom(this.#byLayer, obj.layer, obj);
+  }
+
+  /**
+   * Removes every object from every table.
+   */
+  clear() {
+    this.#byId.clear();
+    this.#byType.clear();
+    this.#byTag.clear();
+    this.#byLayer.clear();
+  }
+
+  /**
+   * Records a tag being added to or removed from an indexed object.
+   * @param {GameObject} obj - The object that changed.
+   * @param {string} tag - The tag.
+   * @param {boolean} tagged - Whether the tag was added (true) or removed (false).
+   */
+  retag(obj: GameObject, tag: string, tagged: boolean) {
+    if (this.#byId.get(obj.id) !== obj) return;
+    if (tagged) addTo(this.#byTag, tag, obj);
+    else removeFrom(this.#byTag, tag, obj);
+  }
+
+  /**
+   * Records an indexed object changing its id.
+   * @param {GameObject} obj - The object that changed.
+   * @param {string} from - The previous id.
+   * @param {string} to - The new id.
+   * @throws {Error} If another object already has the new id.
+   */
+  reid(obj: GameObject, from: string, to: string) {
+    if (this.#byId.get(from) !== obj) return;
+    if (this.#byId.has(to))
+      throw new Error(`A GameObject with the id "${to}" already exists.`);
+    this.#byId.delete(from);
+    this.#byId.set(to, obj);
+  }
+
+  /**
+   * Records an indexed object moving to another layer.
+   * @param {GameObject} obj - The object that moved.
+   * @param {string} from - The previous layer.
+   * @param {string} to - The new layer.
+   */
+  relayer(obj: GameObject, from: string, to: string) {
+    if (this.#byId.get(obj.id) !== obj) return;
+    removeFrom(this.#byLayer, from, obj);
+    addTo(this.#byLayer, to, obj);
+  }
+
+  /**
+   * Finds an object by id.
+   * @param {string} id - The id to look up.
+   * @returns {GameObject | undefined} The object, or undefined.
+   */
+  getById(id: string): GameObject | undefined {
+    return this.#byId.get(id);
+  }
+
+  /**
+   * Gets every object that is an instance of a type, including subclasses.
+   * @param {GameObjectType<T>} type - The class to look up.
+   * @returns {T[]} The matching objects, in the order they were added.
+   */
+  getByType<T extends GameObject>(type: GameObjectType<T>): T[] {
+    return [...(this.#byType.get(type) ?? [])] as T[];
+  }
+
+  /**
+   * Gets every object with a tag.
+   * @param {string} tag - The tag to look up.
+   * @returns {GameObject[]} The matching objects.
+   */
+  getByTag(tag: string): GameObject[] {
+    return [...(this.#byTag.get(tag) ?? [])];
+  }
+
+  /**
+   * Gets every object in a layer.
+   * @param {string} layer - The layer name to look up.
+   * @returns {GameObject[]} The matching objects.
+   */
+  getByLayer(layer: string): GameObject[] {
+    return [...(this.#byLayer.get(layer) ?? [])];
+  }
+
+  /**
+   * Lists the constructors in an object's prototype chain.
+   * @param {GameObject} obj - The object.
+   * @returns {Function[]} The constructors, from the object's own class up.
+   */
+  #typesOf(obj: GameObject): Function[] {
+    const types: Function[] = [];
+    let proto = Object.getPrototypeOf(obj);
+    while (proto && proto !== Object.prototype) {
+      types.push(proto.constructor);
+      proto = Object.getPrototypeOf(proto);
+    }
+    return types;
+  }
+}
+
+/**
+ * Adds a value to the set stored under a key, creating the set if needed.
+ */
+function addTo<K, V>(map: Map<K, Set<V>>, key: K, value: V) {
+  let set = map.get(key);
+  if (!set) {
+    set = new Set();
+    map.set(key, set);
+  }
+  set.add(value);
+}
+
+/**
+ * Removes a value from the set stored under a key, dropping the set once empty.
+ */
+function removeFrom<K, V>(map: Map<K, Set<V>>, key: K, value: V) {
+  const set = map.get(key);
+  if (!set) return;
+  set.delete(value);
+  if (set.size === 0) map.delete(key);
+}
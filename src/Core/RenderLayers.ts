@@ -0,0 +1,169 @@
+import type { GameObject } from "./GameObject";
+
+/**
+ * Enum representing the names of the render layers every engine starts with,
+ * in the order they're drawn.
+ */
+export enum RenderLayerName {
+  /** Scenery behind the world, scrolling slower than it. */
+  BACKGROUND = "background",
+  /** The game world. Objects are in this layer unless they say otherwise. */
+  WORLD = "world",
+  /** Particles and other effects drawn over the world. */
+  EFFECTS = "effects",
+  /** Menus and text drawn in screen space, over everything. */
+  UI = "ui",
+}
+
+/**
+ * A named group of root game objects drawn together. Layers are drawn in order,
+ * and the objects in a layer by their zIndex.
+ */
+export type RenderLayer = {
+  /** The name game objects refer to the layer by. */
+  readonly name: string;
+  /**
+   * How far the layer scrolls with the camera. 1 moves with the world, 0.5 half as far,
+   * 0 stays where it is when the camera is centered on the viewport.
+   */
+  parallax: number;
+  /** Whether the layer is drawn in screen space, ignoring the camera. */
+  screen: boolean;
+};
+
+/**
+ * Options for adding a render layer.
+ */
+export type RenderLayerOptions = {
+  /** How far the layer scrolls with the camera. Defaults to 1. */
+  parallax?: number;
+  /** Whether the layer is drawn in screen space. Defaults to false. */
+  screen?: boolean;
+  /** The name of the layer to draw it under. Defaults to drawing it over every layer. */
+  before?: string;
+};
+
+/**
+ * The ordered render layers of an engine. Game objects name their layer with `layer`;
+ * an object naming a layer that doesn't exist is drawn in the world layer.
+ * The parallax and screen space of a layer can be changed at any time, adding or
+ * removing layers changes the `version`, so scenes know to sort their objects again.
+ *
+ * @example
+ * engine.layers.get(RenderLayerName.BACKGROUND).parallax = 0.25;
+ * engine.layers.add("clouds", { parallax: 0.75, before: RenderLayerName.WORLD });
+ * cloud.layer = "clouds";
+ */
+export class RenderLayers {
+  /**
+   * The layers, in the order they're drawn.
+   * @private
+   */
+  #layers: RenderLayer[] = [
+    { name: RenderLayerName.BACKGROUND, parallax: 0.5, screen: false },
+    { name: RenderLayerName.WORLD, parallax: 1, screen: false },
+    { name: RenderLayerName.EFFECTS, parallax: 1, screen: false },
+    { name: RenderLayerName.UI, parallax: 1, screen: true },
+  ];
+
+  /**
+   * How many times the order of the layers has changed.
+   * @private
+   */
+  #version: number = 0;
+
+  /**
+   * Gets how many times the order of the layers has changed.
+   * @returns {number} The version.
+   */
+  get version(): number {
+    return this.#version;
+  }
+
+  /**
+   * Gets the layers, in the order they're drawn.
+   * @returns {readonly RenderLayer[]} The layers.
+   */
+  get all(): readonly RenderLayer[] {
+    return this.#layers;
+  }
+
+  /**
+   * Checks if there's a layer with a name.
+   * @param {string} name - The name of the layer.
+   * @returns {boolean} True if the layer exists.
+   */
+  has(name: string): boolean {
+    return this.#layers.some((layer) => layer.name === name);
+  }
+
+  /**
+   * Gets a layer by name.
+   * @param {string} name - The name of the layer.
+   * @returns {RenderLayer} The layer, or the world layer if there's none with the name.
+   */
+  get(name: string): RenderLayer {
+    return this.#layers[this.indexOf(name)];
+  }
+
+  /**
+   * Gets the position of a layer in the draw order.
+   * @param {string} name - The name of the layer.
+   * @returns {number} The index, or the world layer's if there's none with the name.
+   */
+  indexOf(name: string): number {
+    const index = this.#layers.findIndex((layer) => layer.name === name);
+    if (index !== -1) return index;
+    return this.#layers.findIndex(
+      (layer) => layer.name === RenderLayerName.WORLD
+    );
+  }
+
+  /**
+   * Gets the layer a game object is drawn in. Children are drawn in their root's layer.
+   * @param {GameObject} obj - The game object.
+   * @returns {RenderLayer} The layer.
+   */
+  of(obj: GameObject): RenderLayer {
+    let root = obj;
+    while (root.parent) root = root.parent;
+    return this.get(root.layer);
+  }
+
+  /**
+   * Adds a layer.
+   * @param {string} name - The name of the layer.
+   * @param {RenderLayerOptions} options - How the layer is drawn, and where.
+   * @returns {RenderLayer} The new layer.
+   * @throws {Error} If there's already a layer with the name, or no layer to draw it under.
+   */
+  add(
+    name: string,
+    { parallax = 1, screen = false, before }: RenderLayerOptions = {}
+  ): RenderLayer {
+    if (this.has(name))
+      throw new Error(`A render layer named "${name}" already exists.`);
+    if (before !== undefined && !this.has(before))
+      throw new Error(`There is no render layer named "${before}".`);
+
+    const layer: RenderLayer = { name, parallax, screen };
+    if (before === undefined) this.#layers.push(layer);
+    else this.#layers.splice(this.indexOf(before), 0, layer);
+    this.#version++;
+    return layer;
+  }
+
+  /**
+   * Removes a layer. Objects in it are drawn in the world layer.
+   * @param {string} name - The name of the layer.
+   * @throws {Error} If the layer is the world layer.
+   */
+  remove(name: string) {
+    if (name === RenderLayerName.WORLD)
+      throw new Error("The world render layer can't be removed.");
+    const index = this.#layers.findIndex((layer) => layer.name === name);
+    if (index === -1) return;
+    this.#layers.splice(index, 1);
+    this.#version++;
+  }
+}
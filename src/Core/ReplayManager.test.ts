@@ -0,0 +1,120 @@
+import { Vec2 } from "wtc-math";
+import { describe, expect, it } from "vitest";
+
+import tankAtlas from "../../public/assets/tank.json?raw";
+import { memoryFetcher } from "./AssetFetcher";
+import { AssetManager } from "./AssetManager";
+import { GameEngine } from "./GameEngine";
+import { ReplayManager, ReplayMode } from "./ReplayManager";
+import { MemoryAudioBackend } from "../Audio/MemoryAudioBackend";
+import { defaultBindings, manifest, params } from "../config";
+import { HeadlessRenderer } from "../Graphics/HeadlessRenderer";
+import { MatchScene } from "../Scenes";
+
+const loadAssets = async () => {
+  const sound = new ArrayBuffer(8);
+  const assets = new AssetManager({
+    manifest,
+    fetcher: memoryFetcher({
+      "assets/tank.json": JSON.parse(tankAtlas),
+      "assets/tank.png": {},
+      "assets/fire.wav": sound,
+      "assets/explosion.wav": sound,
+      "assets/music.wav": sound,
+    }),
+  });
+  await assets.load();
+  return assets;
+};
+
+const copyParams = () => ({ ...params, wind: params.wind.clone() });
+
+const createEngine = (assets: AssetManager, settings = copyParams()) => {
+  const engine = new GameEngine({
+    renderer: new HeadlessRenderer(),
+    dimensions: new Vec2(800, 600),
+    dpr: 1,
+    seed: 1,
+    assets,
+    audio: new MemoryAudioBackend(),
+  });
+  engine.inputManager.loadBindings(defaultBindings);
+  engine.physics.environment = settings;
+  engine.replay.settings = settings;
+  engine.replay.createScene = () => new MatchScene();
+  return engine;
+};
+
+const space = { key: " ", code: "Space", preventDefault() {} } as KeyboardEvent;
+
+/**
+ * Records a match where the player charges and fires a shot.
+ */
+const recordShot = (engine: GameEngine) => {
+  engine.replay.record(42);
+  engine.step(10);
+  engine.inputManager.onKeyDown(space);
+  engine.step(30);
+  engine.inputManager.onKeyUp(space);
+  engine.step(120);
+  return engine.replay.stop()!;
+};
+
+describe("ReplayManager", () => {
+  it("replays a recording to the same state", async () => {
+    const assets = await loadAssets();
+    const recorder = createEngine(assets);
+    const recording = recordShot(recorder);
+
+    expect(ReplayManager.verify(recording, () => createEngine(assets))).toBe(
+      true
+    );
+
+    const player = createEngine(assets);
+    player.replay.play(recording);
+    player.replay.seek(player.replay.length);
+    expect(player.replay.captureState()).toEqual(
+      recorder.replay.captureState()
+    );
+  });
+
+  it("replays with the recorded settings rather than the live ones", async () => {
+    const assets = await loadAssets();
+    const recorder = createEngine(assets);
+    const recording = recordShot(recorder);
+
+    const settings = copyParams();
+    settings.gravity = 2;
+    settings.wind = new Vec2(3, 0);
+    settings["ground height"] = 200;
+    const player = createEngine(assets, settings);
+    player.replay.play(recording);
+    player.replay.seek(player.replay.length);
+
+    expect(settings.gravity).toBe(params.gravity);
+    expect(settings.wind).toEqual(params.wind);
+    expect(settings["ground height"]).toBe(params["ground height"]);
+    expect(player.replay.captureState()).toEqual(
+      recorder.replay.captureState()
+    );
+  });
+
+  it("doesn't leave replayed keys held once the replay ends", async () => {
+    const assets = await loadAssets();
+    const recorder = createEngine(assets);
+    recorder.replay.record(42);
+    recorder.inputManager.onKeyDown(space);
+    recorder.step(5);
+    const recording = recorder.replay.stop()!;
+
+    const engine = createEngine(assets);
+    engine.replay.play(recording);
+    engine.step(5);
+    expect(engine.inputManager.isActionDown("fire")).toBe(true);
+
+    engine.step();
+    expect(engine.replay.mode).toBe(ReplayMode.IDLE);
+    expect(engine.inputManager.isCodeDown("Space")).toBe(false);
+    expect(engine.inputManager.wasReleased("fire")).toBe(true);
+  });
+});
@@ -0,0 +1,376 @@
+import { Vec2 } from "wtc-math";
+
+import type { GameEngine } from "./GameEngine";
+import type { GameObjectData } from "./GameObject";
+import { objectRegistry } from "./GameObjectRegistry";
+import type { ActionBindings, InputFrame } from "./InputManager";
+import type { Scene } from "./Scene";
+import { Random } from "../Helpers/Random";
+
+/**
+ * What the replay manager is doing.
+ */
+export enum ReplayMode {
+  /** The engine runs on live input. */
+  IDLE = "idle",
+  /** The engine runs on live input, and every tick's input is recorded. */
+  RECORDING = "recording",
+  /** The engine runs on recorded input. */
+  REPLAYING = "replaying",
+}
+
+/**
+ * A recorded session: everything needed to play it out again. Serializable to JSON.
+ */
+export type Recording = {
+  /** The version of the recording format. */
+  version: number;
+  /** The seed of the engine's random number generator. */
+  seed: number;
+  /** The duration of a tick in seconds. */
+  fixedDeltaTime: number;
+  /** The action bindings the session was played with. */
+  bindings: ActionBindings;
+  /** The settings the session started with, such as the tweakpane params. */
+  settings: Record<string, unknown>;
+  /** The raw input state of each tick. */
+  frames: InputFrame[];
+};
+
+/**
+ * The state of a game object, compared to check that replays match.
+ */
+export type ObjectState = {
+  /** The id of the object. */
+  id: string;
+  /** The class of the object. */
+  type: string;
+  /** The position in world space. */
+  position: [number, number];
+  /** The rotation in radians. */
+  rotation: number;
+  /** The velocity of its rigid body, if it has one. */
+  velocity: [number, number] | null;
+  /**
+   * The saved state of the object, without its children, such as the craters of
+   * the ground or the aim and power of a tank. Null if its class isn't registered.
+   */
+  data: GameObjectData | null;
+};
+
+/** The version of the recording format written by `ReplayManager`. */
+export const RECORDING_VERSION = 1;
+
+/**
+ * Copies settings into a form that can be saved as JSON.
+ * Vectors become `[x, y]` pairs, and anything but numbers, strings, booleans and vectors is skipped.
+ * @param settings The live settings.
+ * @returns The copy.
+ */
+function copySettings(
+  settings: Record<string, unknown>
+): Record<string, unknown> {
+  const copy: Record<string, unknown> = {};
+  Object.entries(settings).forEach(([key, value]) => {
+    if (value instanceof Vec2) copy[key] = [value.x, value.y];
+    else if (["number", "string", "boolean"].includes(typeof value))
+      copy[key] = value;
+  });
+  return copy;
+}
+
+/**
+ * Writes settings saved with `copySettings` back into the live settings.
+ * Vectors are updated in place, so anything holding on to them sees the change.
+ * @param settings The live settings.
+ * @param saved The saved settings.
+ */
+function restoreSettings(
+  settings: Record<string, unknown>,
+  saved: Record<string, unknown>
+) {
+  Object.entries(saved).forEach(([key, value]) => {
+    const current = settings[key];
+    if (current instanceof Vec2 && Array.isArray(value)) {
+      current.resetToVector(new Vec2(value[0], value[1]));
+    } else if (!(current instanceof Vec2)) {
+      settings[key] = value;
+    }
+  });
+}
+
+/**
+ * Checks if a value looks like a recording of a supported version.
+ * @param value The value to check.
+ * @returns `true` if the value is a Recording.
+ */
+function isRecording(value: unknown): value is Recording {
+  if (typeof value !== "object" || value === null) return false;
+  const recording = value as Record<string, unknown>;
+  return (
+    recording.version === RECORDING_VERSION &&
+    typeof recording.seed === "number" &&
+    typeof recording.fixedDeltaTime === "number" &&
+    typeof recording.bindings === "object" &&
+    typeof recording.settings === "object" &&
+    Array.isArray(recording.frames)
+  );
+}
+
+/**
+ * Records the input of every tick, along with the seed of the engine's random
+ * number generator, and feeds recordings back in place of the live input, so a
+ * session plays out again exactly as it did.
+ *
+ * Recording and replaying both restart the game first: the engine is seeded, the
+ * camera and tick count are reset, and the scene stack is replaced with a scene
+ * from `createScene`. Game code must draw its random numbers from `engine.random`
+ * for replays to match.
+ */
+export class ReplayManager {
+  /** The engine the manager belongs to. */
+  engine: GameEngine;
+  /** What the manager is doing. */
+  mode: ReplayMode = ReplayMode.IDLE;
+  /**
+   * Creates the scene recordings and replays start from. Without it, they start
+   * from the scenes as they are, which only replays correctly in a fresh engine.
+   */
+  createScene: (() => Scene) | null = null;
+  /**
+   * Live settings the simulation reads, such as the tweakpane params. They are
+   * saved in recordings and restored before replays.
+   */
+  settings: Record<string, unknown> | null = null;
+
+  /**
+   * The recording being made or played.
+   * @private
+   */
+  #recording: Recording | null = null;
+
+  /**
+   * The number of ticks recorded or replayed so far.
+   * @private
+   */
+  #tick: number = 0;
+
+  /**
+   * Creates a new ReplayManager.
+   * @param {GameEngine} engine - The engine the manager belongs to.
+   */
+  constructor(engine: GameEngine) {
+    this.engine = engine;
+  }
+
+  /**
+   * Gets the recording being made or played, or the last one if the manager is idle.
+   * @returns {Recording | null} The recording, or null if there has been none.
+   */
+  get recording(): Recording | null {
+    return this.#recording;
+  }
+
+  /**
+   * Gets the number of ticks recorded or replayed so far.
+   * @returns {number} The tick.
+   */
+  get tick(): number {
+    return this.#tick;
+  }
+
+  /**
+   * Gets the number of ticks in the current recording.
+   * @returns {number} The number of frames, or 0 if there is no recording.
+   */
+  get length(): number {
+    return this.#recording?.frames.length ?? 0;
+  }
+
+  /**
+   * Restarts the game and records every tick from now on.
+   * @param {number} seed - The seed for the engine's random number generator. Defaults to a random seed.
+   */
+  record(seed: number = Random.randomSeed()) {
+    const { engine } = this;
+    this.#recording = {
+      version: RECORDING_VERSION,
+      seed,
+      fixedDeltaTime: engine.fixedDeltaTime,
+      bindings: engine.inputManager.toJSON(),
+      settings: this.settings ? copySettings(this.settings) : {},
+      frames: [],
+    };
+    this.#restart(seed);
+    this.#setMode(ReplayMode.RECORDING);
+  }
+
+  /**
+   * Restarts the game and plays a recording in place of the live input.
+   * Once the recording runs out, the game carries on with the live input.
+   * @param {Recording | string} recording - The recording, or its JSON.
+   * @throws {Error} If the recording is invalid or from another version, or was made at another tick rate.
+   */
+  play(recording: Recording | string) {
+    const parsed: unknown =
+      typeof recording === "string" ? JSON.parse(recording) : recording;
+    if (!isRecording(parsed)) throw new Error("Invalid recording.");
+    if (parsed.fixedDeltaTime !== this.engine.fixedDeltaTime)
+      throw new Error(
+        `The recording was made at ${
+          1 / parsed.fixedDeltaTime
+        } ticks per second.`
+      );
+
+    this.#recording = parsed;
+    this.engine.inputManager.loadBindings(parsed.bindings);
+    if (this.settings) restoreSettings(this.settings, parsed.settings);
+    this.#restart(parsed.seed);
+    this.#setMode(ReplayMode.REPLAYING);
+  }
+
+  /**
+   * Jumps to a tick of the replay, restarting and fast-forwarding without drawing.
+   * The audio is muted while fast-forwarding.
+   * @param {number} tick - The tick to jump to, clamped to the recording.
+   * @throws {Error} If nothing is being replayed.
+   */
+  seek(tick: number) {
+    const recording = this.#recording;
+    if (this.mode !== ReplayMode.REPLAYING || !recording)
+      throw new Error("Can only seek while replaying.");
+
+    const target = Math.max(0, Math.min(Math.round(tick), this.length));
+    if (target < this.#tick) this.#restart(recording.seed);
+    const { audio } = this.engine;
+    const muted = audio.muted;
+    audio.muted = true;
+    try {
+      while (this.#tick < target)
+        this.engine.update(this.engine.fixedDeltaTime);
+    } finally {
+      audio.muted = muted;
+    }
+  }
+
+  /**
+   * Stops recording or replaying. The game carries on with the live input.
+   * @returns {Recording | null} The recording that was made or played, or null if there was none.
+   */
+  stop(): Recording | null {
+    this.#setMode(ReplayMode.IDLE);
+    return this.#recording;
+  }
+
+  /**
+   * Exports the current recording as JSON.
+   * @returns {string} The JSON of the recording.
+   * @throws {Error} If there is no recording.
+   */
+  export(): string {
+    if (!this.#recording) throw new Error("There is no recording to export.");
+    return JSON.stringify(this.#recording);
+  }
+
+  /**
+   * Takes the input snapshot for a tick: from the recording while replaying,
+   * otherwise from the live input, recording it while recording.
+   * Called by the engine at the start of every tick.
+   */
+  snapshot() {
+    const input = this.engine.inputManager;
+    const recording = this.#recording;
+
+    if (this.mode === ReplayMode.REPLAYING && recording) {
+      const frame = recording.frames[this.#tick];
+      if (frame) {
+        input.snapshot(frame);
+        this.#tick++;
+        return;
+      }
+      this.#setMode(ReplayMode.IDLE);
+    }
+
+    const frame = input.snapshot();
+    if (this.mode === ReplayMode.RECORDING && recording) {
+      recording.frames.push(frame);
+      this.#tick++;
+    }
+  }
+
+  /**
+   * Gets the state of every game object in the active scene, in scene order.
+   * @returns {ObjectState[]} The state of each object.
+   */
+  captureState(): ObjectState[] {
+    const states: ObjectState[] = [];
+    this.engine.gameObjects.forEach((root) =>
+      root.traverse((obj) => {
+        const velocity = obj.body?.velocity;
+        states.push({
+          id: obj.id,
+          type: obj.constructor.name,
+          position: [obj.worldPosition.x, obj.worldPosition.y],
+          rotation: obj.rotation,
+          velocity: velocity ? [velocity.x, velocity.y] : null,
+          data: objectRegistry.nameOf(obj)
+            ? { ...obj.toJSON(), children: [] }
+            : null,
+        });
+      })
+    );
+    return states;
+  }
+
+  /**
+   * Plays a recording through twice in fresh engines, without drawing, and checks
+   * that both end with identical object states.
+   * @param {Recording | string} recording - The recording, or its JSON.
+   * @param {() => GameEngine} createEngine - Creates an engine set up like the one the recording was made in.
+   * @returns {boolean} `true` if both replays end the same way.
+   */
+  static verify(
+    recording: Recording | string,
+    createEngine: () => GameEngine
+  ): boolean {
+    const run = () => {
+      const engine = createEngine();
+      try {
+        engine.replay.play(recording);
+        engine.replay.seek(engine.replay.length);
+        return JSON.stringify(engine.replay.captureState());
+      } finally {
+        engine.dispose();
+      }
+    };
+    return run() === run();
+  }
+
+  /**
+   * Seeds the engine and brings the game back to its starting state, silencing every sound
+   * and cancelling every tween.
+   */
+  #restart(seed: number) {
+    const { engine } = this;
+    engine.reseed(seed);
+    engine.ticks = 0;
+    engine.time = 0;
+    engine.debug.select(null);
+    engine.camera.reset();
+    engine.audio.stopAll();
+    engine.tweens.cancelAll();
+    engine.collisions.reset();
+    if (this.createScene) engine.scenes.reset(this.createScene());
+    engine.inputManager.resetActions();
+    this.#tick = 0;
+  }
+
+  /**
+   * Changes the mode, emitting `replayModeChanged` if it changed.
+   */
+  #setMode(mode: ReplayMode) {
+    if (this.mode === mode) return;
+    this.mode = mode;
+    this.engine.events.emit("replayModeChanged", { mode });
+  }
+}
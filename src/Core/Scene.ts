@@ -0,0 +1,168 @@
+import type { GameEngine } from "./GameEngine";
+import type { GameObject } from "./GameObject";
+import { ObjectIndex } from "./ObjectIndex";
+import type { RenderLayers } from "./RenderLayers";
+import { StaticLayerCache } from "../Graphics/StaticLayerCache";
+import { SpatialHash } from "../Physics/SpatialHash";
+
+/**
+ * Type definition for the arguments required to create a Scene.
+ */
+export type SceneArguments = {
+  /** A unique identifier for the scene. */
+  id: string;
+  /** Whether the scene below keeps drawing underneath this one. Defaults to false. */
+  overlay?: boolean;
+};
+
+/**
+ * Interface representing the basic properties of a scene.
+ */
+export interface IScene {
+  /** A unique identifier for the scene. */
+  id: string;
+  /** The game objects belonging to the scene. */
+  gameObjects: GameObject[];
+  /** Whether the scene below keeps drawing underneath this one. */
+  overlay: boolean;
+  /** Lookup tables for the scene's game objects. */
+  index: ObjectIndex;
+  /** The broadphase grid of the scene's game objects, by bounds. */
+  spatialHash: SpatialHash<GameObject>;
+  /** The cached images of the scene's static objects, by render layer. */
+  staticLayers: StaticLayerCache;
+}
+
+/**
+ * A self-contained set of game objects, such as a title screen, a match or a pause menu.
+ * Scenes are managed by the engine's SceneManager, which calls the lifecycle hooks
+ * as scenes are pushed, popped and replaced.
+ * Subclasses usually build their game objects in `onEnter` with `engine.addObject`.
+ * @implements {IScene}
+ */
+export class Scene implements IScene {
+  /** @inheritdoc */
+  id: string;
+  /** @inheritdoc */
+  overlay: boolean;
+  /** @inheritdoc */
+  index: ObjectIndex = new ObjectIndex();
+  /** @inheritdoc */
+  spatialHash: SpatialHash<GameObject> = new SpatialHash();
+  /** @inheritdoc */
+  staticLayers: StaticLayerCache = new StaticLayerCache();
+
+  /**
+   * The root game objects, in the order they were added.
+   * @private
+   */
+  #gameObjects: GameObject[] = [];
+
+  /**
+   * The root game objects sorted for drawing, until something changes.
+   * @private
+   */
+  #drawOrder: GameObject[] | null = null;
+
+  /**
+   * The version of the render layers the draw order was sorted with.
+   * @private
+   */
+  #layersVersion: number = -1;
+
+  /**
+   * Creates a new Scene instance.
+   * @param {SceneArguments} args - The arguments for the scene.
+   */
+  constructor({ id, overlay = false }: SceneArguments) {
+    this.id = id;
+    this.overlay = overlay;
+  }
+
+  /**
+   * Gets/Sets the root game objects, in the order they were added.
+   * Setting them, or swapping their order, invalidates the draw order.
+   * @param {GameObject[]} objects - The new list of game objects.
+   */
+  get gameObjects(): GameObject[] {
+    return this.#gameObjects;
+  }
+  set gameObjects(objects) {
+    this.#gameObjects = objects;
+    this.invalidateDrawOrder();
+  }
+
+  /**
+   * Gets the root game objects in the order they're drawn: by layer, then by zIndex,
+   * then in the order they were added. The sort is only run again after
+   * `invalidateDrawOrder`, or once layers have been added or removed.
+   * @param {RenderLayers} layers - The render layers of the engine.
+   * @returns {GameObject[]} The root game objects, in draw order.
+   */
+  drawOrder(layers: RenderLayers): GameObject[] {
+    if (this.#drawOrder && this.#layersVersion === layers.version)
+      return this.#drawOrder;
+
+    const layerIndex = new Map<GameObject, number>();
+    this.#gameObjects.forEach((obj) =>
+      layerIndex.set(obj, layers.indexOf(obj.layer))
+    );
+    // Array.prototype.sort is stable, so ties keep the order they were added in
+    this.#drawOrder = [...this.#gameObjects].sort(
+      (a, b) => layerIndex.get(a)! - layerIndex.get(b)! || a.zIndex - b.zIndex
+    );
+    this.#layersVersion = layers.version;
+    return this.#drawOrder;
+  }
+
+  /**
+   * Marks the draw order as out of date, so it's sorted again before the next draw.
+   * The engine and game objects call it when roots are added, removed, or change
+   * layer or zIndex; call it after reordering `gameObjects` in place.
+   */
+  invalidateDrawOrder() {
+    this.#drawOrder = null;
+  }
+
+  /**
+   * Called when the scene becomes the active scene.
+   * @param {GameEngine} engine - The game engine instance.
+   */
+  onEnter(_engine: GameEngine) {
+    // Do nothing, this can be overridden;
+  }
+
+  /**
+   * Called when the scene is removed. Its game objects are cleared afterwards.
+   * @param {GameEngine} engine - The game engine instance.
+   */
+  onExit(_engine: GameEngine) {
+    // Do nothing, this can be overridden;
+  }
+
+  /**
+   * Called when another scene is pushed on top of this one.
+   * @param {GameEngine} engine - The game engine instance.
+   */
+  onPause(_engine: GameEngine) {
+    // Do nothing, this can be overridden;
+  }
+
+  /**
+   * Called when this scene becomes active again after the scene above it was popped.
+   * @param {GameEngine} engine - The game engine instance.
+   */
+  onResume(_engine: GameEngine) {
+    // Do nothing, this can be overridden;
+  }
+
+  /**
+   * Updates scene-level logic. Called every tick while the scene is active,
+   * before its game objects are updated.
+   * @param {GameEngine} engine - The game engine instance.
+   * @param {number} deltaTime - The time elapsed since the last tick.
+   */
+  update(_engine: GameEngine, _deltaTime: number) {
+    // Do nothing, this can be overridden;
+  }
+}
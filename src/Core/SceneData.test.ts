@@ -0,0 +1,168 @@
+import { Vec2 } from "wtc-math";
+import { describe, expect, it } from "vitest";
+
+import tankAtlas from "../../public/assets/tank.json?raw";
+import { memoryFetcher } from "./AssetFetcher";
+import { AssetManager } from "./AssetManager";
+import { GameEngine } from "./GameEngine";
+import { migrateSceneData, SCENE_VERSION, type SceneData } from "./SceneData";
+import { MemoryAudioBackend } from "../Audio/MemoryAudioBackend";
+import { manifest } from "../config";
+import { Ground, Player } from "../GameObjects";
+import { HeadlessRenderer } from "../Graphics/HeadlessRenderer";
+import { MatchScene } from "../Scenes";
+
+const loadAssets = async () => {
+  const sound = new ArrayBuffer(8);
+  const assets = new AssetManager({
+    manifest,
+    fetcher: memoryFetcher({
+      "assets/tank.json": JSON.parse(tankAtlas),
+      "assets/tank.png": {},
+      "assets/fire.wav": sound,
+      "assets/explosion.wav": sound,
+      "assets/music.wav": sound,
+    }),
+  });
+  await assets.load();
+  return assets;
+};
+
+const createEngine = (assets: AssetManager) =>
+  new GameEngine({
+    renderer: new HeadlessRenderer(),
+    dimensions: new Vec2(800, 600),
+    dpr: 1,
+    seed: 1,
+    assets,
+    audio: new MemoryAudioBackend(),
+  });
+
+/**
+ * Plays a bit of a match, then changes the player and the ground, so there's
+ * more to save than what they're built with.
+ */
+const playMatch = (engine: GameEngine) => {
+  engine.scenes.reset(new MatchScene());
+  engine.step(60);
+  const player = engine.getObjectById("player1") as Player;
+  player.cannonAngle = 0.7;
+  player.power = 0.4;
+  const ground = engine.getObjectById("Ground") as Ground;
+  ground.carve(new Vec2(400, ground.heightAt(400)!), 40);
+  // Built static, so whether it's static has to be saved to stay dynamic
+  ground.isStatic = false;
+};
+
+describe("Saving and loading scenes", () => {
+  it("loads a saved match back to the same state", async () => {
+    const assets = await loadAssets();
+    const engine = createEngine(assets);
+    playMatch(engine);
+    const save = engine.serializeScene();
+    expect(save.objects.map((obj) => obj.type)).toEqual([
+      "Background",
+      "Ground",
+      "Player",
+    ]);
+
+    const loaded = createEngine(assets);
+    loaded.scenes.reset(new MatchScene({ save: JSON.stringify(save) }));
+
+    expect(loaded.serializeScene()).toEqual(save);
+    const ground = (engine: GameEngine) =>
+      (engine.getObjectById("Ground") as Ground).mask;
+    expect(ground(loaded)).toEqual(ground(engine));
+    expect(loaded.camera.target).toBe(loaded.getObjectById("player1"));
+    expect(loaded.getObjectById("mainBackground")?.isStatic).toBe(true);
+    expect(loaded.getObjectById("Ground")?.isStatic).toBe(false);
+  });
+
+  it("rejects saved objects with invalid data, leaving the scene as it was", async () => {
+    const assets = await loadAssets();
+    const engine = createEngine(assets);
+    playMatch(engine);
+    const save = engine.serializeScene();
+    const breakPlayer = (field: string, value: unknown) => {
+      const broken: SceneData = JSON.parse(JSON.stringify(save));
+      const player = broken.objects.find((obj) => obj.id === "player1")!;
+      (player as Record<string, unknown>)[field] = value;
+      return broken;
+    };
+
+    expect(() => engine.loadScene(breakPlayer("speed", "fast"))).toThrow(
+      'The saved data of the GameObject "player1" isn\'t valid Player data.'
+    );
+    expect(() => engine.loadScene(breakPlayer("position", [0]))).toThrow(
+      'The saved data of the GameObject "player1" isn\'t valid Player data.'
+    );
+    expect(() => engine.loadScene(breakPlayer("type", "Tank"))).toThrow(
+      'The GameObject type "Tank" isn\'t registered.'
+    );
+    expect(engine.serializeScene()).toEqual(save);
+  });
+
+  it("migrates saves from version 1", async () => {
+    const assets = await loadAssets();
+    const engine = createEngine(assets);
+    playMatch(engine);
+    const save = engine.serializeScene();
+    // Version 1 had a single "default" layer, and no zIndex or isStatic
+    const v1 = {
+      ...save,
+      version: 1,
+      objects: save.objects.map(
+        ({ zIndex: _zIndex, isStatic: _isStatic, ...obj }) => ({
+          ...obj,
+          layer: "default",
+        })
+      ),
+    };
+
+    const migrated = migrateSceneData(JSON.parse(JSON.stringify(v1)));
+
+    expect(migrated.version).toBe(SCENE_VERSION);
+    expect(
+      migrated.objects.map((obj) => [obj.id, obj.layer, obj.zIndex])
+    ).toEqual([
+      ["mainBackground", "background", 0],
+      ["Ground", "world", 0],
+      ["player1", "world", 0],
+    ]);
+    const loaded = createEngine(assets);
+    loaded.scenes.reset(new MatchScene({ save: migrated }));
+    expect(loaded.getObjectById("player1")?.layer).toBe("world");
+  });
+
+  it("migrates saves from version 2 as not static", async () => {
+    const assets = await loadAssets();
+    const engine = createEngine(assets);
+    engine.scenes.reset(new MatchScene());
+    const save = engine.serializeScene();
+    const v2 = {
+      ...save,
+      version: 2,
+      objects: save.objects.map(({ isStatic: _isStatic, ...obj }) => obj),
+    };
+
+    const migrated = migrateSceneData(JSON.parse(JSON.stringify(v2)));
+
+    expect(migrated.objects.map((obj) => obj.isStatic)).toEqual([
+      false,
+      false,
+      false,
+    ]);
+    engine.loadScene(migrated);
+    expect(engine.getObjectById("mainBackground")?.isStatic).toBe(false);
+  });
+
+  it("rejects saves from newer versions", () => {
+    const save: Partial<SceneData> = { version: SCENE_VERSION + 1 };
+
+    expect(() => migrateSceneData(save)).toThrow(
+      `The scene was saved by a newer version (${
+        SCENE_VERSION + 1
+      }) of the game.`
+    );
+  });
+});
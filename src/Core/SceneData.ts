@@ -0,0 +1,159 @@
+import type { GameObjectData } from "./GameObject";
+import { RenderLayerName } from "./RenderLayers";
+
+/**
+ * A saved scene: its game objects and the camera. Serializable to JSON.
+ */
+export type SceneData = {
+  /** The version of the save format. */
+  version: number;
+  /** The id of the scene that was saved. */
+  scene: string;
+  /** The state of the camera. */
+  camera: {
+    /** The world position at the center of the view. */
+    position: [number, number];
+    /** The zoom factor. */
+    zoom: number;
+    /** The rotation of the camera in radians. */
+    rotation: number;
+    /** The id of the game object being followed, if any. */
+    target: string | null;
+  };
+  /** The root game objects of registered types, with their children. */
+  objects: GameObjectData[];
+};
+
+/**
+ * Upgrades a save from one version of the format to the next.
+ * It's given the parsed JSON of the older version, and returns the newer one.
+ */
+export type SceneMigration = (
+  data: Record<string, unknown>
+) => Record<string, unknown>;
+
+/** The version of the save format written by `GameEngine.serializeScene`. */
+export const SCENE_VERSION = 3;
+
+/**
+ * The migrations, by the version they upgrade from.
+ */
+const migrations: Map<number, SceneMigration> = new Map();
+
+/**
+ * Adds a migration that upgrades saves of a version to the next one.
+ * When the save format changes, bump `SCENE_VERSION` and add a migration from
+ * the previous version, so older saves still load.
+ * @example
+ * // Version 4 renamed the "Ground" type to "Terrain"
+ * addSceneMigration(3, (data) => ({
+ *   ...data,
+ *   objects: (data.objects as GameObjectData[]).map((o) =>
+ *     o.type === "Ground" ? { ...o, type: "Terrain" } : o
+ *   ),
+ * }));
+ * @param {number} version - The version the migration upgrades from.
+ * @param {SceneMigration} migrate - The migration.
+ */
+export function addSceneMigration(version: number, migrate: SceneMigration) {
+  migrations.set(version, migrate);
+}
+
+/**
+ * Checks if a value looks like a save of the current version.
+ * @param value The value to check.
+ * @returns `true` if the value is SceneData.
+ */
+function isSceneData(value: unknown): value is SceneData {
+  if (typeof value !== "object" || value === null) return false;
+  const data = value as Record<string, unknown>;
+  return (
+    data.version === SCENE_VERSION &&
+    typeof data.scene === "string" &&
+    typeof data.camera === "object" &&
+    data.camera !== null &&
+    Array.isArray(data.objects)
+  );
+}
+
+/**
+ * Upgrades a save to the current version of the format, one version at a time.
+ * @param {unknown} value - The parsed JSON of the save.
+ * @returns {SceneData} The save, in the current version.
+ * @throws {Error} If the save is invalid, from a newer version, or there is no migration from its version.
+ */
+export function migrateSceneData(value: unknown): SceneData {
+  if (typeof value !== "object" || value === null)
+    throw new Error("Invalid scene data.");
+  let data = value as Record<string, unknown>;
+  if (typeof data.version !== "number") throw new Error("Invalid scene data.");
+  if (data.version > SCENE_VERSION)
+    throw new Error(
+      `The scene was saved by a newer version (${data.version}) of the game.`
+    );
+
+  while ((data.version as number) < SCENE_VERSION) {
+    const version = data.version as number;
+    const migrate = migrations.get(version);
+    if (!migrate)
+      throw new Error(`There is no migration from scene version ${version}.`);
+    data = { ...migrate(data), version: version + 1 };
+  }
+  if (!isSceneData(data)) throw new Error("Invalid scene data.");
+  return data;
+}
+
+/**
+ * Moves a saved object of version 1, and its children, to the render layers of version 2.
+ * @param value The saved object.
+ * @returns The object in the background or world layer, with a zIndex.
+ */
+function addRenderLayers(value: unknown): unknown {
+  if (typeof value !== "object" || value === null) return value;
+  const obj = value as Record<string, unknown>;
+  const defaultLayer =
+    obj.type === "Background"
+      ? RenderLayerName.BACKGROUND
+      : RenderLayerName.WORLD;
+  return {
+    ...obj,
+    layer: obj.layer === "default" ? defaultLayer : obj.layer,
+    zIndex: 0,
+    children: Array.isArray(obj.children)
+      ? obj.children.map(addRenderLayers)
+      : obj.children,
+  };
+}
+
+// Version 2 replaced the "default" layer with render layers, and added zIndex
+addSceneMigration(1, (data) => ({
+  ...data,
+  objects: Array.isArray(data.objects)
+    ? data.objects.map(addRenderLayers)
+    : data.objects,
+}));
+
+/**
+ * Marks a saved object of version 2, and its children, as not static.
+ * @param value The saved object.
+ * @returns The object with `isStatic` set to false.
+ */
+function addIsStatic(value: unknown): unknown {
+  if (typeof value !== "object" || value === null) return value;
+  const obj = value as Record<string, unknown>;
+  return {
+    ...obj,
+    isStatic: false,
+    children: Array.isArray(obj.children)
+      ? obj.children.map(addIsStatic)
+      : obj.children,
+  };
+}
+
+// Version 3 saved whether objects are static
+addSceneMigration(2, (data) => ({
+  ...data,
+  objects: Array.isArray(data.objects)
+    ? data.objects.map(addIsStatic)
+    : data.objects,
+}));
@@ -0,0 +1,224 @@
+import type { GameEngine } from "./GameEngine";
+import type { Scene } from "./Scene";
+import type { RenderContext } from "../Graphics/Renderer";
+
+/**
+ * Enum representing the visual style of a scene transition.
+ */
+export enum TransitionType {
+  /** The screen fades to a color, then fades back in on the new scene */
+  FADE = "fade",
+  /** A band of color sweeps across the screen, revealing the new scene behind it */
+  WIPE = "wipe",
+}
+
+/**
+ * Type definition for a timed transition between scenes.
+ */
+export type SceneTransition = {
+  /** The visual style of the transition. */
+  type: TransitionType;
+  /** The total duration of the transition in seconds. */
+  duration: number;
+  /** The color the screen is covered with. Defaults to black. */
+  color?: string;
+};
+
+/**
+ * A transition in progress.
+ */
+type ActiveTransition = SceneTransition & {
+  /** The time elapsed since the transition started in seconds. */
+  elapsed: number;
+  /** The change to the scene stack, applied when the screen is fully covered. */
+  change: (() => void) | null;
+};
+
+/**
+ * Manages a stack of scenes. The scene on top of the stack is the active one:
+ * it receives updates and owns the engine's `gameObjects`.
+ * Scenes underneath keep drawing for as long as every scene above them is an overlay.
+ *
+ * Stack changes can be given a transition. The screen is covered first, then
+ * the change is applied, then the new scene is revealed.
+ */
+export class SceneManager {
+  /** The engine the scenes belong to. */
+  engine: GameEngine;
+  /** The stack of scenes, the last one being the active scene. */
+  stack: Scene[] = [];
+  /**
+   * The transition currently running, if any.
+   * @private
+   */
+  #transition: ActiveTransition | null = null;
+
+  /**
+   * Creates a new SceneManager instance.
+   * @param {GameEngine} engine - The engine the scenes belong to.
+   * @param {Scene} initialScene - The scene at the bottom of the stack.
+   */
+  constructor(engine: GameEngine, initialScene: Scene) {
+    this.engine = engine;
+    this.stack.push(initialScene);
+  }
+
+  /**
+   * Gets the active scene, at the top of the stack.
+   * @returns {Scene} The active scene.
+   */
+  get current(): Scene {
+    return this.stack[this.stack.length - 1];
+  }
+
+  /**
+   * Gets the scenes that should be drawn, from the bottom up.
+   * @returns {Scene[]} The visible scenes.
+   */
+  get visibleScenes(): Scene[] {
+    let i = this.stack.length - 1;
+    while (i > 0 && this.stack[i].overlay) i--;
+    return this.stack.slice(i);
+  }
+
+  /**
+   * Whether a transition is currently running.
+   * @returns {boolean} True if a transition is running.
+   */
+  get transitioning(): boolean {
+    return this.#transition !== null;
+  }
+
+  /**
+   * Pushes a scene on top of the stack, pausing the current one.
+   * @param {Scene} scene - The scene to push.
+   * @param {SceneTransition} transition - An optional transition.
+   */
+  push(scene: Scene, transition?: SceneTransition) {
+    this.#change(() => {
+      this.current.onPause(this.engine);
+      this.stack.push(scene);
+      this.#entered(scene);
+    }, transition);
+  }
+
+  /**
+   * Removes the active scene and resumes the one underneath it.
+   * @param {SceneTransition} transition - An optional transition.
+   */
+  pop(transition?: SceneTransition) {
+    if (this.stack.length <= 1) throw new Error("Cannot pop the last scene.");
+    this.#change(() => {
+      this.#exitCurrent();
+      this.current.onResume(this.engine);
+      this.engine.events.emit("sceneChanged", { scene: this.current });
+    }, transition);
+  }
+
+  /**
+   * Replaces the active scene with another one.
+   * @param {Scene} scene - The scene to switch to.
+   * @param {SceneTransition} transition - An optional transition.
+   */
+  replace(scene: Scene, transition?: SceneTransition) {
+    this.#change(() => {
+      this.#exitCurrent();
+      this.stack.push(scene);
+      this.#entered(scene);
+    }, transition);
+  }
+
+  /**
+   * Exits every scene on the stack, from the top down, and starts afresh with a scene.
+   * A running transition is dropped without applying its change.
+   * @param {Scene} scene - The scene to start with.
+   */
+  reset(scene: Scene) {
+    this.#transition = null;
+    while (this.stack.length > 0) this.#exitCurrent();
+    this.stack.push(scene);
+    this.#entered(scene);
+  }
+
+  /**
+   * Advances the running transition, applying its change halfway through.
+   * @param {number} deltaTime - The time elapsed since the last tick.
+   */
+  update(deltaTime: number) {
+    const transition = this.#transition;
+    if (!transition) return;
+
+    transition.elapsed += deltaTime;
+    if (transition.elapsed >= transition.duration / 2) this.#applyChange();
+    if (transition.elapsed >= transition.duration) this.#transition = null;
+  }
+
+  /**
+   * Draws the running transition over the whole screen.
+   * @param {RenderContext} ctx - The context to draw to, in screen space.
+   */
+  drawTransition(ctx: RenderContext) {
+    const transition = this.#transition;
+    if (!transition) return;
+
+    const { x: width, y: height } = this.engine.dims;
+    const progress = Math.min(transition.elapsed / transition.duration, 1);
+
+    ctx.save();
+    ctx.fillStyle = transition.color ?? "black";
+    if (transition.type === TransitionType.FADE) {
+      ctx.globalAlpha = 1 - Math.abs(progress * 2 - 1);
+      ctx.fillRect(0, 0, width, height);
+    } else {
+      const start = progress < 0.5 ? 0 : (progress - 0.5) * 2 * width;
+      const end = progress < 0.5 ? progress * 2 * width : width;
+      ctx.fillRect(start, 0, end - start, height);
+    }
+    ctx.restore();
+  }
+
+  /**
+   * Applies a stack change now, or schedules it behind a transition.
+   * A transition already running is skipped to its change first.
+   * @param {() => void} change - The change to the stack.
+   * @param {SceneTransition} transition - An optional transition.
+   */
+  #change(change: () => void, transition?: SceneTransition) {
+    this.#applyChange();
+    this.#transition = null;
+
+    if (!transition || transition.duration <= 0) {
+      change();
+      return;
+    }
+    this.#transition = { ...transition, elapsed: 0, change };
+  }
+
+  /**
+   * Applies the pending change of the running transition, if it has not been applied yet.
+   */
+  #applyChange() {
+    const change = this.#transition?.change;
+    if (!change) return;
+    this.#transition!.change = null;
+    change();
+  }
+
+  /**
+   * Exits the active scene, clears its game objects and takes it off the stack.
+   */
+  #exitCurrent() {
+    this.current.onExit(this.engine);
+    this.engine.clearScene();
+    this.stack.pop();
+  }
+
+  /**
+   * Runs the enter hook for a scene that has just become active.
+   * @param {Scene} scene - The scene that became active.
+   */
+  #entered(scene: Scene) {
+    scene.onEnter(this.engine);
+    this.engine.events.emit("sceneChanged", { scene });
+  }
+}
@@ -2,10 +2,13 @@ import { Vec2 } from "wtc-math";
 
 import {
   GameObject,
+  isGameObjectData,
   type GameObjectProps,
   type IGameObject,
 } from "../Core/GameObject";
 import { AnchorPoint } from "../Core/GameObject";
+import { objectRegistry } from "../Core/GameObjectRegistry";
+import { RenderLayerName } from "../Core/RenderLayers";
 
 /**
  * Interface for the Background game object.
@@ -19,6 +22,8 @@ export type BackgroundProps = Omit<GameObjectProps, "position">;
 
 /**
  * Renders a checkered background for the game.
+ * It's in the background layer unless told otherwise, so it scrolls slower than the world,
+ * and static, so it's drawn from the layer's cached image.
  */
 export class Background extends GameObject implements IBackground {
   /**
@@ -26,14 +31,24 @@ export class Background extends GameObject implements IBackground {
    * @param id The unique identifier for the game object.
    * @param dimensions The dimensions of the background.
    * @param dpr The device pixel ratio.
+   * @param layer The name of the render layer. Defaults to RenderLayerName.BACKGROUND.
+   * @param isStatic Whether it's drawn from its layer's cached image. Defaults to true.
    */
-  constructor({ id, dimensions, dpr = 2 }: BackgroundProps) {
+  constructor({
+    id,
+    dimensions,
+    dpr = 2,
+    layer = RenderLayerName.BACKGROUND,
+    isStatic = true,
+  }: BackgroundProps) {
     super({
       id,
       position: new Vec2(0, 0),
       dimensions,
       dpr,
       anchorPoint: AnchorPoint.TOP_LEFT,
+      layer,
+      isStatic,
     });
   }
 
@@ -41,7 +56,6 @@ export class Background extends GameObject implements IBackground {
    * Draws the checkered background on the canvas.
    */
   drawObject() {
-    console.log("drawing bg");
     this.ctx.clearRect(0, 0, this.dims.x, this.dims.y);
     const tileSize = 20;
     for (let y = 0; y < this.dims.y; y += tileSize) {
@@ -54,3 +68,15 @@ export class Background extends GameObject implements IBackground {
     this.needsRedraw = false;
   }
 }
+
+objectRegistry.register(
+  "Background",
+  Background,
+  (data, engine) =>
+    new Background({
+      id: data.id,
+      dimensions: new Vec2(data.dimensions[0], data.dimensions[1]),
+      dpr: engine.dpr,
+    }),
+  isGameObjectData
+);
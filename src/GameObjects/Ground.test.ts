@@ -0,0 +1,84 @@
+import { Vec2 } from "wtc-math";
+import { describe, expect, it } from "vitest";
+
+import { Ground } from "./Ground";
+import { MemoryAudioBackend } from "../Audio/MemoryAudioBackend";
+import { GameEngine } from "../Core/GameEngine";
+import { objectRegistry } from "../Core/GameObjectRegistry";
+import { HeadlessRenderer } from "../Graphics/HeadlessRenderer";
+
+const createGround = (seed = 1) =>
+  new Ground({ id: "ground", dimensions: new Vec2(400, 300), dpr: 1, seed });
+
+describe("Ground", () => {
+  it("generates the same terrain from the same seed", () => {
+    expect(createGround(1).mask).toEqual(createGround(1).mask);
+    expect(createGround(1).mask).not.toEqual(createGround(2).mask);
+  });
+
+  it("generates the same terrain again, discarding craters", () => {
+    const ground = createGround();
+    const mask = ground.mask.slice();
+    ground.carve(new Vec2(200, ground.heightAt(200)!), 30);
+    expect(ground.mask).not.toEqual(mask);
+
+    ground.generate();
+    expect(ground.mask).toEqual(mask);
+  });
+
+  it("finds the highest solid point of a column", () => {
+    const ground = createGround();
+    const top = ground.heightAt(100)!;
+    expect(top).not.toBeNull();
+    expect(ground.isSolid(new Vec2(100, top))).toBe(true);
+    expect(ground.isSolid(new Vec2(100, top - 1))).toBe(false);
+    expect(ground.heightAt(-1)).toBeNull();
+    expect(ground.heightAt(400)).toBeNull();
+  });
+
+  it("isn't solid outside its bounds", () => {
+    const ground = createGround();
+    expect(ground.isSolid(new Vec2(100, 299))).toBe(true);
+    expect(ground.isSolid(new Vec2(100, 300))).toBe(false);
+    expect(ground.isSolid(new Vec2(-1, 299))).toBe(false);
+    expect(ground.isSolid(new Vec2(400, 299))).toBe(false);
+  });
+
+  it("carves a circle out of the terrain", () => {
+    const ground = createGround();
+    const center = new Vec2(200, 250);
+    ground.carve(center, 20);
+
+    expect(ground.isSolid(center)).toBe(false);
+    expect(ground.isSolid(new Vec2(200, 231))).toBe(false);
+    expect(ground.isSolid(new Vec2(219, 250))).toBe(false);
+    expect(ground.isSolid(new Vec2(200, 272))).toBe(true);
+    expect(ground.isSolid(new Vec2(223, 250))).toBe(true);
+  });
+
+  it("undercuts the terrain so the surface stays in place", () => {
+    const ground = createGround();
+    const top = ground.heightAt(200)!;
+    ground.carve(new Vec2(200, top + 40), 20);
+
+    expect(ground.heightAt(200)).toBe(top);
+    expect(ground.isSolid(new Vec2(200, top + 40))).toBe(false);
+  });
+
+  it("saves its craters and carves them again when loaded", () => {
+    const ground = createGround();
+    ground.carve(new Vec2(150, 250), 25);
+    const data = ground.toJSON();
+    expect(data.craters).toEqual([[150, 250, 25]]);
+
+    const engine = new GameEngine({
+      renderer: new HeadlessRenderer(),
+      dimensions: new Vec2(800, 600),
+      dpr: 1,
+      seed: 1,
+      audio: new MemoryAudioBackend(),
+    });
+    const loaded = objectRegistry.create(data, engine) as Ground;
+    expect(loaded.mask).toEqual(ground.mask);
+  });
+});
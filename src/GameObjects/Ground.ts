@@ -1,57 +1,397 @@
 import { Vec2 } from "wtc-math";
+import type { FolderApi } from "tweakpane";
 
-import { params } from "../config";
+import type { GameEngine } from "../Core/GameEngine";
 import {
   GameObject,
+  type GameObjectData,
   type GameObjectProps,
   type IGameObject,
   AnchorPoint,
 } from "../Core/GameObject";
+import { objectRegistry } from "../Core/GameObjectRegistry";
+import { Random } from "../Helpers/Random";
+import { Rectangle } from "../Helpers/Rectangle";
+import { CollisionLayer } from "../Physics/Collider";
+import type { ISurface } from "../Physics/PhysicsSystem";
 
 /**
  * Interface for the Ground game object.
  */
-export interface IGround extends IGameObject {}
+export interface IGround extends IGameObject, ISurface {
+  /** The seed the terrain was generated from. */
+  seed: number;
+  /** How far the hills rise and the valleys sink from the ground height. */
+  hilliness: number;
+  /** How high the average surface sits above the bottom. */
+  groundHeight: number;
+  /** Whether each logical pixel is solid, row by row from the top-left corner. */
+  mask: Uint8Array;
+  /**
+   * Gets the world y of the highest solid point at a world x.
+   * @param {number} x - The world x.
+   * @returns {number | null} The y of the terrain, or null if the column is empty.
+   */
+  heightAt(x: number): number | null;
+  /**
+   * Checks if a point is inside the terrain.
+   * @param {Vec2} point - The point in world space.
+   * @returns {boolean} True if the point is solid.
+   */
+  isSolid(point: Vec2): boolean;
+  /**
+   * Removes a circle of terrain, such as an explosion crater.
+   * @param {Vec2} center - The center of the circle in world space.
+   * @param {number} radius - The radius of the circle.
+   */
+  carve(center: Vec2, radius: number): void;
+}
 
 /**
  * Props for the Ground game object.
  */
-export type GroundProps = Omit<GameObjectProps, "position">;
+export type GroundProps = Omit<GameObjectProps, "position"> & {
+  /** The seed to generate the terrain from. Defaults to a random seed. */
+  seed?: number;
+  /** How far the hills rise and the valleys sink from the ground height. Defaults to 80. */
+  hilliness?: number;
+  /** How high the average surface sits above the bottom. Defaults to 100. */
+  groundHeight?: number;
+};
+
+/**
+ * The saved state of a Ground game object.
+ */
+export type GroundData = GameObjectData & {
+  /** The seed the terrain was generated from. */
+  seed: number;
+  /** How far the hills rise and the valleys sink from the ground height. */
+  hilliness: number;
+  /** The craters carved since the terrain was generated, as `[x, y, radius]` in world space. */
+  craters: [number, number, number][];
+};
+
+/**
+ * Checks that saved data has the fields of a ground.
+ * @param {GameObjectData} data - The saved data.
+ * @returns {boolean} True if the data is GroundData.
+ */
+export function isGroundData(data: GameObjectData): data is GroundData {
+  const ground = data as Partial<GroundData>;
+  return (
+    typeof ground.seed === "number" &&
+    typeof ground.hilliness === "number" &&
+    Array.isArray(ground.craters) &&
+    ground.craters.every(
+      (crater) =>
+        Array.isArray(crater) &&
+        crater.length === 3 &&
+        crater.every((n) => typeof n === "number")
+    )
+  );
+}
 
 /**
- * Renders the ground for the game.
+ * Destructible terrain generated from a seed, with hills, valleys and plateaus.
+ * The terrain is a mask with one cell per logical pixel, so craters can undercut it.
+ * Its average surface sits `groundHeight` above the bottom. It follows the engine's
+ * `physics.environment["ground height"]`, generating the terrain again when that changes.
+ * It's saved as its seed and craters, and generated again from them when loaded.
+ *
+ * The ground is meant to be an unrotated, unscaled root object.
  */
 export class Ground extends GameObject implements IGround {
+  /** @inheritdoc */
+  seed: number;
+  /** @inheritdoc */
+  hilliness: number;
+  /** @inheritdoc */
+  groundHeight: number;
+  /** @inheritdoc */
+  mask: Uint8Array;
+
+  /**
+   * The area of the offscreen canvas to repaint, or null to repaint all of it.
+   * @private
+   */
+  #dirty: Rectangle | null = null;
+
+  /**
+   * The craters carved since the terrain was generated, as `[x, y, radius]` in world space.
+   * @private
+   */
+  #craters: [number, number, number][] = [];
+
   /**
    * Creates a new Ground object.
    * @param id The unique identifier for the game object.
    * @param dimensions The dimensions of the ground.
    * @param dpr The device pixel ratio.
+   * @param seed The seed to generate the terrain from.
+   * @param hilliness How far the hills rise and the valleys sink.
+   * @param groundHeight How high the average surface sits above the bottom.
+   * @param isStatic Whether it's drawn from its layer's cached image, which is rebuilt
+   * when a crater is carved. Defaults to true.
    */
-  constructor({ id, dimensions, dpr = 2 }: GroundProps) {
+  constructor({
+    id,
+    dimensions,
+    dpr = 2,
+    seed = Random.randomSeed(),
+    hilliness = 80,
+    groundHeight = 100,
+    isStatic = true,
+  }: GroundProps) {
     super({
       id,
       position: new Vec2(0, 0),
       dimensions,
       dpr,
       anchorPoint: AnchorPoint.TOP_LEFT,
+      isStatic,
+      collisionLayer: CollisionLayer.TERRAIN,
+    });
+    this.seed = seed;
+    this.hilliness = hilliness;
+    this.groundHeight = groundHeight;
+    this.mask = new Uint8Array(this.#columns * this.#rows);
+    this.generate();
+  }
+
+  /**
+   * Generates the terrain again, discarding any craters.
+   * @param seed The seed to generate from. Defaults to the current seed.
+   */
+  generate(seed: number = this.seed) {
+    this.seed = seed;
+    const random = new Random(seed);
+    const columns = this.#columns;
+    const rows = this.#rows;
+
+    // Layer smoothed value noise: broad hills and valleys, then smaller bumps
+    const surface = new Float32Array(columns).fill(rows - this.groundHeight);
+    [
+      { spacing: 200, amplitude: this.hilliness },
+      { spacing: 50, amplitude: this.hilliness / 4 },
+    ].forEach(({ spacing, amplitude }) => {
+      const points = Array.from(
+        { length: Math.ceil(columns / spacing) + 2 },
+        () => random.range(-amplitude, amplitude)
+      );
+      for (let x = 0; x < columns; x++) {
+        const i = Math.floor(x / spacing);
+        const t = (1 - Math.cos(((x % spacing) / spacing) * Math.PI)) / 2;
+        surface[x] += points[i] + (points[i + 1] - points[i]) * t;
+      }
     });
+
+    // Flatten a few stretches into plateaus, blending in at their edges
+    const plateaus = random.int(1, 4);
+    for (let p = 0; p < plateaus; p++) {
+      const start = random.int(0, columns);
+      const length = random.int(60, 160);
+      const level = surface[start];
+      const end = Math.min(columns, start + length);
+      for (let x = start; x < end; x++) {
+        const weight = Math.min(1, (x - start) / 20, (end - x) / 20);
+        surface[x] += (level - surface[x]) * weight;
+      }
+    }
+
+    this.mask.fill(0);
+    for (let x = 0; x < columns; x++) {
+      const top = Math.round(Math.min(rows - 10, Math.max(20, surface[x])));
+      for (let y = top; y < rows; y++) this.mask[y * columns + x] = 1;
+    }
+
+    this.#craters = [];
+    this.#dirty = null;
+    this.needsRedraw = true;
+  }
+
+  /** @inheritdoc */
+  heightAt(x: number): number | null {
+    const column = Math.floor(x - this.bounds.x);
+    if (column < 0 || column >= this.#columns) return null;
+    for (let row = 0; row < this.#rows; row++) {
+      if (this.mask[row * this.#columns + column]) return this.bounds.y + row;
+    }
+    return null;
+  }
+
+  /** @inheritdoc */
+  isSolid(point: Vec2): boolean {
+    const column = Math.floor(point.x - this.bounds.x);
+    const row = Math.floor(point.y - this.bounds.y);
+    if (column < 0 || column >= this.#columns) return false;
+    if (row < 0 || row >= this.#rows) return false;
+    return this.mask[row * this.#columns + column] === 1;
   }
 
   /**
-   * Draws the ground on the canvas.
+   * Gets the top of the terrain at or below a point.
+   * If the point is inside the terrain, that's the top of the solid run it's in,
+   * otherwise it's the first solid point underneath.
+   * @param x The world x.
+   * @param y The world y.
+   * @returns The world y of the surface, or null if there is no terrain at or below the point.
+   */
+  surfaceAt(x: number, y: number): number | null {
+    const { x: left, y: top } = this.bounds;
+    const column = Math.floor(x - left);
+    if (column < 0 || column >= this.#columns) return null;
+
+    const columns = this.#columns;
+    let row = Math.max(0, Math.floor(y - top));
+    if (row >= this.#rows) return null;
+    if (this.mask[row * columns + column]) {
+      while (row > 0 && this.mask[(row - 1) * columns + column]) row--;
+      return top + row;
+    }
+    for (; row < this.#rows; row++) {
+      if (this.mask[row * columns + column]) return top + row;
+    }
+    return null;
+  }
+
+  /** @inheritdoc */
+  carve(center: Vec2, radius: number) {
+    const local = center.subtractNew(new Vec2(this.bounds.x, this.bounds.y));
+    const minX = Math.max(0, Math.floor(local.x - radius));
+    const maxX = Math.min(this.#columns - 1, Math.ceil(local.x + radius));
+    const minY = Math.max(0, Math.floor(local.y - radius));
+    const maxY = Math.min(this.#rows - 1, Math.ceil(local.y + radius));
+    if (minX > maxX || minY > maxY) return;
+    this.#craters.push([center.x, center.y, radius]);
+
+    const radiusSquared = radius * radius;
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        const dx = x + 0.5 - local.x;
+        const dy = y + 0.5 - local.y;
+        if (dx * dx + dy * dy <= radiusSquared) {
+          this.mask[y * this.#columns + x] = 0;
+        }
+      }
+    }
+
+    const area = new Rectangle(minX, minY, maxX - minX + 1, maxY - minY + 1);
+    // A pending full repaint already covers the crater
+    const fullRepaintPending = this.needsRedraw && !this.#dirty;
+    if (!fullRepaintPending) this.#dirty = this.#dirty?.union(area) ?? area;
+    this.needsRedraw = true;
+  }
+
+  /**
+   * Generates the terrain again when the engine's ground height changes.
+   * @param {GameEngine} engine - The game engine instance.
+   */
+  update(engine: GameEngine) {
+    const height = engine.physics.environment["ground height"];
+    if (height === this.groundHeight) return;
+    this.groundHeight = height;
+    this.generate();
+  }
+
+  /**
+   * Gets the state of the ground, with its seed and craters rather than its mask.
+   * @returns {GroundData} The state.
+   */
+  toJSON(): GroundData {
+    return {
+      ...super.toJSON(),
+      seed: this.seed,
+      hilliness: this.hilliness,
+      craters: this.#craters.map((crater) => [...crater]),
+    };
+  }
+
+  /**
+   * Restores a saved state of the ground, generating the terrain again and
+   * carving its craters.
+   * @param {GroundData} data - The state.
+   * @param {GameEngine} engine - The engine it's loaded into.
+   */
+  fromJSON(data: GroundData, engine: GameEngine) {
+    super.fromJSON(data, engine);
+    const changed =
+      data.seed !== this.seed ||
+      data.hilliness !== this.hilliness ||
+      this.#craters.length > 0;
+    this.hilliness = data.hilliness;
+    if (changed) this.generate(data.seed);
+    data.craters.forEach(([x, y, radius]) =>
+      this.carve(new Vec2(x, y), radius)
+    );
+  }
+
+  /**
+   * Adds the seed and hilliness to the debug inspector, generating the terrain again
+   * when they change.
+   * @param {FolderApi} folder - The inspector folder of the ground.
+   */
+  inspect(folder: FolderApi) {
+    super.inspect(folder);
+    folder
+      .addBinding(this, "seed", { step: 1 })
+      .on("change", () => this.generate());
+    folder
+      .addBinding(this, "hilliness", { min: 0, max: 200 })
+      .on("change", () => this.generate());
+  }
+
+  /**
+   * Paints the terrain on the canvas. After a crater, only the dirty region is repainted.
    */
   drawObject() {
-    console.log("drawing ground");
-    const groundHeight = params["ground height"];
-    this.ctx.clearRect(0, 0, this.dims.x, this.dims.y);
+    const area = this.#dirty ?? new Rectangle(0, 0, this.#columns, this.#rows);
+    this.#dirty = null;
+
+    const columns = this.#columns;
+    const bottom = area.y + area.height;
+    this.ctx.clearRect(area.x, area.y, area.width, area.height);
     this.ctx.fillStyle = "black";
-    this.ctx.fillRect(
-      0,
-      this.dims.y - groundHeight,
-      this.dims.x,
-      this.dims.y - groundHeight
-    );
+    for (let x = area.x; x < area.x + area.width; x++) {
+      // Fill each vertical run of solid cells with a single rectangle
+      let start = -1;
+      for (let y = area.y; y <= bottom; y++) {
+        const solid = y < bottom && this.mask[y * columns + x] === 1;
+        if (solid && start === -1) start = y;
+        else if (!solid && start !== -1) {
+          this.ctx.fillRect(x, start, 1, y - start);
+          start = -1;
+        }
+      }
+    }
     this.needsRedraw = false;
   }
+
+  /**
+   * The number of columns in the mask.
+   */
+  get #columns(): number {
+    return Math.ceil(this.dims.x);
+  }
+
+  /**
+   * The number of rows in the mask.
+   */
+  get #rows(): number {
+    return Math.ceil(this.dims.y);
+  }
 }
+
+objectRegistry.register(
+  "Ground",
+  Ground,
+  (data: GroundData, engine) =>
+    new Ground({
+      id: data.id,
+      dimensions: new Vec2(data.dimensions[0], data.dimensions[1]),
+      dpr: engine.dpr,
+      seed: data.seed,
+      hilliness: data.hilliness,
+      groundHeight: engine.physics.environment["ground height"],
+    }),
+  isGroundData
+);
@@ -0,0 +1,168 @@
+import { Vec2 } from "wtc-math";
+import type { FolderApi } from "tweakpane";
+
+import {
+  GameObject,
+  type GameObjectData,
+  type GameObjectProps,
+  type IGameObject,
+} from "../Core/GameObject";
+import { objectRegistry } from "../Core/GameObjectRegistry";
+
+/**
+ * Interface for the Label game object.
+ */
+export interface ILabel extends IGameObject {
+  /** The text to display. */
+  text: string;
+  /** The CSS font used to draw the text. */
+  font: string;
+  /** The color of the text. */
+  color: string;
+  /** The fill color behind the text, if any. */
+  background: string | null;
+}
+
+/**
+ * Props for the Label game object.
+ */
+export type LabelProps = GameObjectProps & {
+  /** The text to display. Multiple lines are separated by "\n". */
+  text: string;
+  /** The CSS font used to draw the text. Defaults to "24px sans-serif". */
+  font?: string;
+  /** The color of the text. Defaults to white. */
+  color?: string;
+  /** The fill color behind the text. Defaults to none. */
+  background?: string | null;
+};
+
+/**
+ * The saved state of a Label game object.
+ */
+export type LabelData = GameObjectData & {
+  /** The text to display. */
+  text: string;
+  /** The CSS font used to draw the text. */
+  font: string;
+  /** The color of the text. */
+  color: string;
+  /** The fill color behind the text, if any. */
+  background: string | null;
+};
+
+/**
+ * Checks that saved data has the fields of a label.
+ * @param {GameObjectData} data - The saved data.
+ * @returns {boolean} True if the data is LabelData.
+ */
+export function isLabelData(data: GameObjectData): data is LabelData {
+  const label = data as Partial<LabelData>;
+  return (
+    typeof label.text === "string" &&
+    typeof label.font === "string" &&
+    typeof label.color === "string" &&
+    (label.background === null || typeof label.background === "string")
+  );
+}
+
+/**
+ * Displays one or more lines of text, centered in its dimensions.
+ */
+export class Label extends GameObject implements ILabel {
+  /** @inheritdoc */
+  text: string;
+  /** @inheritdoc */
+  font: string;
+  /** @inheritdoc */
+  color: string;
+  /** @inheritdoc */
+  background: string | null;
+
+  /**
+   * Creates a new Label object.
+   * @param props The properties for the label.
+   */
+  constructor({
+    text,
+    font = "24px sans-serif",
+    color = "white",
+    background = null,
+    ...props
+  }: LabelProps) {
+    super(props);
+    this.text = text;
+    this.font = font;
+    this.color = color;
+    this.background = background;
+    this.needsRedraw = true;
+  }
+
+  /**
+   * Gets the state of the label, with its text and colors.
+   * @returns {LabelData} The state.
+   */
+  toJSON(): LabelData {
+    return {
+      ...super.toJSON(),
+      text: this.text,
+      font: this.font,
+      color: this.color,
+      background: this.background,
+    };
+  }
+
+  /**
+   * Adds the text and its style to the debug inspector, redrawing the label when they change.
+   * @param {FolderApi} folder - The inspector folder of the label.
+   */
+  inspect(folder: FolderApi) {
+    super.inspect(folder);
+    (["text", "font", "color"] as const).forEach((key) =>
+      folder.addBinding(this, key).on("change", () => (this.needsRedraw = true))
+    );
+  }
+
+  /**
+   * Draws the text on the canvas.
+   */
+  drawObject() {
+    // The base constructor draws before the label's fields are set.
+    if (this.text === undefined) return;
+
+    this.ctx.clearRect(0, 0, this.dims.x, this.dims.y);
+    if (this.background) {
+      this.ctx.fillStyle = this.background;
+      this.ctx.fillRect(0, 0, this.dims.x, this.dims.y);
+    }
+
+    this.ctx.font = this.font;
+    this.ctx.fillStyle = this.color;
+    this.ctx.textAlign = "center";
+    this.ctx.textBaseline = "middle";
+    const lines = this.text.split("\n");
+    const lineHeight = parseInt(this.font, 10) * 1.4 || 32;
+    const top = this.dims.y / 2 - ((lines.length - 1) * lineHeight) / 2;
+    lines.forEach((line, i) => {
+      this.ctx.fillText(line, this.dims.x / 2, top + i * lineHeight);
+    });
+    this.needsRedraw = false;
+  }
+}
+
+objectRegistry.register(
+  "Label",
+  Label,
+  (data: LabelData, engine) =>
+    new Label({
+      id: data.id,
+      position: new Vec2(data.position[0], data.position[1]),
+      dimensions: new Vec2(data.dimensions[0], data.dimensions[1]),
+      dpr: engine.dpr,
+      text: data.text,
+      font: data.font,
+      color: data.color,
+      background: data.background,
+    }),
+  isLabelData
+);
@@ -0,0 +1,649 @@
+import { Vec2 } from "wtc-math";
+import type { FolderApi } from "tweakpane";
+
+import type { GameEngine } from "../Core/GameEngine";
+import {
+  GameObject,
+  type GameObjectProps,
+  type IGameObject,
+} from "../Core/GameObject";
+import { RenderLayerName } from "../Core/RenderLayers";
+import type { RenderContext } from "../Graphics/Renderer";
+import { Random } from "../Helpers/Random";
+import { Rectangle } from "../Helpers/Rectangle";
+
+/**
+ * The shape particles are drawn as.
+ */
+export type ParticleShape = "square" | "circle";
+
+/**
+ * How particles are emitted, move and look. Everything over life is a list of
+ * keyframes spread evenly from birth to death, and interpolated between.
+ */
+export type ParticleConfig = {
+  /** Particles emitted per second while emitting. Defaults to 0. */
+  rate?: number;
+  /** Particles emitted at once when the emitter is added. Defaults to 0. */
+  burst?: number;
+  /** How long to emit for in seconds, or null to emit until stopped. Defaults to null. */
+  duration?: number | null;
+  /** The shortest and longest life of a particle in seconds. Defaults to [1, 1]. */
+  lifetime?: [number, number];
+  /** The slowest and fastest launch speed in px/s. Defaults to [50, 100]. */
+  speed?: [number, number];
+  /** The direction particles are launched in, in radians, relative to the emitter's rotation. Defaults to 0. */
+  angle?: number;
+  /** The width of the cone particles are launched in, in radians. Defaults to a full circle. */
+  spread?: number;
+  /** The radius of the disc particles are spawned in. Defaults to 0. */
+  radius?: number;
+  /** The size of particles over their life, in px. Defaults to [4]. */
+  sizes?: number[];
+  /** The color of particles over their life, as `#rgb` or `#rrggbb`. Defaults to ["#ffffff"]. */
+  colors?: string[];
+  /** The opacity of particles over their life. Defaults to [1, 0]. */
+  alphas?: number[];
+  /** How strongly the environment's gravity pulls particles. Negative values make them rise. Defaults to 0. */
+  gravityScale?: number;
+  /** How strongly the environment's wind pushes particles. Defaults to 0. */
+  windScale?: number;
+  /** Velocity lost per second. Defaults to 0. */
+  drag?: number;
+  /** How particles are composited onto the scene, such as "lighter" for glows. Defaults to "source-over". */
+  blend?: GlobalCompositeOperation;
+  /** The shape particles are drawn as. Defaults to "circle". */
+  shape?: ParticleShape;
+  /** Whether the emitter removes itself once it has stopped and its particles have died. Defaults to false. */
+  removeWhenDone?: boolean;
+};
+
+/**
+ * Interface for the ParticleEmitter game object.
+ */
+export interface IParticleEmitter extends IGameObject {
+  /** The most particles alive at once. */
+  readonly maxParticles: number;
+  /** The number of particles alive. */
+  readonly count: number;
+  /** Whether new particles are being emitted. */
+  emitting: boolean;
+}
+
+/**
+ * Props for the ParticleEmitter game object.
+ */
+export type ParticleEmitterProps = Omit<GameObjectProps, "dimensions"> &
+  ParticleConfig & {
+    /** The dimensions of the emitter, used for culling and selection only. Defaults to (10, 10). */
+    dimensions?: Vec2;
+    /** The name of the render layer the emitter is drawn in, when it's a root. Defaults to RenderLayerName.EFFECTS. */
+    layer?: string;
+    /** The most particles alive at once. Defaults to 500. */
+    maxParticles?: number;
+    /** The seed for the particles' randomness. Defaults to a number from the engine's generator. */
+    seed?: number;
+  };
+
+/** The number of steps in the precomputed color and size over life. */
+const LOOKUP_STEPS = 32;
+
+/**
+ * Samples keyframes spread evenly over a range, interpolating between them.
+ * @param keyframes The values, from start to end.
+ * @param t Where to sample, from 0 to 1.
+ * @returns The value.
+ */
+function sample(keyframes: number[], t: number): number {
+  if (keyframes.length === 1) return keyframes[0];
+  const position = Math.min(1, Math.max(0, t)) * (keyframes.length - 1);
+  const index = Math.min(Math.floor(position), keyframes.length - 2);
+  const f = position - index;
+  return keyframes[index] * (1 - f) + keyframes[index + 1] * f;
+}
+
+/**
+ * Parses a hex color.
+ * @param color The color, as `#rgb` or `#rrggbb`.
+ * @returns The red, green and blue components, from 0 to 255.
+ * @throws {Error} If the color isn't a hex color.
+ */
+function parseHexColor(color: string): [number, number, number] {
+  const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/i.exec(color);
+  const long = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+  const match = long ?? short;
+  if (!match) throw new Error(`Unsupported particle color "${color}".`);
+  return [match[1], match[2], match[3]].map((c) =>
+    parseInt(c.length === 1 ? c + c : c, 16)
+  ) as [number, number, number];
+}
+
+/**
+ * A game object that emits, simulates and draws many small particles, such as
+ * sparks, smoke and debris.
+ *
+ * Particles aren't game objects: they live in flat typed arrays, reused as
+ * particles die, in world space, so they stay where they were emitted when the
+ * emitter moves. They're drawn in one pass straight onto the engine's context,
+ * grouped by their color over life, without an offscreen canvas each.
+ * See `ParticlePresets` for ready-made effects.
+ */
+export class ParticleEmitter extends GameObject implements IParticleEmitter {
+  /** @inheritdoc */
+  readonly maxParticles: number;
+  /** @inheritdoc */
+  emitting: boolean = true;
+  /** Particles emitted per second while emitting. */
+  rate: number;
+  /** Particles emitted at once when the emitter is added. */
+  burst: number;
+  /** How long to emit for in seconds, or null to emit until stopped. */
+  duration: number | null;
+  /** The shortest and longest life of a particle in seconds. */
+  lifetime: [number, number];
+  /** The slowest and fastest launch speed in px/s. */
+  speed: [number, number];
+  /** The direction particles are launched in, in radians, relative to the emitter's rotation. */
+  angle: number;
+  /** The width of the cone particles are launched in, in radians. */
+  spread: number;
+  /** The radius of the disc particles are spawned in. */
+  radius: number;
+  /** How strongly the environment's gravity pulls particles. */
+  gravityScale: number;
+  /** How strongly the environment's wind pushes particles. */
+  windScale: number;
+  /** Velocity lost per second. */
+  drag: number;
+  /** How particles are composited onto the scene. */
+  blend: GlobalCompositeOperation;
+  /** The shape particles are drawn as. */
+  shape: ParticleShape;
+  /** Whether the emitter removes itself once it has stopped and its particles have died. */
+  removeWhenDone: boolean;
+
+  /**
+   * The positions of the particles, x and y interleaved.
+   * @private
+   */
+  #position: Float32Array;
+
+  /**
+   * The positions at the start of the tick, for interpolation.
+   * @private
+   */
+  #previous: Float32Array;
+
+  /**
+   * The velocities of the particles, x and y interleaved.
+   * @private
+   */
+  #velocity: Float32Array;
+
+  /**
+   * How long each particle has lived, in seconds.
+   * @private
+   */
+  #age: Float32Array;
+
+  /**
+   * How long each particle lives, in seconds.
+   * @private
+   */
+  #life: Float32Array;
+
+  /**
+   * The lookup step of each particle while drawing.
+   * @private
+   */
+  #step: Uint8Array;
+
+  /**
+   * The particles sorted by lookup step while drawing.
+   * @private
+   */
+  #order: Uint16Array;
+
+  /**
+   * The number of particles alive. They're packed at the start of the arrays.
+   * @private
+   */
+  #count: number = 0;
+
+  /**
+   * Fractional particles waiting to be emitted.
+   * @private
+   */
+  #pending: number = 0;
+
+  /**
+   * How long the emitter has been emitting.
+   * @private
+   */
+  #elapsed: number = 0;
+
+  /**
+   * The seed given, if any.
+   * @private
+   */
+  #seed: number | undefined;
+
+  /**
+   * The generator for the particles' randomness.
+   * @private
+   */
+  #random: Random;
+
+  /**
+   * The size over life.
+   * @private
+   */
+  #sizes: number[] = [];
+
+  /**
+   * The color over life.
+   * @private
+   */
+  #colors: string[] = [];
+
+  /**
+   * The opacity over life.
+   * @private
+   */
+  #alphas: number[] = [];
+
+  /**
+   * The size at each lookup step.
+   * @private
+   */
+  #sizeLookup: Float32Array = new Float32Array(LOOKUP_STEPS);
+
+  /**
+   * The CSS color, with opacity, at each lookup step.
+   * @private
+   */
+  #colorLookup: string[] = [];
+
+  /**
+   * Creates a new ParticleEmitter.
+   * @param {ParticleEmitterProps} props - The properties for the emitter.
+   */
+  constructor({
+    dimensions = new Vec2(10, 10),
+    layer = RenderLayerName.EFFECTS,
+    maxParticles = 500,
+    seed,
+    rate = 0,
+    burst = 0,
+    duration = null,
+    lifetime = [1, 1],
+    speed = [50, 100],
+    angle = 0,
+    spread = Math.PI * 2,
+    radius = 0,
+    sizes = [4],
+    colors = ["#ffffff"],
+    alphas = [1, 0],
+    gravityScale = 0,
+    windScale = 0,
+    drag = 0,
+    blend = "source-over",
+    shape = "circle",
+    removeWhenDone = false,
+    ...props
+  }: ParticleEmitterProps) {
+    super({ ...props, dimensions, layer });
+    if (maxParticles > 65535)
+      throw new Error("A particle emitter can have at most 65535 particles.");
+    this.maxParticles = maxParticles;
+    this.#position = new Float32Array(maxParticles * 2);
+    this.#previous = new Float32Array(maxParticles * 2);
+    this.#velocity = new Float32Array(maxParticles * 2);
+    this.#age = new Float32Array(maxParticles);
+    this.#life = new Float32Array(maxParticles);
+    this.#step = new Uint8Array(maxParticles);
+    this.#order = new Uint16Array(maxParticles);
+    this.#seed = seed;
+    this.#random = new Random(seed);
+
+    this.rate = rate;
+    this.burst = burst;
+    this.duration = duration;
+    this.lifetime = lifetime;
+    this.speed = speed;
+    this.angle = angle;
+    this.spread = spread;
+    this.radius = radius;
+    this.gravityScale = gravityScale;
+    this.windScale = windScale;
+    this.drag = drag;
+    this.blend = blend;
+    this.shape = shape;
+    this.removeWhenDone = removeWhenDone;
+    this.#sizes = sizes;
+    this.#colors = colors;
+    this.#alphas = alphas;
+    this.#buildLookups();
+  }
+
+  /** @inheritdoc */
+  get count(): number {
+    return this.#count;
+  }
+
+  /**
+   * Gets/Sets the size of particles over their life, in px.
+   * @param {number[]} sizes - The keyframes.
+   */
+  get sizes(): number[] {
+    return [...this.#sizes];
+  }
+  set sizes(sizes) {
+    this.#sizes = [...sizes];
+    this.#buildLookups();
+  }
+
+  /**
+   * Gets/Sets the color of particles over their life, as `#rgb` or `#rrggbb`.
+   * @param {string[]} colors - The keyframes.
+   */
+  get colors(): string[] {
+    return [...this.#colors];
+  }
+  set colors(colors) {
+    this.#colors = [...colors];
+    this.#buildLookups();
+  }
+
+  /**
+   * Gets/Sets the opacity of particles over their life.
+   * @param {number[]} alphas - The keyframes.
+   */
+  get alphas(): number[] {
+    return [...this.#alphas];
+  }
+  set alphas(alphas) {
+    this.#alphas = [...alphas];
+    this.#buildLookups();
+  }
+
+  /**
+   * Seeds the particles from the engine's generator, unless a seed was given,
+   * so replays show the same particles, then emits the burst.
+   * @param engine The game engine instance.
+   */
+  onAdded(engine: GameEngine) {
+    if (this.#seed === undefined)
+      this.#random = new Random(engine.random.int(0, 4294967296));
+    if (this.burst > 0) this.emit(this.burst);
+  }
+
+  /**
+   * Emits particles at once, as many as there is room for.
+   * @param {number} count - The number of particles.
+   */
+  emit(count: number) {
+    const origin = this.worldCenter;
+    const direction = this.worldRotation + this.angle;
+    const random = this.#random;
+    const n = Math.min(Math.floor(count), this.maxParticles - this.#count);
+    for (let k = 0; k < n; k++) {
+      const i = this.#count++;
+      const spawnAngle = random.range(0, Math.PI * 2);
+      const spawnDistance = this.radius * Math.sqrt(random.next());
+      const x = origin.x + Math.cos(spawnAngle) * spawnDistance;
+      const y = origin.y + Math.sin(spawnAngle) * spawnDistance;
+      const launch = direction + (random.next() - 0.5) * this.spread;
+      const speed = random.range(this.speed[0], this.speed[1]);
+      this.#position[i * 2] = this.#previous[i * 2] = x;
+      this.#position[i * 2 + 1] = this.#previous[i * 2 + 1] = y;
+      this.#velocity[i * 2] = Math.cos(launch) * speed;
+      this.#velocity[i * 2 + 1] = Math.sin(launch) * speed;
+      this.#age[i] = 0;
+      this.#life[i] = Math.max(
+        0.001,
+        random.range(this.lifetime[0], this.lifetime[1])
+      );
+    }
+  }
+
+  /**
+   * Starts emitting again, from the start of its duration.
+   */
+  start() {
+    this.emitting = true;
+    this.#elapsed = 0;
+  }
+
+  /**
+   * Stops emitting. The particles alive live out their lives.
+   */
+  stop() {
+    this.emitting = false;
+    this.#pending = 0;
+  }
+
+  /**
+   * Kills every particle.
+   */
+  clear() {
+    this.#count = 0;
+  }
+
+  /**
+   * Emits, ages and moves the particles, and removes the emitter once it's done
+   * if `removeWhenDone` is set.
+   * @param engine The game engine instance.
+   * @param deltaTime The time elapsed since the last tick.
+   */
+  update(engine: GameEngine, deltaTime: number) {
+    this.#simulate(engine, deltaTime);
+
+    if (this.emitting) {
+      this.#pending += this.rate * deltaTime;
+      const count = Math.floor(this.#pending);
+      this.#pending -= count;
+      if (count > 0) this.emit(count);
+      this.#elapsed += deltaTime;
+      if (this.duration !== null && this.#elapsed >= this.duration) this.stop();
+    }
+
+    if (this.removeWhenDone && !this.emitting && this.#count === 0)
+      engine.removeObject(this);
+  }
+
+  /**
+   * Adds the emission and motion settings to the debug inspector.
+   * @param {FolderApi} folder - The inspector folder of the emitter.
+   */
+  inspect(folder: FolderApi) {
+    super.inspect(folder);
+    folder.addBinding(this, "emitting");
+    folder.addBinding(this, "rate", { min: 0 });
+    folder.addBinding(this, "burst", { min: 0, step: 1 });
+    folder.addBinding(this, "angle", { min: -Math.PI, max: Math.PI });
+    folder.addBinding(this, "spread", { min: 0, max: Math.PI * 2 });
+    folder.addBinding(this, "radius", { min: 0 });
+    folder.addBinding(this, "gravityScale");
+    folder.addBinding(this, "windScale");
+    folder.addBinding(this, "drag", { min: 0 });
+    folder.addBinding(this, "shape", {
+      options: { circle: "circle", square: "square" },
+    });
+    folder.addBinding(this, "removeWhenDone");
+  }
+
+  /**
+   * The emitter itself is invisible.
+   */
+  drawObject() {
+    this.needsRedraw = false;
+  }
+
+  /**
+   * Draws the particles in world space, then renders the emitter's children.
+   * The particles are always drawn through the camera, so emitters can't be static.
+   * @param engine The game engine instance.
+   * @param ctx The context to render to. Defaults to the engine's.
+   * @param cull Whether to skip objects outside the camera's view. Defaults to true.
+   */
+  render(
+    engine: GameEngine,
+    ctx: RenderContext = engine.ctx,
+    cull: boolean = true
+  ) {
+    if (this.#count > 0) this.#drawParticles(engine, ctx);
+    super.render(engine, ctx, cull);
+  }
+
+  /**
+   * Gets the area the emitter and its particles draw to, this tick and the last.
+   * @returns The area, or null if a child may draw anywhere.
+   */
+  get renderBounds(): Rectangle | null {
+    const area = super.renderBounds;
+    if (!area || this.#count === 0) return area;
+
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (const positions of [this.#position, this.#previous]) {
+      for (let i = 0; i < this.#count; i++) {
+        minX = Math.min(minX, positions[i * 2]);
+        maxX = Math.max(maxX, positions[i * 2]);
+        minY = Math.min(minY, positions[i * 2 + 1]);
+        maxY = Math.max(maxY, positions[i * 2 + 1]);
+      }
+    }
+    const half = Math.max(...this.#sizeLookup) / 2;
+    return area.union(
+      new Rectangle(
+        minX - half,
+        minY - half,
+        maxX - minX + half * 2,
+        maxY - minY + half * 2
+      )
+    );
+  }
+
+  /**
+   * Ages and moves the particles, dropping the dead ones.
+   */
+  #simulate(engine: GameEngine, deltaTime: number) {
+    const { physics } = engine;
+    const { gravity, wind } = physics.environment;
+    const ax = wind.x * physics.windStrength * this.windScale;
+    const ay =
+      wind.y * physics.windStrength * this.windScale +
+      gravity * physics.gravityStrength * this.gravityScale;
+    const damping = Math.max(0, 1 - this.drag * deltaTime);
+    const position = this.#position;
+    const velocity = this.#velocity;
+
+    let i = 0;
+    while (i < this.#count) {
+      this.#age[i] += deltaTime;
+      if (this.#age[i] >= this.#life[i]) {
+        this.#kill(i);
+        continue;
+      }
+      this.#previous[i * 2] = position[i * 2];
+      this.#previous[i * 2 + 1] = position[i * 2 + 1];
+      velocity[i * 2] = (velocity[i * 2] + ax * deltaTime) * damping;
+      velocity[i * 2 + 1] = (velocity[i * 2 + 1] + ay * deltaTime) * damping;
+      position[i * 2] += velocity[i * 2] * deltaTime;
+      position[i * 2 + 1] += velocity[i * 2 + 1] * deltaTime;
+      i++;
+    }
+  }
+
+  /**
+   * Removes a particle by moving the last particle into its place.
+   */
+  #kill(i: number) {
+    const last = --this.#count;
+    if (i === last) return;
+    this.#position.copyWithin(i * 2, last * 2, last * 2 + 2);
+    this.#previous.copyWithin(i * 2, last * 2, last * 2 + 2);
+    this.#velocity.copyWithin(i * 2, last * 2, last * 2 + 2);
+    this.#age[i] = this.#age[last];
+    this.#life[i] = this.#life[last];
+  }
+
+  /**
+   * Draws every particle with one fill per lookup step, sorting the particles by
+   * step first.
+   */
+  #drawParticles(engine: GameEngine, ctx: RenderContext) {
+    const { alpha } = engine;
+    const count = this.#count;
+
+    // Count the particles at each step, then place them in order
+    const starts = new Uint16Array(LOOKUP_STEPS + 1);
+    for (let i = 0; i < count; i++) {
+      const t = this.#age[i] / this.#life[i];
+      const step = Math.min(LOOKUP_STEPS - 1, Math.floor(t * LOOKUP_STEPS));
+      this.#step[i] = step;
+      starts[step + 1]++;
+    }
+    for (let s = 0; s < LOOKUP_STEPS; s++) starts[s + 1] += starts[s];
+    const next = starts.slice(0, LOOKUP_STEPS);
+    for (let i = 0; i < count; i++) this.#order[next[this.#step[i]]++] = i;
+
+    ctx.save();
+    // Particles are in world space, whatever the emitter is attached to
+    ctx.setTransform(engine.dpr, 0, 0, engine.dpr, 0, 0);
+    engine.camera.apply(ctx, alpha, engine.layers.of(this));
+    ctx.globalCompositeOperation = this.blend;
+    for (let s = 0; s < LOOKUP_STEPS; s++) {
+      if (starts[s] === starts[s + 1]) continue;
+      const size = this.#sizeLookup[s];
+      const half = size / 2;
+      ctx.fillStyle = this.#colorLookup[s];
+      ctx.beginPath();
+      for (let k = starts[s]; k < starts[s + 1]; k++) {
+        const i = this.#order[k];
+        const x =
+          this.#previous[i * 2] +
+          (this.#position[i * 2] - this.#previous[i * 2]) * alpha;
+        const y =
+          this.#previous[i * 2 + 1] +
+          (this.#position[i * 2 + 1] - this.#previous[i * 2 + 1]) * alpha;
+        if (this.shape === "square") {
+          ctx.rect(x - half, y - half, size, size);
+        } else {
+          ctx.moveTo(x + half, y);
+          ctx.arc(x, y, half, 0, Math.PI * 2);
+        }
+      }
+      ctx.fill();
+    }
+    ctx.restore();
+  }
+
+  /**
+   * Precomputes the size and color at each lookup step.
+   * @throws {Error} If a list of keyframes is empty or a color isn't a hex color.
+   */
+  #buildLookups() {
+    if (!this.#sizes.length || !this.#colors.length || !this.#alphas.length)
+      throw new Error("Particle sizes, colors and alphas can't be empty.");
+    const rgb = this.#colors.map(parseHexColor);
+    this.#colorLookup = [];
+    for (let s = 0; s < LOOKUP_STEPS; s++) {
+      const t = (s + 0.5) / LOOKUP_STEPS;
+      this.#sizeLookup[s] = sample(this.#sizes, t);
+      const [r, g, b] = [0, 1, 2].map((c) =>
+        Math.round(
+          sample(
+            rgb.map((color) => color[c]),
+            t
+          )
+        )
+      );
+      const a = Math.max(0, Math.min(1, sample(this.#alphas, t)));
+      this.#colorLookup.push(`rgba(${r}, ${g}, ${b}, ${a.toFixed(3)})`);
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import type { ParticleConfig } from "./ParticleEmitter";
+
+/**
+ * Ready-made particle effects, to spread into a ParticleEmitter's props and
+ * adjust as needed.
+ *
+ * @example
+ * engine.addObject(
+ *   new ParticleEmitter({ ...ParticlePresets.explosion, position: center })
+ * );
+ */
+export const ParticlePresets = {
+  /** A short, bright burst of sparks in the direction the emitter faces. */
+  muzzleFlash: {
+    burst: 24,
+    duration: 0,
+    lifetime: [0.08, 0.2],
+    speed: [150, 400],
+    spread: 0.5,
+    sizes: [6, 2],
+    colors: ["#fff6c0", "#ffae00", "#ff4000"],
+    alphas: [1, 0],
+    drag: 6,
+    blend: "lighter",
+    removeWhenDone: true,
+  },
+  /** A fireball that scatters embers, carried by the wind as they fall. */
+  explosion: {
+    burst: 120,
+    duration: 0,
+    lifetime: [0.4, 1.2],
+    speed: [60, 360],
+    radius: 6,
+    sizes: [10, 3],
+    colors: ["#ffffff", "#ffd000", "#ff5a00", "#552211"],
+    alphas: [1, 0],
+    gravityScale: 0.3,
+    windScale: 1,
+    drag: 2.5,
+    blend: "lighter",
+    removeWhenDone: true,
+  },
+  /** A steady stream of smoke that grows, fades and drifts with the wind, for following moving objects. */
+  smokeTrail: {
+    rate: 60,
+    lifetime: [0.6, 1.4],
+    speed: [5, 25],
+    radius: 2,
+    sizes: [3, 12],
+    colors: ["#cccccc", "#666666"],
+    alphas: [0.5, 0],
+    gravityScale: -0.05,
+    windScale: 1,
+    drag: 1,
+    removeWhenDone: true,
+  },
+} satisfies Record<string, ParticleConfig>;
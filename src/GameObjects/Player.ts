@@ -1,20 +1,50 @@
+import { Vec2 } from "wtc-math";
+import type { FolderApi } from "tweakpane";
+
 import { GameEngine } from "../Core/GameEngine";
-import {
-  GameObject,
-  type GameObjectProps,
-  type IGameObject,
-} from "../Core/GameObject";
+import type { GameObjectData, GameObjectProps } from "../Core/GameObject";
+import { objectRegistry } from "../Core/GameObjectRegistry";
+import { Animator } from "../Graphics/Animator";
+import type { RenderContext } from "../Graphics/Renderer";
+import type { SpriteAtlas } from "../Graphics/SpriteAtlas";
+import { Rectangle } from "../Helpers/Rectangle";
+import { BoxCollider, CollisionLayer } from "../Physics/Collider";
+import { RigidBody } from "../Physics/RigidBody";
+import type { Timeline } from "../Tweens/Timeline";
+import { Tween } from "../Tweens/Tween";
+import { Ground } from "./Ground";
+import { ParticleEmitter } from "./ParticleEmitter";
+import { ParticlePresets } from "./ParticlePresets";
+import { Projectile } from "./Projectile";
+import { isSpriteData, Sprite, type ISprite, type SpriteData } from "./Sprite";
+import { TankTurret } from "./TankTurret";
 
 /**
  * Interface representing the Player game object.
  */
-export interface IPlayer extends IGameObject {
+export interface IPlayer extends ISprite {
   /** The movement speed of the player. */
   speed: number;
   /** The horizontal direction of the player. */
   directionX: number;
   /** The angle of the player's cannon. */
   cannonAngle: number;
+  /** The turret the cannon barrel is attached to. */
+  turret: TankTurret;
+  /** How fast the cannon turns when aiming with the keys, in radians per second. */
+  aimSpeed: number;
+  /** The charged shot power, from 0 to 1. */
+  power: number;
+  /** How much power is charged per second while the fire button is held. */
+  chargeRate: number;
+  /** The speed of a shot fired with no power, in px/s. */
+  minShotSpeed: number;
+  /** The speed of a shot fired with full power, in px/s. */
+  maxShotSpeed: number;
+  /** Whether the fire button is held. */
+  charging: boolean;
+  /** Whether to draw the predicted path of the shot while charging. */
+  showTrajectory: boolean;
 }
 
 /**
@@ -23,18 +53,108 @@ export interface IPlayer extends IGameObject {
 export type PlayerProps = GameObjectProps & {
   /** The movement speed of the player. */
   speed: number;
+  /** The atlas of the tank's hull, with an `idle` and a `drive` tag. */
+  atlas: SpriteAtlas;
+};
+
+/**
+ * The saved state of a Player game object.
+ */
+export type PlayerData = SpriteData & {
+  /** The movement speed of the player. */
+  speed: number;
+  /** The horizontal direction of the player. */
+  directionX: number;
+  /** The angle of the player's cannon. */
+  cannonAngle: number;
+  /** How fast the cannon turns when aiming with the keys, in radians per second. */
+  aimSpeed: number;
+  /** The charged shot power, from 0 to 1. */
+  power: number;
+  /** How much power is charged per second while the fire button is held. */
+  chargeRate: number;
+  /** The speed of a shot fired with no power, in px/s. */
+  minShotSpeed: number;
+  /** The speed of a shot fired with full power, in px/s. */
+  maxShotSpeed: number;
+  /** Whether to draw the predicted path of the shot while charging. */
+  showTrajectory: boolean;
 };
 
+/**
+ * Checks that saved data has the fields of a player.
+ * @param {GameObjectData} data - The saved data.
+ * @returns {boolean} True if the data is PlayerData.
+ */
+export function isPlayerData(data: GameObjectData): data is PlayerData {
+  const player = data as Partial<PlayerData>;
+  return (
+    isSpriteData(data) &&
+    [
+      player.speed,
+      player.directionX,
+      player.cannonAngle,
+      player.aimSpeed,
+      player.power,
+      player.chargeRate,
+      player.minShotSpeed,
+      player.maxShotSpeed,
+    ].every((value) => typeof value === "number") &&
+    typeof player.showTrajectory === "boolean"
+  );
+}
+
 /**
  * Represents the player-controlled tank in the game.
+ * The hull is a sprite, mirrored to face `directionX`, with treads that roll while it drives.
  */
-export class Player extends GameObject implements IPlayer {
+export class Player extends Sprite implements IPlayer {
   /** The movement speed of the player. */
   speed: number;
   /** The horizontal direction of the player. */
   directionX: number;
   /** The angle of the player's cannon in radians. */
   cannonAngle: number;
+  /** @inheritdoc */
+  turret: TankTurret;
+  /** @inheritdoc */
+  aimSpeed: number = 1.5;
+  /** @inheritdoc */
+  power: number = 0;
+  /** @inheritdoc */
+  chargeRate: number = 0.8;
+  /** @inheritdoc */
+  minShotSpeed: number = 150;
+  /** @inheritdoc */
+  maxShotSpeed: number = 750;
+  /** @inheritdoc */
+  charging: boolean = false;
+  /** @inheritdoc */
+  showTrajectory: boolean = true;
+
+  /**
+   * The mouse position during the last tick, used to aim only when the mouse moves.
+   * @private
+   */
+  #lastMousePosition: Vec2 = new Vec2(0, 0);
+
+  /**
+   * Whether the shot being charged was called off, until the fire button is released.
+   * @private
+   */
+  #shotCalledOff: boolean = false;
+
+  /**
+   * Where the barrel sits on the turret when it isn't recoiling.
+   * @private
+   */
+  #barrelRest: Vec2;
+
+  /**
+   * The barrel's recoil from the last shot, while it plays.
+   * @private
+   */
+  #recoil: Timeline | null = null;
 
   /**
    * Creates a new Player object.
@@ -44,34 +164,46 @@ export class Player extends GameObject implements IPlayer {
    * @param dpr The device pixel ratio.
    * @param speed The movement speed of the player.
    */
-  constructor({ id, position, dimensions, dpr = 2, speed }: PlayerProps) {
-    super({ id, position, dimensions, dpr });
+  constructor({
+    id,
+    position,
+    dimensions,
+    dpr = 2,
+    speed,
+    atlas,
+  }: PlayerProps) {
+    super({
+      id,
+      position,
+      dimensions,
+      dpr,
+      atlas,
+      animator: new Animator({
+        clips: Animator.clipsFromAtlas(atlas),
+        clip: "idle",
+      }),
+      // The hull fills the bottom half of the tank
+      collider: new BoxCollider(
+        new Vec2(dimensions.x, dimensions.y / 2),
+        new Vec2(0, dimensions.y / 4)
+      ),
+      collisionLayer: CollisionLayer.TANK,
+      body: new RigidBody({ mass: 4, friction: 6 }),
+    });
     this.speed = speed;
     this.directionX = 1;
-    this.cannonAngle = 0;
-  }
+    this.cannonAngle = -Math.PI / 4;
 
-  /**
-   * Draws the player's tank on the canvas.
-   */
-  drawObject() {
-    this.ctx.clearRect(0, 0, this.dims.x, this.dims.y);
-    this.ctx.fillStyle = "magenta";
-    this.ctx.fillRect(0, 0, this.dims.x, this.dims.y);
-    // this.ctx.beginPath();
-    // this.ctx.arc(
-    //   this.dims.x / 2,
-    //   this.dims.y / 2,
-    //   this.dims.x / 2,
-    //   0,
-    //   Math.PI * 2
-    // );
-    // this.ctx.fill();
-    this.ctx.fillStyle = "black";
-    this.ctx.beginPath();
-    this.ctx.arc(this.dims.x / 2, this.dims.y / 2, 2, 0, Math.PI * 2);
-    this.ctx.fill();
-    this.needsRedraw = false;
+    // The turret sits on top of the hull, which fills the bottom half of the tank
+    this.turret = new TankTurret({
+      id: `${id}-turret`,
+      position: new Vec2(0, 0),
+      radius: dimensions.x / 5,
+      barrelLength: dimensions.x / 2,
+      dpr,
+    });
+    this.addChild(this.turret);
+    this.#barrelRest = this.turret.barrel.position.clone();
   }
 
   /**
@@ -80,16 +212,296 @@ export class Player extends GameObject implements IPlayer {
    * @param deltaTime The time elapsed since the last frame.
    */
   update(engine: GameEngine, deltaTime: number) {
-    if (engine.inputManager.isKeyDown("a")) {
-      this.position.x -= this.speed * deltaTime;
-    } else if (engine.inputManager.isKeyDown("d")) {
-      this.position.x += this.speed * deltaTime;
+    const input = engine.inputManager;
+    // Analog, so a stick pushed halfway moves at half speed
+    const move =
+      input.getActionValue("moveRight") - input.getActionValue("moveLeft");
+    if (move !== 0) {
+      this.position.x += this.speed * move * deltaTime;
+      if (Math.sign(move) !== this.directionX) this.#face(Math.sign(move));
+    }
+
+    this.#aim(engine, deltaTime);
+    this.turret.rotation = this.cannonAngle;
+
+    const fireHeld = input.isActionDown("fire");
+    // A second finger down means a pinch, so the shot is called off
+    if (input.pointers.length > 1) this.#shotCalledOff = true;
+    if (this.#shotCalledOff) {
+      this.power = 0;
+      this.charging = false;
+      if (!fireHeld) this.#shotCalledOff = false;
+    } else if (fireHeld) {
+      this.charging = true;
+      this.power = Math.min(1, this.power + this.chargeRate * deltaTime);
+    } else if (this.charging) {
+      this.fire(engine);
     }
 
     if (this.position.x > engine.dims.x + this.dims.x) {
       this.position.x = -this.dims.x;
+      this.savePreviousState();
     } else if (this.position.x < -this.dims.x) {
       this.position.x = engine.dims.x + this.dims.x;
+      this.savePreviousState();
+    }
+
+    // The treads roll as fast as the tank drives
+    if (move !== 0) {
+      this.animator?.play("drive");
+      if (this.animator) this.animator.speed = Math.abs(move);
+    } else {
+      this.animator?.play("idle");
+    }
+    this.flipX = this.directionX < 0;
+    super.update(engine, deltaTime);
+  }
+
+  /**
+   * Fires a projectile from the end of the barrel with the charged power,
+   * with a muzzle flash and the barrel recoiling, and resets the power.
+   * @param engine The game engine instance.
+   * @returns The projectile.
+   */
+  fire(engine: GameEngine): Projectile {
+    const { position, velocity } = this.#launch();
+    const projectile = new Projectile({
+      id: `${this.id}-shell-${engine.ticks}`,
+      position,
+      velocity,
+      owner: this,
+      dpr: this.dpr,
+    });
+    engine.addObject(projectile);
+    engine.addObject(
+      new ParticleEmitter({
+        ...ParticlePresets.muzzleFlash,
+        id: `${this.id}-flash-${engine.ticks}`,
+        position: position.clone(),
+        rotation: Math.atan2(velocity.y, velocity.x),
+        dpr: this.dpr,
+      })
+    );
+    engine.audio.play("fire", { at: this, volume: 0.5 + this.power / 2 });
+    this.#recoilBarrel(engine);
+    this.power = 0;
+    this.charging = false;
+    return projectile;
+  }
+
+  /**
+   * Renders the tank, then the power gauge and the predicted path of the shot while charging.
+   * @param engine The game engine instance.
+   * @param ctx The context to render to. Defaults to the engine's.
+   * @param cull Whether to skip objects outside the camera's view. Defaults to true.
+   */
+  render(
+    engine: GameEngine,
+    ctx: RenderContext = engine.ctx,
+    cull: boolean = true
+  ) {
+    super.render(engine, ctx, cull);
+    if (!this.charging) return;
+
+    const bounds = this.bounds;
+    ctx.save();
+    ctx.fillStyle = "rgba(0, 0, 0, 0.3)";
+    ctx.fillRect(bounds.x, bounds.y - 10, bounds.width, 4);
+    ctx.fillStyle = "orangered";
+    ctx.fillRect(bounds.x, bounds.y - 10, bounds.width * this.power, 4);
+
+    if (this.showTrajectory) {
+      const { position, velocity } = this.#launch();
+      const path = engine.physics.predict(
+        position,
+        new RigidBody({ velocity }),
+        1.5
+      );
+      const grounds = engine.getObjectsByType(Ground);
+      ctx.fillStyle = "rgba(0, 0, 0, 0.5)";
+      for (let i = 3; i < path.length; i += 4) {
+        const point = path[i];
+        if (
+          point.y > engine.dims.y ||
+          grounds.some((ground) => ground.isSolid(point))
+        )
+          break;
+        ctx.beginPath();
+        ctx.arc(point.x, point.y, 1.5, 0, Math.PI * 2);
+        ctx.fill();
+      }
     }
+    ctx.restore();
+  }
+
+  /**
+   * Gets the area the tank draws to, with the power gauge above it while charging.
+   * The predicted path can go anywhere, so there's no area while it's shown.
+   * @returns The area, or null while the predicted path is shown.
+   */
+  get renderBounds(): Rectangle | null {
+    const area = super.renderBounds;
+    if (!area || !this.charging) return area;
+    if (this.showTrajectory) return null;
+    const bounds = this.bounds;
+    return area.union(new Rectangle(bounds.x, bounds.y - 10, bounds.width, 4));
+  }
+
+  /**
+   * Turns the cannon with the aim actions, in the direction of the right stick,
+   * or towards the mouse when it moves.
+   * The cannon only aims above the horizon. While the right stick is idle, the tank
+   * turns to face the way the cannon points, so the stick can't fight the movement.
+   */
+  #aim(engine: GameEngine, deltaTime: number) {
+    const input = engine.inputManager;
+    const stick = input.getStick("right");
+    if (input.isActionDown("aimUp")) {
+      this.cannonAngle -= this.aimSpeed * deltaTime * this.directionX;
+    } else if (input.isActionDown("aimDown")) {
+      this.cannonAngle += this.aimSpeed * deltaTime * this.directionX;
+    } else if (stick.length > 0) {
+      this.cannonAngle = Math.atan2(stick.y, stick.x) - this.worldRotation;
+    } else if (
+      input.mousePosition.x !== this.#lastMousePosition.x ||
+      input.mousePosition.y !== this.#lastMousePosition.y
+    ) {
+      const toMouse = input.worldMousePosition.subtract(
+        this.turret.worldPosition
+      );
+      this.cannonAngle = Math.atan2(toMouse.y, toMouse.x) - this.worldRotation;
+    }
+    this.#lastMousePosition.resetToVector(input.mousePosition);
+
+    // Wrap into (-π, π], then clamp to the upper half
+    this.cannonAngle = Math.atan2(
+      Math.sin(this.cannonAngle),
+      Math.cos(this.cannonAngle)
+    );
+    if (this.cannonAngle > 0) {
+      this.cannonAngle = this.cannonAngle < Math.PI / 2 ? 0 : -Math.PI;
+    }
+    if (stick.length === 0) {
+      this.directionX = Math.cos(this.cannonAngle) < 0 ? -1 : 1;
+    }
+  }
+
+  /**
+   * Turns the tank around, mirroring the cannon.
+   */
+  #face(directionX: number) {
+    this.directionX = directionX;
+    this.cannonAngle = -Math.PI - this.cannonAngle;
+  }
+
+  /**
+   * Gets the state of the tank, with its aim and charged power.
+   * The turret is built again by the constructor, so it isn't saved.
+   * @returns {PlayerData} The state.
+   */
+  toJSON(): PlayerData {
+    return {
+      ...super.toJSON(),
+      speed: this.speed,
+      directionX: this.directionX,
+      cannonAngle: this.cannonAngle,
+      aimSpeed: this.aimSpeed,
+      power: this.power,
+      chargeRate: this.chargeRate,
+      minShotSpeed: this.minShotSpeed,
+      maxShotSpeed: this.maxShotSpeed,
+      showTrajectory: this.showTrajectory,
+    };
+  }
+
+  /**
+   * Restores a saved state of the tank.
+   * @param {PlayerData} data - The state.
+   * @param {GameEngine} engine - The engine it's loaded into.
+   */
+  fromJSON(data: PlayerData, engine: GameEngine) {
+    super.fromJSON(data, engine);
+    this.speed = data.speed;
+    this.directionX = data.directionX;
+    this.cannonAngle = data.cannonAngle;
+    this.aimSpeed = data.aimSpeed;
+    this.power = data.power;
+    this.chargeRate = data.chargeRate;
+    this.minShotSpeed = data.minShotSpeed;
+    this.maxShotSpeed = data.maxShotSpeed;
+    this.showTrajectory = data.showTrajectory;
+    this.turret.rotation = this.cannonAngle;
+    this.turret.savePreviousState();
+  }
+
+  /**
+   * Adds the movement, aim and shot settings to the debug inspector.
+   * @param {FolderApi} folder - The inspector folder of the tank.
+   */
+  inspect(folder: FolderApi) {
+    super.inspect(folder);
+    folder.addBinding(this, "speed");
+    folder.addBinding(this, "directionX", { options: { left: -1, right: 1 } });
+    folder.addBinding(this, "cannonAngle");
+    folder.addBinding(this, "aimSpeed");
+    folder.addBinding(this, "power", { min: 0, max: 1 });
+    folder.addBinding(this, "chargeRate");
+    folder.addBinding(this, "minShotSpeed");
+    folder.addBinding(this, "maxShotSpeed");
+    folder.addBinding(this, "charging");
+    folder.addBinding(this, "showTrajectory");
+  }
+
+  /**
+   * Kicks the barrel back into the turret and eases it out again, starting over
+   * if it's still recoiling from the last shot.
+   */
+  #recoilBarrel(engine: GameEngine) {
+    const { barrel } = this.turret;
+    this.#recoil?.cancel();
+    barrel.position.resetToVector(this.#barrelRest);
+    this.#recoil = engine.tweens.sequence([
+      new Tween(
+        barrel,
+        {
+          position: this.#barrelRest.subtractNew(
+            new Vec2(barrel.dims.x / 4, 0)
+          ),
+        },
+        0.05,
+        "quadOut"
+      ),
+      new Tween(barrel, { position: this.#barrelRest }, 0.4, "backOut"),
+    ]);
+  }
+
+  /**
+   * Gets where a shot leaves the barrel and its velocity at the charged power.
+   */
+  #launch(): { position: Vec2; velocity: Vec2 } {
+    const barrel = this.turret.barrel;
+    const angle = barrel.worldRotation;
+    const speed =
+      this.minShotSpeed + (this.maxShotSpeed - this.minShotSpeed) * this.power;
+    return {
+      position: barrel.localToWorld(new Vec2(barrel.dims.x / 2, 0)),
+      velocity: new Vec2(Math.cos(angle), Math.sin(angle)).scale(speed),
+    };
   }
 }
+
+// The hull always comes from the `tank` atlas, which must be loaded
+objectRegistry.register(
+  "Player",
+  Player,
+  (data: PlayerData, engine) =>
+    new Player({
+      id: data.id,
+      position: new Vec2(data.position[0], data.position[1]),
+      dimensions: new Vec2(data.dimensions[0], data.dimensions[1]),
+      dpr: engine.dpr,
+      speed: data.speed,
+      atlas: engine.assets.atlas("tank"),
+    }),
+  isPlayerData
+);
@@ -0,0 +1,204 @@
+import { Vec2 } from "wtc-math";
+import type { FolderApi } from "tweakpane";
+
+import type { GameEngine } from "../Core/GameEngine";
+import {
+  GameObject,
+  type GameObjectProps,
+  type IGameObject,
+} from "../Core/GameObject";
+import { CircleCollider, CollisionLayer } from "../Physics/Collider";
+import { RigidBody } from "../Physics/RigidBody";
+import { Ground } from "./Ground";
+import { ParticleEmitter } from "./ParticleEmitter";
+import { ParticlePresets } from "./ParticlePresets";
+
+/**
+ * Interface for the Projectile game object.
+ */
+export interface IProjectile extends IGameObject {
+  /** The object that fired the projectile. It is never hit by its own projectile. */
+  owner: GameObject | null;
+  /** The radius of the explosion when the projectile detonates. */
+  explosionRadius: number;
+  /** The impulse applied to bodies at the center of the explosion. */
+  explosionStrength: number;
+  /** Whether the projectile has detonated. */
+  detonated: boolean;
+}
+
+/**
+ * Props for the Projectile game object.
+ */
+export type ProjectileProps = Omit<GameObjectProps, "dimensions"> & {
+  /** The launch velocity in px/s. */
+  velocity: Vec2;
+  /** The object that fired the projectile. Defaults to none. */
+  owner?: GameObject | null;
+  /** The radius of the shell. Defaults to 4. */
+  radius?: number;
+  /** The radius of the explosion. Defaults to 40. */
+  explosionRadius?: number;
+  /** The impulse applied to bodies at the center of the explosion. Defaults to 1200. */
+  explosionStrength?: number;
+};
+
+/**
+ * A shell fired from a tank's cannon. It flies on a ballistic arc, pulled by
+ * gravity and pushed by the wind, trailing smoke, and detonates when it hits the
+ * ground or a tank, leaving a crater.
+ */
+export class Projectile extends GameObject implements IProjectile {
+  /** @inheritdoc */
+  owner: GameObject | null;
+  /** @inheritdoc */
+  explosionRadius: number;
+  /** @inheritdoc */
+  explosionStrength: number;
+  /** @inheritdoc */
+  detonated: boolean = false;
+
+  /**
+   * The smoke trailing behind the shell while it flies.
+   * @private
+   */
+  #trail: ParticleEmitter | null = null;
+
+  /**
+   * Creates a new Projectile object.
+   * @param props The properties for the projectile.
+   */
+  constructor({
+    velocity,
+    owner = null,
+    radius = 4,
+    explosionRadius = 40,
+    explosionStrength = 1200,
+    ...props
+  }: ProjectileProps) {
+    super({
+      ...props,
+      dimensions: new Vec2(radius * 2, radius * 2),
+      collider: new CircleCollider(),
+      collisionLayer: CollisionLayer.PROJECTILE,
+      collisionMask: CollisionLayer.TERRAIN | CollisionLayer.TANK,
+      body: new RigidBody({ velocity }),
+    });
+    this.owner = owner;
+    this.explosionRadius = explosionRadius;
+    this.explosionStrength = explosionStrength;
+    this.needsRedraw = true;
+  }
+
+  /**
+   * Detonates the projectile, carving a crater in the ground, pushing nearby
+   * bodies away and showing and playing the explosion, and removes it. Does nothing if it has already detonated.
+   */
+  detonate() {
+    if (this.detonated || !this.engine) return;
+    this.detonated = true;
+    const center = this.worldCenter;
+    this.engine
+      .getObjectsByType(Ground)
+      .forEach((ground) => ground.carve(center, this.explosionRadius));
+    this.engine.physics.explode(
+      center,
+      this.explosionRadius,
+      this.explosionStrength
+    );
+    this.engine.addObject(
+      new ParticleEmitter({
+        ...ParticlePresets.explosion,
+        id: `${this.id}-explosion`,
+        position: center,
+        dpr: this.dpr,
+      })
+    );
+    this.engine.audio.play("explosion", { at: center });
+    this.engine.removeObject(this);
+  }
+
+  /**
+   * Starts the smoke trail. The trail isn't a child of the shell, so its smoke
+   * lingers after the shell is gone.
+   * @param engine The game engine instance.
+   */
+  onAdded(engine: GameEngine) {
+    this.#trail = new ParticleEmitter({
+      ...ParticlePresets.smokeTrail,
+      id: `${this.id}-trail`,
+      position: this.worldCenter,
+      dpr: this.dpr,
+    });
+    engine.addObject(this.#trail);
+  }
+
+  /**
+   * Stops the smoke trail, which removes itself once its smoke has faded.
+   */
+  onRemoved() {
+    this.#trail?.stop();
+    this.#trail = null;
+  }
+
+  /**
+   * Moves the smoke trail along, detonates the projectile when it lands or flies
+   * into the ground, and removes it once it leaves the world.
+   * @param engine The game engine instance.
+   */
+  update(engine: GameEngine) {
+    const center = this.worldCenter;
+    this.#trail?.position.resetToVector(center);
+    if (
+      this.body?.grounded ||
+      engine.getObjectsByType(Ground).some((ground) => ground.isSolid(center))
+    ) {
+      this.detonate();
+      return;
+    }
+
+    const { x, y } = this.position;
+    const { dims } = engine;
+    if (y > dims.y * 2 || x < -dims.x || x > dims.x * 2) {
+      engine.removeObject(this);
+    }
+  }
+
+  /**
+   * Detonates the projectile when it hits anything but its owner.
+   * @param other The object the projectile hit.
+   */
+  onCollisionEnter(other: GameObject) {
+    if (other === this.owner || this.owner?.isAncestorOf(other)) return;
+    this.detonate();
+  }
+
+  /**
+   * Adds the explosion settings to the debug inspector.
+   * @param {FolderApi} folder - The inspector folder of the projectile.
+   */
+  inspect(folder: FolderApi) {
+    super.inspect(folder);
+    folder.addBinding(this, "explosionRadius");
+    folder.addBinding(this, "explosionStrength");
+    folder.addBinding(this, "detonated", { readonly: true });
+  }
+
+  /**
+   * Draws the shell on the canvas.
+   */
+  drawObject() {
+    this.ctx.clearRect(0, 0, this.dims.x, this.dims.y);
+    this.ctx.fillStyle = "black";
+    this.ctx.beginPath();
+    this.ctx.arc(
+      this.dims.x / 2,
+      this.dims.y / 2,
+      this.dims.x / 2,
+      0,
+      Math.PI * 2
+    );
+    this.ctx.fill();
+    this.needsRedraw = false;
+  }
+}
@@ -0,0 +1,228 @@
+import type { GameEngine } from "../Core/GameEngine";
+import {
+  GameObject,
+  type GameObjectData,
+  type GameObjectProps,
+  type IGameObject,
+} from "../Core/GameObject";
+import type { Animator } from "../Graphics/Animator";
+import type { SpriteAtlas } from "../Graphics/SpriteAtlas";
+
+/**
+ * Interface for the Sprite game object.
+ */
+export interface ISprite extends IGameObject {
+  /** The atlas the frames come from. */
+  atlas: SpriteAtlas;
+  /** The name of the frame shown. */
+  frame: string;
+  /** Whether the frame is mirrored horizontally. */
+  flipX: boolean;
+  /** Whether the frame is mirrored vertically. */
+  flipY: boolean;
+  /** The animator choosing the frame every tick, if any. */
+  animator: Animator | null;
+}
+
+/**
+ * Props for the Sprite game object.
+ */
+export type SpriteProps = GameObjectProps & {
+  /** The atlas the frames come from. */
+  atlas: SpriteAtlas;
+  /** The frame to show. Defaults to the animator's frame, or the first frame of the atlas. */
+  frame?: string;
+  /** Whether the frame is mirrored horizontally. Defaults to false. */
+  flipX?: boolean;
+  /** Whether the frame is mirrored vertically. Defaults to false. */
+  flipY?: boolean;
+  /** The animator choosing the frame every tick. Defaults to none. */
+  animator?: Animator | null;
+};
+
+/**
+ * The saved state of a Sprite game object. The atlas isn't saved.
+ */
+export type SpriteData = GameObjectData & {
+  /** The name of the frame shown. */
+  frame: string;
+  /** Whether the frame is mirrored horizontally. */
+  flipX: boolean;
+  /** Whether the frame is mirrored vertically. */
+  flipY: boolean;
+};
+
+/**
+ * Checks that saved data has the fields of a sprite.
+ * @param {GameObjectData} data - The saved data.
+ * @returns {boolean} True if the data is SpriteData.
+ */
+export function isSpriteData(data: GameObjectData): data is SpriteData {
+  const sprite = data as Partial<SpriteData>;
+  return (
+    typeof sprite.frame === "string" &&
+    typeof sprite.flipX === "boolean" &&
+    typeof sprite.flipY === "boolean"
+  );
+}
+
+/**
+ * A game object that shows a frame of an image atlas, stretched to its dimensions.
+ * The frame's original size, before trimming, fills the object.
+ * With an animator, the frame follows the animator's current clip.
+ *
+ * Sprites aren't registered for saving, since their atlas isn't saved. Subclasses
+ * register a factory that gives them their atlas.
+ */
+export class Sprite extends GameObject implements ISprite {
+  /** @inheritdoc */
+  atlas: SpriteAtlas;
+  /** @inheritdoc */
+  animator: Animator | null;
+
+  /**
+   * The name of the frame shown.
+   * @private
+   */
+  #frame: string = "";
+
+  /**
+   * Whether the frame is mirrored horizontally.
+   * @private
+   */
+  #flipX: boolean = false;
+
+  /**
+   * Whether the frame is mirrored vertically.
+   * @private
+   */
+  #flipY: boolean = false;
+
+  /**
+   * Creates a new Sprite object.
+   * @param props The properties for the sprite.
+   * @throws {Error} If no atlas is given.
+   */
+  constructor({
+    atlas,
+    frame,
+    flipX = false,
+    flipY = false,
+    animator = null,
+    ...props
+  }: SpriteProps) {
+    if (!atlas) throw new Error(`Sprite ${props.id} needs an atlas.`);
+    super(props);
+    this.atlas = atlas;
+    this.animator = animator;
+    this.frame = frame ?? animator?.frame ?? atlas.frames[0]?.name ?? "";
+    this.flipX = flipX;
+    this.flipY = flipY;
+    this.needsRedraw = true;
+  }
+
+  /** @inheritdoc */
+  get frame(): string {
+    return this.#frame;
+  }
+  set frame(frame) {
+    if (frame === this.#frame) return;
+    this.atlas.getFrame(frame);
+    this.#frame = frame;
+    this.needsRedraw = true;
+  }
+
+  /** @inheritdoc */
+  get flipX(): boolean {
+    return this.#flipX;
+  }
+  set flipX(flipX) {
+    if (flipX === this.#flipX) return;
+    this.#flipX = flipX;
+    this.needsRedraw = true;
+  }
+
+  /** @inheritdoc */
+  get flipY(): boolean {
+    return this.#flipY;
+  }
+  set flipY(flipY) {
+    if (flipY === this.#flipY) return;
+    this.#flipY = flipY;
+    this.needsRedraw = true;
+  }
+
+  /**
+   * Advances the animator and shows its frame.
+   * Subclasses overriding `update` should call it.
+   * @param engine The game engine instance.
+   * @param deltaTime The time elapsed since the last tick.
+   */
+  update(_engine: GameEngine, deltaTime: number) {
+    if (!this.animator) return;
+    this.animator.update(deltaTime);
+    const frame = this.animator.frame;
+    if (frame) this.frame = frame;
+  }
+
+  /**
+   * Gets the state of the sprite, with its frame and flipping.
+   * @returns {SpriteData} The state.
+   */
+  toJSON(): SpriteData {
+    return {
+      ...super.toJSON(),
+      frame: this.frame,
+      flipX: this.flipX,
+      flipY: this.flipY,
+    };
+  }
+
+  /**
+   * Restores a saved state of the sprite. A frame its atlas doesn't have is ignored.
+   * @param {SpriteData} data - The state.
+   * @param {GameEngine} engine - The engine it's loaded into.
+   */
+  fromJSON(data: SpriteData, engine: GameEngine) {
+    super.fromJSON(data, engine);
+    if (this.atlas.hasFrame(data.frame)) this.frame = data.frame;
+    this.flipX = data.flipX;
+    this.flipY = data.flipY;
+  }
+
+  /**
+   * Draws the frame on the canvas, mirrored if flipped.
+   */
+  drawObject() {
+    const ctx = this.ctx;
+    ctx.clearRect(0, 0, this.dims.x, this.dims.y);
+    this.needsRedraw = false;
+    if (!this.atlas.hasFrame(this.#frame)) return;
+
+    const { region, rotated, offset, size } = this.atlas.getFrame(this.#frame);
+    const scaleX = this.dims.x / size.x;
+    const scaleY = this.dims.y / size.y;
+
+    ctx.save();
+    ctx.translate(this.#flipX ? this.dims.x : 0, this.#flipY ? this.dims.y : 0);
+    ctx.scale(this.#flipX ? -scaleX : scaleX, this.#flipY ? -scaleY : scaleY);
+    ctx.translate(offset.x, offset.y);
+    if (rotated) {
+      // Stored turned clockwise, so turn it back. Its height is the region's width
+      ctx.translate(0, region.width);
+      ctx.rotate(-Math.PI / 2);
+    }
+    ctx.drawImage(
+      this.atlas.image,
+      region.x,
+      region.y,
+      region.width,
+      region.height,
+      0,
+      0,
+      region.width,
+      region.height
+    );
+    ctx.restore();
+  }
+}
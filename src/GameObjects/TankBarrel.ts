@@ -0,0 +1,62 @@
+import type { FolderApi } from "tweakpane";
+
+import {
+  GameObject,
+  type GameObjectProps,
+  type IGameObject,
+} from "../Core/GameObject";
+
+/**
+ * Interface for the TankBarrel game object.
+ */
+export interface ITankBarrel extends IGameObject {
+  /** The fill color of the barrel. */
+  color: string;
+}
+
+/**
+ * Props for the TankBarrel game object.
+ */
+export type TankBarrelProps = GameObjectProps & {
+  /** The fill color of the barrel. Defaults to black. */
+  color?: string;
+};
+
+/**
+ * The barrel of a tank's cannon. Attached to a TankTurret, which aims it.
+ */
+export class TankBarrel extends GameObject implements ITankBarrel {
+  /** @inheritdoc */
+  color: string;
+
+  /**
+   * Creates a new TankBarrel object.
+   * @param props The properties for the barrel.
+   */
+  constructor({ color = "black", ...props }: TankBarrelProps) {
+    super(props);
+    this.color = color;
+    this.needsRedraw = true;
+  }
+
+  /**
+   * Adds the color to the debug inspector, redrawing the barrel when it changes.
+   * @param {FolderApi} folder - The inspector folder of the barrel.
+   */
+  inspect(folder: FolderApi) {
+    super.inspect(folder);
+    folder
+      .addBinding(this, "color")
+      .on("change", () => (this.needsRedraw = true));
+  }
+
+  /**
+   * Draws the barrel on the canvas.
+   */
+  drawObject() {
+    this.ctx.clearRect(0, 0, this.dims.x, this.dims.y);
+    this.ctx.fillStyle = this.color ?? "black";
+    this.ctx.fillRect(0, 0, this.dims.x, this.dims.y);
+    this.needsRedraw = false;
+  }
+}
@@ -0,0 +1,96 @@
+import { Vec2 } from "wtc-math";
+import type { FolderApi } from "tweakpane";
+
+import {
+  GameObject,
+  type GameObjectProps,
+  type IGameObject,
+} from "../Core/GameObject";
+import { TankBarrel } from "./TankBarrel";
+
+/**
+ * Interface for the TankTurret game object.
+ */
+export interface ITankTurret extends IGameObject {
+  /** The barrel attached to the turret. */
+  barrel: TankBarrel;
+  /** The fill color of the turret. */
+  color: string;
+}
+
+/**
+ * Props for the TankTurret game object.
+ */
+export type TankTurretProps = Omit<GameObjectProps, "dimensions"> & {
+  /** The radius of the turret dome. */
+  radius: number;
+  /** The length of the barrel. */
+  barrelLength: number;
+  /** The fill color of the turret. Defaults to dark magenta. */
+  color?: string;
+};
+
+/**
+ * The rotating turret of a tank. Its rotation aims the barrel attached to it.
+ */
+export class TankTurret extends GameObject implements ITankTurret {
+  /** @inheritdoc */
+  barrel: TankBarrel;
+  /** @inheritdoc */
+  color: string;
+
+  /**
+   * Creates a new TankTurret object, with its barrel.
+   * @param props The properties for the turret.
+   */
+  constructor({
+    id,
+    radius,
+    barrelLength,
+    color = "darkmagenta",
+    dpr = 2,
+    ...props
+  }: TankTurretProps) {
+    super({ id, dimensions: new Vec2(radius * 2, radius * 2), dpr, ...props });
+    this.color = color;
+    this.needsRedraw = true;
+
+    // The barrel starts inside the dome and points along the turret's x axis
+    this.barrel = new TankBarrel({
+      id: `${id}-barrel`,
+      position: new Vec2(radius * 0.5 + barrelLength / 2, 0),
+      dimensions: new Vec2(barrelLength, radius * 0.4),
+      dpr,
+    });
+    this.addChild(this.barrel);
+  }
+
+  /**
+   * Adds the color to the debug inspector, redrawing the turret when it changes.
+   * @param {FolderApi} folder - The inspector folder of the turret.
+   */
+  inspect(folder: FolderApi) {
+    super.inspect(folder);
+    folder
+      .addBinding(this, "color")
+      .on("change", () => (this.needsRedraw = true));
+  }
+
+  /**
+   * Draws the turret dome on the canvas.
+   */
+  drawObject() {
+    this.ctx.clearRect(0, 0, this.dims.x, this.dims.y);
+    this.ctx.fillStyle = this.color ?? "darkmagenta";
+    this.ctx.beginPath();
+    this.ctx.arc(
+      this.dims.x / 2,
+      this.dims.y / 2,
+      this.dims.x / 2,
+      0,
+      Math.PI * 2
+    );
+    this.ctx.fill();
+    this.needsRedraw = false;
+  }
+}
@@ -1,3 +1,10 @@
 export * from "./Background";
 export * from "./Ground";
 export * from "./Player";
+export * from "./Label";
+export * from "./TankBarrel";
+export * from "./TankTurret";
+export * from "./Projectile";
+export * from "./Sprite";
+export * from "./ParticleEmitter";
+export * from "./ParticlePresets";
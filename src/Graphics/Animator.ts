@@ -0,0 +1,356 @@
+import type { SpriteAtlas } from "./SpriteAtlas";
+
+/**
+ * How a clip carries on after its last frame.
+ */
+export enum AnimationMode {
+  /** Stops on the last frame. */
+  ONCE = "once",
+  /** Starts again from the first frame. */
+  LOOP = "loop",
+  /** Plays backwards to the first frame, then forwards again. */
+  PING_PONG = "pingPong",
+}
+
+/**
+ * A named sequence of atlas frames.
+ */
+export type AnimationClip = {
+  /** The names of the frames, in order. */
+  frames: string[];
+  /** How long each frame is shown in seconds: one duration for all, or one per frame. Defaults to 0.1. */
+  durations?: number | number[];
+  /** How the clip carries on after its last frame. Defaults to looping. */
+  mode?: AnimationMode;
+  /**
+   * How many times a looping or ping-pong clip plays before it stops on its last frame
+   * shown, each bounce of a ping-pong starting a new play. Defaults to for ever.
+   */
+  repeat?: number;
+  /** Events fired when a frame is shown, by frame index. */
+  events?: { [frame: number]: string };
+};
+
+/**
+ * An event fired by an animator: a frame event of a clip, or `end` when a clip
+ * that plays once, or a number of times, finishes.
+ */
+export type AnimationEvent = {
+  /** The name of the event. */
+  name: string;
+  /** The clip that fired it. */
+  clip: string;
+  /** The index of the frame shown when it fired. */
+  frame: number;
+};
+
+/**
+ * A callback for animation events.
+ */
+export type AnimationListener = (event: AnimationEvent) => void;
+
+/**
+ * Arguments for creating an Animator.
+ */
+export type AnimatorArguments = {
+  /** The clips, by name. Defaults to none. */
+  clips?: { [name: string]: AnimationClip };
+  /** The clip to start playing. Defaults to none. */
+  clip?: string;
+  /** The playback speed, where 1 is normal speed. Defaults to 1. */
+  speed?: number;
+};
+
+/**
+ * Interface for animators.
+ */
+export interface IAnimator {
+  /** The playback speed, where 1 is normal speed. */
+  speed: number;
+  /** Whether the current clip is playing. */
+  playing: boolean;
+  /** The name of the current clip, if any. */
+  clip: string | null;
+  /** The index of the frame shown in the current clip. */
+  frameIndex: number;
+  /** The name of the frame shown, if a clip is set. */
+  frame: string | null;
+  /**
+   * Adds a clip, replacing any clip with the same name.
+   * @param {string} name - The name of the clip.
+   * @param {AnimationClip} clip - The clip.
+   */
+  addClip(name: string, clip: AnimationClip): void;
+  /**
+   * Plays a clip from its first frame. Playing the current clip again carries on
+   * where it is, unless `restart` is set.
+   * @param {string} name - The name of the clip.
+   * @param {boolean} restart - Whether to restart the clip if it's already the current one.
+   */
+  play(name: string, restart?: boolean): void;
+  /**
+   * Stops on the frame shown.
+   */
+  stop(): void;
+  /**
+   * Advances the current clip.
+   * @param {number} deltaTime - The time elapsed in seconds.
+   */
+  update(deltaTime: number): void;
+}
+
+/** The duration of a frame when a clip doesn't give one, in seconds. */
+const DEFAULT_FRAME_DURATION = 0.1;
+
+/**
+ * Plays named clips of atlas frames, one frame after another for as long as each frame lasts.
+ * Advanced by whatever owns it, such as a `Sprite` every tick, so animations are
+ * deterministic. Listeners hear frame events and the end of clips that play once.
+ */
+export class Animator implements IAnimator {
+  /** @inheritdoc */
+  speed: number;
+  /** @inheritdoc */
+  playing: boolean = false;
+
+  /**
+   * The clips, by name.
+   * @private
+   */
+  #clips: Map<string, AnimationClip> = new Map();
+
+  /**
+   * The name of the current clip.
+   * @private
+   */
+  #clip: string | null = null;
+
+  /**
+   * The index of the frame shown.
+   * @private
+   */
+  #frameIndex: number = 0;
+
+  /**
+   * How long the frame has been shown for, in seconds.
+   * @private
+   */
+  #elapsed: number = 0;
+
+  /**
+   * The direction a ping-pong clip is going in: 1 forwards, -1 backwards.
+   * @private
+   */
+  #direction: 1 | -1 = 1;
+
+  /**
+   * How many times the current clip has played through.
+   * @private
+   */
+  #plays: number = 0;
+
+  /**
+   * The listeners for animation events.
+   * @private
+   */
+  #listeners: Set<AnimationListener> = new Set();
+
+  /**
+   * Creates a new Animator.
+   * @param {AnimatorArguments} args - The arguments for the animator.
+   */
+  constructor({ clips = {}, clip, speed = 1 }: AnimatorArguments = {}) {
+    this.speed = speed;
+    Object.entries(clips).forEach(([name, c]) => this.addClip(name, c));
+    if (clip) this.play(clip);
+  }
+
+  /** @inheritdoc */
+  get clip(): string | null {
+    return this.#clip;
+  }
+
+  /** @inheritdoc */
+  get frameIndex(): number {
+    return this.#frameIndex;
+  }
+
+  /** @inheritdoc */
+  get frame(): string | null {
+    if (!this.#clip) return null;
+    return this.#clips.get(this.#clip)?.frames[this.#frameIndex] ?? null;
+  }
+
+  /**
+   * Adds a clip, replacing any clip with the same name.
+   * @param {string} name - The name of the clip.
+   * @param {AnimationClip} clip - The clip.
+   * @throws {Error} If the clip has no frames, its durations don't match its frames or aren't positive,
+   * or its repeat isn't a positive whole number.
+   */
+  addClip(name: string, clip: AnimationClip) {
+    if (clip.frames.length === 0)
+      throw new Error(`The clip "${name}" has no frames.`);
+    const { durations = DEFAULT_FRAME_DURATION } = clip;
+    if (Array.isArray(durations) && durations.length !== clip.frames.length)
+      throw new Error(
+        `The clip "${name}" has ${clip.frames.length} frames but ${durations.length} durations.`
+      );
+    if ([durations].flat().some((duration) => !(duration > 0)))
+      throw new Error(`The durations of the clip "${name}" must be positive.`);
+    if (
+      clip.repeat !== undefined &&
+      !(Number.isInteger(clip.repeat) && clip.repeat > 0)
+    )
+      throw new Error(
+        `The repeat of the clip "${name}" must be a positive whole number.`
+      );
+    this.#clips.set(name, clip);
+  }
+
+  /**
+   * Plays a clip from its first frame. Playing the current clip again carries on
+   * where it is, unless `restart` is set.
+   * @param {string} name - The name of the clip.
+   * @param {boolean} restart - Whether to restart the clip if it's already the current one.
+   * @throws {Error} If there is no clip with that name.
+   */
+  play(name: string, restart: boolean = false) {
+    if (!this.#clips.has(name))
+      throw new Error(`The animator has no clip "${name}".`);
+    if (name === this.#clip && !restart) {
+      this.playing = true;
+      return;
+    }
+    this.#clip = name;
+    this.#frameIndex = 0;
+    this.#elapsed = 0;
+    this.#direction = 1;
+    this.#plays = 0;
+    this.playing = true;
+    this.#emitFrameEvent();
+  }
+
+  /** @inheritdoc */
+  stop() {
+    this.playing = false;
+  }
+
+  /** @inheritdoc */
+  update(deltaTime: number) {
+    const clip = this.#clip ? this.#clips.get(this.#clip) : undefined;
+    if (!this.playing || !clip) return;
+
+    this.#elapsed += deltaTime * this.speed;
+    let duration = this.#duration(clip);
+    while (this.playing && this.#elapsed >= duration) {
+      this.#elapsed -= duration;
+      this.#advance(clip);
+      duration = this.#duration(clip);
+    }
+  }
+
+  /**
+   * Adds a callback for animation events.
+   * @param {AnimationListener} callback - Called with each event.
+   */
+  addListener(callback: AnimationListener) {
+    this.#listeners.add(callback);
+  }
+
+  /**
+   * Removes a callback added with `addListener`.
+   * @param {AnimationListener} callback - The callback to remove.
+   */
+  removeListener(callback: AnimationListener) {
+    this.#listeners.delete(callback);
+  }
+
+  /**
+   * Makes clips from the frame tags of an atlas, such as the tags of an Aseprite export.
+   * Frames last as long as the atlas says, and the tag's direction and repeat count are kept.
+   * @param {SpriteAtlas} atlas - The atlas.
+   * @returns {{ [name: string]: AnimationClip }} A clip for each tag, by tag name.
+   */
+  static clipsFromAtlas(atlas: SpriteAtlas): {
+    [name: string]: AnimationClip;
+  } {
+    const clips: { [name: string]: AnimationClip } = {};
+    atlas.tags.forEach(({ name, from, to, direction, repeat }) => {
+      const frames = atlas.frames.slice(from, to + 1);
+      if (direction === "reverse" || direction === "pingpong_reverse")
+        frames.reverse();
+      const pingPong =
+        direction === "pingpong" || direction === "pingpong_reverse";
+      clips[name] = {
+        frames: frames.map((frame) => frame.name),
+        durations: frames.map(
+          (frame) => frame.duration ?? DEFAULT_FRAME_DURATION
+        ),
+        mode: pingPong
+          ? AnimationMode.PING_PONG
+          : repeat === 1
+          ? AnimationMode.ONCE
+          : AnimationMode.LOOP,
+      };
+      if (repeat !== null) clips[name].repeat = repeat;
+    });
+    return clips;
+  }
+
+  /**
+   * Gets how long the frame shown lasts.
+   */
+  #duration(clip: AnimationClip): number {
+    const { durations = DEFAULT_FRAME_DURATION } = clip;
+    return Array.isArray(durations) ? durations[this.#frameIndex] : durations;
+  }
+
+  /**
+   * Moves on to the next frame of a clip, or ends it once it has played as many
+   * times as it repeats.
+   */
+  #advance(clip: AnimationClip) {
+    const last = clip.frames.length - 1;
+    const mode = clip.mode ?? AnimationMode.LOOP;
+    let next = this.#frameIndex + this.#direction;
+
+    if (next < 0 || next > last) {
+      this.#plays++;
+      const repeat = mode === AnimationMode.ONCE ? 1 : clip.repeat;
+      if (repeat !== undefined && this.#plays >= repeat) {
+        this.playing = false;
+        this.#elapsed = 0;
+        this.#emit("end");
+        return;
+      }
+      if (mode === AnimationMode.PING_PONG) {
+        if (last === 0) return;
+        this.#direction = this.#direction === 1 ? -1 : 1;
+        next = this.#frameIndex + this.#direction;
+      } else {
+        next = 0;
+      }
+    }
+
+    this.#frameIndex = next;
+    this.#emitFrameEvent();
+  }
+
+  /**
+   * Fires the event of the frame shown, if it has one.
+   */
+  #emitFrameEvent() {
+    const clip = this.#clip ? this.#clips.get(this.#clip) : undefined;
+    const name = clip?.events?.[this.#frameIndex];
+    if (name) this.#emit(name);
+  }
+
+  /**
+   * Calls every listener with an event.
+   */
+  #emit(name: string) {
+    const event = { name, clip: this.#clip ?? "", frame: this.#frameIndex };
+    [...this.#listeners].forEach((listener) => listener(event));
+  }
+}
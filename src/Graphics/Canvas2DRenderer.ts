@@ -0,0 +1,59 @@
+import type { Vec2 } from "wtc-math";
+
+import type { Renderer, Surface } from "./Renderer";
+import type { Rectangle } from "../Helpers/Rectangle";
+
+/**
+ * Draws the game to a canvas with the Canvas 2D API. Surfaces are offscreen canvases.
+ */
+export class Canvas2DRenderer implements Renderer {
+  /** The canvas drawn to. */
+  readonly canvas: HTMLCanvasElement;
+  /** @inheritdoc */
+  readonly ctx: CanvasRenderingContext2D;
+
+  /**
+   * Creates a new Canvas2DRenderer.
+   * @param {HTMLCanvasElement} canvas - The canvas to draw to.
+   * @throws {Error} If the canvas has no 2D context.
+   */
+  constructor(canvas: HTMLCanvasElement) {
+    const ctx: CanvasRenderingContext2D | null = canvas.getContext("2d");
+    if (!ctx) throw new Error("Context not able to be created.");
+    this.canvas = canvas;
+    this.ctx = ctx;
+  }
+
+  /** @inheritdoc */
+  resize(dimensions: Vec2, dpr: number) {
+    this.canvas.width = dimensions.x * dpr;
+    this.canvas.height = dimensions.y * dpr;
+    this.ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  }
+
+  /** @inheritdoc */
+  clear(regions?: Rectangle[]) {
+    if (regions) {
+      regions.forEach(({ x, y, width, height }) =>
+        this.ctx.clearRect(x, y, width, height)
+      );
+      return;
+    }
+    // The context is scaled to logical pixels, and the canvas is sized in device pixels
+    this.ctx.save();
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    this.ctx.restore();
+  }
+
+  /** @inheritdoc */
+  createSurface(width: number, height: number, dpr: number): Surface {
+    const canvas = document.createElement("canvas");
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Could not get 2d context");
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    ctx.scale(dpr, dpr);
+    return { image: canvas, ctx };
+  }
+}
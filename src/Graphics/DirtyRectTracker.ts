@@ -0,0 +1,160 @@
+import { Vec2 } from "wtc-math";
+
+import type { GameEngine } from "../Core/GameEngine";
+import { Rectangle } from "../Helpers/Rectangle";
+
+/**
+ * The logical pixels added around each dirty area, for antialiased edges.
+ */
+const DIRTY_PADDING = 2;
+
+/**
+ * The fraction of the screen above which the whole screen is repainted instead,
+ * as clipping to many regions stops paying off.
+ */
+const MAX_DIRTY_FRACTION = 0.5;
+
+/**
+ * Merges overlapping rectangles until none overlap.
+ * @param rects The rectangles.
+ * @returns The merged rectangles.
+ */
+function mergeRects(rects: Rectangle[]): Rectangle[] {
+  const merged = [...rects];
+  for (let i = 0; i < merged.length; i++) {
+    for (let j = i + 1; j < merged.length; j++) {
+      if (!merged[i].intersects(merged[j])) continue;
+      merged[i] = merged[i].union(merged[j]);
+      merged.splice(j, 1);
+      // The grown rectangle may overlap ones already checked
+      j = i;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Works out which parts of the screen need repainting each frame: where the dynamic
+ * objects of the visible scenes are drawn this frame, and where they were drawn last
+ * frame. Static objects only change when their cached image is rebuilt, so anything
+ * else is left as it was.
+ *
+ * The whole screen is repainted when the view changes: when the camera, a layer or
+ * the visible scenes change, a scene transition or the debug overlay is shown, or a
+ * static image is rebuilt. It's also repainted while an object may draw anywhere,
+ * which it says by having no `renderBounds`, and when the regions would cover much
+ * of the screen anyway.
+ *
+ * Anything drawn to the screen outside of game objects, such as in `afterDraw`
+ * handlers, is only repainted where it overlaps the regions.
+ */
+export class DirtyRectTracker {
+  /**
+   * The screen areas of the dynamic objects drawn last frame, or null if they're unknown.
+   * @private
+   */
+  #previous: Rectangle[] | null = null;
+
+  /**
+   * The state of the view last frame.
+   * @private
+   */
+  #view: string = "";
+
+  /**
+   * Gets the regions of the screen to repaint this frame, and remembers where the
+   * dynamic objects are for the next one.
+   * @param {GameEngine} engine - The game engine instance.
+   * @param {boolean} full - Whether the whole screen already needs repainting.
+   * @returns {Rectangle[] | null} The regions in logical pixels, or null to repaint the whole screen.
+   */
+  regions(engine: GameEngine, full: boolean): Rectangle[] | null {
+    const view = this.#viewOf(engine);
+    const current = this.#dynamicAreas(engine);
+    const previous = this.#previous;
+    const viewChanged = view !== this.#view;
+    this.#previous = current;
+    this.#view = view;
+    if (full || viewChanged || !current || !previous) return null;
+
+    const screen = new Rectangle(0, 0, engine.dims.x, engine.dims.y);
+    const regions = mergeRects([...previous, ...current]).filter((region) =>
+      region.intersects(screen)
+    );
+    const area = regions.reduce(
+      (sum, region) => sum + region.width * region.height,
+      0
+    );
+    if (area > screen.width * screen.height * MAX_DIRTY_FRACTION) return null;
+    return regions;
+  }
+
+  /**
+   * Forgets where the dynamic objects were, so the next frame repaints the whole screen.
+   */
+  reset() {
+    this.#previous = null;
+  }
+
+  /**
+   * Describes everything that moves the whole screen when it changes.
+   */
+  #viewOf(engine: GameEngine): string {
+    const { camera, alpha, layers, scenes } = engine;
+    const position = Vec2.lerp(camera.previousPosition, camera.position, alpha);
+    return [
+      position.x,
+      position.y,
+      camera.zoom,
+      camera.rotation,
+      camera.viewport.x,
+      camera.viewport.y,
+      layers.all
+        .map(({ name, parallax, screen }) => `${name}:${parallax}:${screen}`)
+        .join(),
+      scenes.visibleScenes.map((scene) => scene.id).join(),
+      scenes.transitioning,
+      engine.debug.enabled,
+      engine.cacheStaticLayers,
+    ].join("|");
+  }
+
+  /**
+   * Gets the screen areas of the dynamic root objects of the visible scenes,
+   * covering where they are this tick and where they were last tick.
+   * @returns The areas, or null if an object may draw anywhere.
+   */
+  #dynamicAreas(engine: GameEngine): Rectangle[] | null {
+    const { camera, layers, alpha } = engine;
+    const areas: Rectangle[] = [];
+    for (const scene of engine.scenes.visibleScenes) {
+      for (const obj of scene.drawOrder(layers)) {
+        if (obj.isStatic && engine.cacheStaticLayers) continue;
+        const bounds = obj.renderBounds;
+        if (!bounds) return null;
+        // Drawn between where it was last tick and where it is now
+        const moved = obj.previousPosition.subtractNew(obj.position);
+        const area = bounds.union(
+          new Rectangle(
+            bounds.x + moved.x,
+            bounds.y + moved.y,
+            bounds.width,
+            bounds.height
+          )
+        );
+        const screen = camera.layerToScreen(area, layers.get(obj.layer), alpha);
+        const left = Math.floor(screen.x) - DIRTY_PADDING;
+        const top = Math.floor(screen.y) - DIRTY_PADDING;
+        areas.push(
+          new Rectangle(
+            left,
+            top,
+            Math.ceil(screen.x + screen.width) + DIRTY_PADDING - left,
+            Math.ceil(screen.y + screen.height) + DIRTY_PADDING - top
+          )
+        );
+      }
+    }
+    return areas;
+  }
+}
@@ -0,0 +1,65 @@
+import type { Vec2 } from "wtc-math";
+
+import { RecordingContext, type DrawCall } from "./RecordingContext";
+import type { Renderer, Surface } from "./Renderer";
+import type { Rectangle } from "../Helpers/Rectangle";
+
+/**
+ * A renderer that draws nothing, but records every call made to the screen and to
+ * each surface, for tests and for engines that run without a DOM, such as in Node.
+ * Each surface's context is a RecordingContext too, and is also its image.
+ *
+ * @example
+ * const renderer = new HeadlessRenderer();
+ * const engine = new GameEngine({ renderer, audio: new MemoryAudioBackend() });
+ * engine.addObject(player);
+ * engine.step();
+ * renderer.ctx.callsTo("drawImage").some((call) => call.args[0] === player.c); // true
+ */
+export class HeadlessRenderer implements Renderer {
+  /** How many frames have been started with `clear`. */
+  frames: number = 0;
+
+  /**
+   * The context of the screen.
+   * @private
+   */
+  #ctx: RecordingContext = new RecordingContext(0, 0);
+
+  /** @inheritdoc */
+  get ctx(): RecordingContext {
+    return this.#ctx;
+  }
+
+  /**
+   * Gets the calls made to the screen since the current frame started.
+   * @returns {DrawCall[]} The calls, in order.
+   */
+  get calls(): DrawCall[] {
+    return this.#ctx.calls;
+  }
+
+  /** @inheritdoc */
+  resize(dimensions: Vec2, dpr: number) {
+    this.#ctx = new RecordingContext(dimensions.x, dimensions.y, dpr);
+  }
+
+  /**
+   * Starts a new frame, dropping the calls made to the screen so far.
+   * Clearing regions records a `clearRect` for each.
+   * @param {Rectangle[]} regions - The areas to clear, in logical pixels. Defaults to the whole screen.
+   */
+  clear(regions?: Rectangle[]) {
+    this.#ctx.clearCalls();
+    regions?.forEach(({ x, y, width, height }) =>
+      this.#ctx.clearRect(x, y, width, height)
+    );
+    this.frames++;
+  }
+
+  /** @inheritdoc */
+  createSurface(width: number, height: number, dpr: number): Surface {
+    const ctx = new RecordingContext(width, height, dpr);
+    return { image: ctx, ctx };
+  }
+}
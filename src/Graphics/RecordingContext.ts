@@ -0,0 +1,351 @@
+import type { RenderContext, RenderImage, SurfaceImage } from "./Renderer";
+
+/**
+ * A 2D transform, as the `a` to `f` arguments of `setTransform`.
+ * A point (x, y) is transformed to (a * x + c * y + e, b * x + d * y + f).
+ */
+export type Transform = [number, number, number, number, number, number];
+
+/**
+ * The name of one of the methods of a render context.
+ */
+export type DrawMethod = {
+  [K in keyof RenderContext]: RenderContext[K] extends (
+    ...args: never[]
+  ) => void
+    ? K
+    : never;
+}[keyof RenderContext];
+
+/**
+ * The styles of a render context, saved with `save`.
+ */
+type DrawStyles = Pick<
+  RenderContext,
+  | "fillStyle"
+  | "strokeStyle"
+  | "lineWidth"
+  | "globalAlpha"
+  | "globalCompositeOperation"
+  | "font"
+  | "textAlign"
+  | "textBaseline"
+>;
+
+/**
+ * A call made to a RecordingContext, with the styles and transform it was made with.
+ */
+export type DrawCall = DrawStyles & {
+  /** The method called. */
+  method: DrawMethod;
+  /** The arguments it was called with. */
+  args: unknown[];
+  /** The transform, from logical pixels to device pixels. */
+  transform: Transform;
+};
+
+/**
+ * Multiplies two transforms, applying `second` before `first`.
+ * @param first The outer transform.
+ * @param second The inner transform.
+ * @returns The combined transform.
+ */
+function multiply(first: Transform, second: Transform): Transform {
+  const [a, b, c, d, e, f] = first;
+  const [a2, b2, c2, d2, e2, f2] = second;
+  return [
+    a * a2 + c * b2,
+    b * a2 + d * b2,
+    a * c2 + c * d2,
+    b * c2 + d * d2,
+    a * e2 + c * f2 + e,
+    b * e2 + d * f2 + f,
+  ];
+}
+
+/**
+ * A render context that draws nothing, but keeps a list of the calls made to it,
+ * with the styles and transform each was made with. It's also the image of its
+ * surface, so drawing a surface records the surface's context as the image.
+ *
+ * Clearing the whole context drops the calls made before, so a surface that's
+ * redrawn doesn't pile up calls.
+ *
+ * @example
+ * const ctx = new RecordingContext(100, 100);
+ * ctx.fillStyle = "red";
+ * ctx.fillRect(0, 0, 10, 10);
+ * ctx.callsTo("fillRect")[0].fillStyle; // "red"
+ */
+export class RecordingContext implements RenderContext, SurfaceImage {
+  /** @inheritdoc */
+  readonly width: number;
+  /** @inheritdoc */
+  readonly height: number;
+  /** The calls made since the context was last cleared. */
+  calls: DrawCall[] = [];
+
+  /** @inheritdoc */
+  fillStyle: string | CanvasGradient | CanvasPattern = "#000000";
+  /** @inheritdoc */
+  strokeStyle: string | CanvasGradient | CanvasPattern = "#000000";
+  /** @inheritdoc */
+  lineWidth: number = 1;
+  /** @inheritdoc */
+  globalAlpha: number = 1;
+  /** @inheritdoc */
+  globalCompositeOperation: GlobalCompositeOperation = "source-over";
+  /** @inheritdoc */
+  font: string = "10px sans-serif";
+  /** @inheritdoc */
+  textAlign: CanvasTextAlign = "start";
+  /** @inheritdoc */
+  textBaseline: CanvasTextBaseline = "alphabetic";
+
+  /**
+   * The current transform.
+   * @private
+   */
+  #transform: Transform;
+
+  /**
+   * The current line dash pattern.
+   * @private
+   */
+  #lineDash: number[] = [];
+
+  /**
+   * The styles, transforms and dash patterns saved with `save`.
+   * @private
+   */
+  #saved: { styles: DrawStyles; transform: Transform; lineDash: number[] }[] =
+    [];
+
+  /**
+   * Creates a new RecordingContext, scaled so it's in logical pixels.
+   * @param {number} width - The width in logical pixels.
+   * @param {number} height - The height in logical pixels.
+   * @param {number} dpr - The device pixel ratio. Defaults to 1.
+   */
+  constructor(width: number, height: number, dpr: number = 1) {
+    this.width = width * dpr;
+    this.height = height * dpr;
+    this.#transform = [dpr, 0, 0, dpr, 0, 0];
+  }
+
+  /**
+   * Gets the current transform.
+   * @returns {Transform} A copy of the transform.
+   */
+  get transform(): Transform {
+    return [...this.#transform];
+  }
+
+  /**
+   * Gets the current line dash pattern.
+   * @returns {number[]} A copy of the pattern.
+   */
+  get lineDash(): number[] {
+    return [...this.#lineDash];
+  }
+
+  /**
+   * Gets the calls made to a method since the context was last cleared.
+   * @param {DrawMethod} method - The method.
+   * @returns {DrawCall[]} The calls, in order.
+   */
+  callsTo(method: DrawMethod): DrawCall[] {
+    return this.calls.filter((call) => call.method === method);
+  }
+
+  /**
+   * Drops the calls recorded so far, keeping the styles and transform.
+   */
+  clearCalls() {
+    this.calls = [];
+  }
+
+  /** @inheritdoc */
+  save() {
+    this.#record("save", []);
+    this.#saved.push({
+      styles: this.#styles(),
+      transform: this.transform,
+      lineDash: this.lineDash,
+    });
+  }
+
+  /** @inheritdoc */
+  restore() {
+    this.#record("restore", []);
+    const saved = this.#saved.pop();
+    if (!saved) return;
+    Object.assign(this, saved.styles);
+    this.#transform = saved.transform;
+    this.#lineDash = saved.lineDash;
+  }
+
+  /** @inheritdoc */
+  translate(x: number, y: number) {
+    this.#record("translate", [x, y]);
+    this.#transform = multiply(this.#transform, [1, 0, 0, 1, x, y]);
+  }
+
+  /** @inheritdoc */
+  rotate(angle: number) {
+    this.#record("rotate", [angle]);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.#transform = multiply(this.#transform, [cos, sin, -sin, cos, 0, 0]);
+  }
+
+  /** @inheritdoc */
+  scale(x: number, y: number) {
+    this.#record("scale", [x, y]);
+    this.#transform = multiply(this.#transform, [x, 0, 0, y, 0, 0]);
+  }
+
+  /** @inheritdoc */
+  setTransform(
+    a: number,
+    b: number,
+    c: number,
+    d: number,
+    e: number,
+    f: number
+  ) {
+    this.#record("setTransform", [a, b, c, d, e, f]);
+    this.#transform = [a, b, c, d, e, f];
+  }
+
+  /** @inheritdoc */
+  clearRect(x: number, y: number, width: number, height: number) {
+    if (this.#coversAll(x, y, width, height)) this.clearCalls();
+    this.#record("clearRect", [x, y, width, height]);
+  }
+
+  /** @inheritdoc */
+  fillRect(x: number, y: number, width: number, height: number) {
+    this.#record("fillRect", [x, y, width, height]);
+  }
+
+  /** @inheritdoc */
+  strokeRect(x: number, y: number, width: number, height: number) {
+    this.#record("strokeRect", [x, y, width, height]);
+  }
+
+  /** @inheritdoc */
+  beginPath() {
+    this.#record("beginPath", []);
+  }
+
+  /** @inheritdoc */
+  closePath() {
+    this.#record("closePath", []);
+  }
+
+  /** @inheritdoc */
+  moveTo(x: number, y: number) {
+    this.#record("moveTo", [x, y]);
+  }
+
+  /** @inheritdoc */
+  lineTo(x: number, y: number) {
+    this.#record("lineTo", [x, y]);
+  }
+
+  /** @inheritdoc */
+  arc(
+    x: number,
+    y: number,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise: boolean = false
+  ) {
+    this.#record("arc", [x, y, radius, startAngle, endAngle, counterclockwise]);
+  }
+
+  /** @inheritdoc */
+  rect(x: number, y: number, width: number, height: number) {
+    this.#record("rect", [x, y, width, height]);
+  }
+
+  /** @inheritdoc */
+  clip() {
+    this.#record("clip", []);
+  }
+
+  /** @inheritdoc */
+  fill() {
+    this.#record("fill", []);
+  }
+
+  /** @inheritdoc */
+  stroke() {
+    this.#record("stroke", []);
+  }
+
+  /** @inheritdoc */
+  setLineDash(segments: number[]) {
+    this.#record("setLineDash", [[...segments]]);
+    this.#lineDash = [...segments];
+  }
+
+  /** @inheritdoc */
+  fillText(text: string, x: number, y: number, maxWidth?: number) {
+    this.#record(
+      "fillText",
+      maxWidth === undefined ? [text, x, y] : [text, x, y, maxWidth]
+    );
+  }
+
+  /** @inheritdoc */
+  drawImage(image: RenderImage, ...args: number[]) {
+    this.#record("drawImage", [image, ...args]);
+  }
+
+  /**
+   * Gets the current styles.
+   */
+  #styles(): DrawStyles {
+    return {
+      fillStyle: this.fillStyle,
+      strokeStyle: this.strokeStyle,
+      lineWidth: this.lineWidth,
+      globalAlpha: this.globalAlpha,
+      globalCompositeOperation: this.globalCompositeOperation,
+      font: this.font,
+      textAlign: this.textAlign,
+      textBaseline: this.textBaseline,
+    };
+  }
+
+  /**
+   * Notes a call, with the current styles and transform.
+   */
+  #record(method: DrawMethod, args: unknown[]) {
+    this.calls.push({
+      ...this.#styles(),
+      method,
+      args,
+      transform: this.transform,
+    });
+  }
+
+  /**
+   * Whether a rectangle covers the whole context, once transformed.
+   * Only unrotated transforms are checked, anything else is assumed not to.
+   */
+  #coversAll(x: number, y: number, width: number, height: number): boolean {
+    const [a, b, c, d, e, f] = this.#transform;
+    if (b !== 0 || c !== 0) return false;
+    const left = Math.min(a * x, a * (x + width)) + e;
+    const right = Math.max(a * x, a * (x + width)) + e;
+    const top = Math.min(d * y, d * (y + height)) + f;
+    const bottom = Math.max(d * y, d * (y + height)) + f;
+    return (
+      left <= 0 && top <= 0 && right >= this.width && bottom >= this.height
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import type { Vec2 } from "wtc-math";
+
+import type { Rectangle } from "../Helpers/Rectangle";
+
+/**
+ * The image of a surface from a renderer that doesn't draw to real canvases.
+ */
+export interface SurfaceImage {
+  /** The width in device pixels. */
+  readonly width: number;
+  /** The height in device pixels. */
+  readonly height: number;
+}
+
+/**
+ * Something a render context can draw: a loaded image, or the image of a surface.
+ * The image of a surface can only be drawn by the renderer that created it.
+ */
+export type RenderImage = CanvasImageSource | SurfaceImage;
+
+/**
+ * The part of the Canvas 2D API the engine and game objects draw with.
+ * A `CanvasRenderingContext2D` is one, so game objects draw the same way whatever
+ * the renderer.
+ */
+export interface RenderContext {
+  /** The color or style shapes are filled with. */
+  fillStyle: string | CanvasGradient | CanvasPattern;
+  /** The color or style outlines are drawn with. */
+  strokeStyle: string | CanvasGradient | CanvasPattern;
+  /** The width of outlines. */
+  lineWidth: number;
+  /** The opacity everything is drawn with, from 0 to 1. */
+  globalAlpha: number;
+  /** How what's drawn is blended with what's already there. */
+  globalCompositeOperation: GlobalCompositeOperation;
+  /** The CSS font text is drawn with. */
+  font: string;
+  /** How text is aligned to the point it's drawn at. */
+  textAlign: CanvasTextAlign;
+  /** Where text sits relative to the point it's drawn at. */
+  textBaseline: CanvasTextBaseline;
+  /** Saves the styles and transform, to be restored with `restore`. */
+  save(): void;
+  /** Restores the styles and transform saved last. */
+  restore(): void;
+  translate(x: number, y: number): void;
+  rotate(angle: number): void;
+  scale(x: number, y: number): void;
+  setTransform(
+    a: number,
+    b: number,
+    c: number,
+    d: number,
+    e: number,
+    f: number
+  ): void;
+  clearRect(x: number, y: number, width: number, height: number): void;
+  fillRect(x: number, y: number, width: number, height: number): void;
+  strokeRect(x: number, y: number, width: number, height: number): void;
+  beginPath(): void;
+  closePath(): void;
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  arc(
+    x: number,
+    y: number,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise?: boolean
+  ): void;
+  rect(x: number, y: number, width: number, height: number): void;
+  /** Restricts drawing to the current path, until the state is restored. */
+  clip(): void;
+  fill(): void;
+  stroke(): void;
+  setLineDash(segments: number[]): void;
+  fillText(text: string, x: number, y: number, maxWidth?: number): void;
+  drawImage(
+    image: RenderImage,
+    dx: number,
+    dy: number,
+    dw: number,
+    dh: number
+  ): void;
+  drawImage(
+    image: RenderImage,
+    sx: number,
+    sy: number,
+    sw: number,
+    sh: number,
+    dx: number,
+    dy: number,
+    dw: number,
+    dh: number
+  ): void;
+}
+
+/**
+ * An offscreen image that's drawn on once and drawn to the screen many times,
+ * such as the canvas of a game object.
+ */
+export interface Surface {
+  /** The image, to draw with the context of the renderer that created the surface. */
+  readonly image: RenderImage;
+  /** The context that draws on the surface, in logical pixels. */
+  readonly ctx: RenderContext;
+}
+
+/**
+ * Draws the game to the screen. The engine, and each game object's `render`,
+ * draw through one, so it can be swapped, such as for a headless stand-in that
+ * runs in tests without a DOM.
+ */
+export interface Renderer {
+  /** The context that draws to the screen, in logical pixels. */
+  readonly ctx: RenderContext;
+  /**
+   * Sizes the screen.
+   * @param {Vec2} dimensions - The size in logical pixels.
+   * @param {number} dpr - The device pixel ratio.
+   */
+  resize(dimensions: Vec2, dpr: number): void;
+  /**
+   * Clears the screen, or parts of it, to draw a new frame.
+   * @param {Rectangle[]} regions - The areas to clear, in logical pixels. Defaults to the whole screen.
+   */
+  clear(regions?: Rectangle[]): void;
+  /**
+   * Creates an offscreen surface.
+   * @param {number} width - The width in logical pixels.
+   * @param {number} height - The height in logical pixels.
+   * @param {number} dpr - The device pixel ratio.
+   * @returns {Surface} The surface, empty.
+   */
+  createSurface(width: number, height: number, dpr: number): Surface;
+}
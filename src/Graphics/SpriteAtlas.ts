@@ -0,0 +1,256 @@
+import { Vec2 } from "wtc-math";
+
+import { Rectangle } from "../Helpers/Rectangle";
+
+/**
+ * A frame of an atlas.
+ */
+export type AtlasFrame = {
+  /** The name of the frame, such as its file name. */
+  name: string;
+  /** The area of the image holding the frame. Width and height are swapped for rotated frames. */
+  region: Rectangle;
+  /** Whether the frame is stored rotated 90° clockwise in the image. */
+  rotated: boolean;
+  /** Where the stored, possibly trimmed, frame sits within its original size. */
+  offset: Vec2;
+  /** The original size of the frame, before any transparent border was trimmed. */
+  size: Vec2;
+  /** How long the frame is shown for in seconds, if the atlas says. */
+  duration: number | null;
+};
+
+/**
+ * The direction a tag plays its frames in, as exported by Aseprite.
+ */
+export type AtlasTagDirection =
+  | "forward"
+  | "reverse"
+  | "pingpong"
+  | "pingpong_reverse";
+
+/**
+ * A named range of frames, such as an Aseprite frame tag.
+ */
+export type AtlasTag = {
+  /** The name of the tag. */
+  name: string;
+  /** The index of the first frame. */
+  from: number;
+  /** The index of the last frame, inclusive. */
+  to: number;
+  /** The direction the frames are played in. */
+  direction: AtlasTagDirection;
+  /** How many times the tag plays before stopping, or null to loop for ever. */
+  repeat: number | null;
+};
+
+/**
+ * Interface for sprite atlases.
+ */
+export interface ISpriteAtlas {
+  /** The image holding every frame. */
+  image: CanvasImageSource;
+  /** The frames, in the order they were defined. */
+  frames: AtlasFrame[];
+  /** The named ranges of frames. */
+  tags: AtlasTag[];
+  /**
+   * Gets a frame by name.
+   * @param {string} name - The name of the frame.
+   * @returns {AtlasFrame} The frame.
+   */
+  getFrame(name: string): AtlasFrame;
+  /**
+   * Checks if the atlas has a frame.
+   * @param {string} name - The name of the frame.
+   * @returns {boolean} True if the frame exists.
+   */
+  hasFrame(name: string): boolean;
+}
+
+/**
+ * Arguments for creating a SpriteAtlas.
+ */
+export type SpriteAtlasArguments = {
+  /** The image holding every frame. */
+  image: CanvasImageSource;
+  /** The frames, in order. */
+  frames: AtlasFrame[];
+  /** The named ranges of frames. Defaults to none. */
+  tags?: AtlasTag[];
+};
+
+/**
+ * A frame as written by TexturePacker or Aseprite, in either the hash or the array layout.
+ */
+type JSONFrame = {
+  filename?: string;
+  frame: { x: number; y: number; w: number; h: number };
+  rotated?: boolean;
+  trimmed?: boolean;
+  spriteSourceSize?: { x: number; y: number; w: number; h: number };
+  sourceSize?: { w: number; h: number };
+  duration?: number;
+};
+
+/**
+ * A frame tag as written by Aseprite.
+ */
+type JSONTag = {
+  name: string;
+  from: number;
+  to: number;
+  direction?: string;
+  repeat?: string | number;
+};
+
+/**
+ * Checks if a value is a frame as written by TexturePacker or Aseprite.
+ * @param value The value to check.
+ * @returns `true` if the value has a frame rectangle.
+ */
+function isJSONFrame(value: unknown): value is JSONFrame {
+  if (typeof value !== "object" || value === null) return false;
+  const frame = (value as Record<string, unknown>).frame as
+    | Record<string, unknown>
+    | undefined;
+  return (
+    typeof frame === "object" &&
+    frame !== null &&
+    ["x", "y", "w", "h"].every((key) => typeof frame[key] === "number")
+  );
+}
+
+/**
+ * Converts a frame as written by TexturePacker or Aseprite.
+ * @param name The name of the frame.
+ * @param json The frame.
+ * @returns The frame.
+ */
+function toAtlasFrame(name: string, json: JSONFrame): AtlasFrame {
+  const { x, y, w, h } = json.frame;
+  const rotated = json.rotated === true;
+  const trim = json.spriteSourceSize ?? { x: 0, y: 0, w, h };
+  const size = json.sourceSize ?? { w: trim.w, h: trim.h };
+  return {
+    name,
+    // Rotated frames give the size of the frame, not of its area in the image
+    region: rotated ? new Rectangle(x, y, h, w) : new Rectangle(x, y, w, h),
+    rotated,
+    offset: new Vec2(trim.x, trim.y),
+    size: new Vec2(size.w, size.h),
+    duration: typeof json.duration === "number" ? json.duration / 1000 : null,
+  };
+}
+
+/**
+ * Converts a frame tag as written by Aseprite.
+ * @param json The tag.
+ * @returns The tag.
+ */
+function toAtlasTag(json: JSONTag): AtlasTag {
+  const directions: AtlasTagDirection[] = [
+    "forward",
+    "reverse",
+    "pingpong",
+    "pingpong_reverse",
+  ];
+  const direction = directions.find((d) => d === json.direction) ?? "forward";
+  // Aseprite leaves the repeat out, or writes 0, for tags that loop for ever
+  const repeat = Math.floor(Number(json.repeat ?? 0)) || 0;
+  return {
+    name: json.name,
+    from: json.from,
+    to: json.to,
+    direction,
+    repeat: repeat > 0 ? repeat : null,
+  };
+}
+
+/**
+ * An image holding many frames, with the name and area of each one.
+ * Atlases exported by TexturePacker (JSON hash or array) and Aseprite are read
+ * with `SpriteAtlas.parse`, including trimmed and rotated frames, frame durations
+ * and Aseprite frame tags.
+ */
+export class SpriteAtlas implements ISpriteAtlas {
+  /** @inheritdoc */
+  image: CanvasImageSource;
+  /** @inheritdoc */
+  frames: AtlasFrame[];
+  /** @inheritdoc */
+  tags: AtlasTag[];
+
+  /**
+   * The frames, by name.
+   * @private
+   */
+  #byName: Map<string, AtlasFrame> = new Map();
+
+  /**
+   * Creates a new SpriteAtlas.
+   * @param {SpriteAtlasArguments} args - The arguments for the atlas.
+   * @throws {Error} If two frames have the same name.
+   */
+  constructor({ image, frames, tags = [] }: SpriteAtlasArguments) {
+    this.image = image;
+    this.frames = frames;
+    this.tags = tags;
+    frames.forEach((frame) => {
+      if (this.#byName.has(frame.name))
+        throw new Error(`The atlas has two frames named "${frame.name}".`);
+      this.#byName.set(frame.name, frame);
+    });
+  }
+
+  /** @inheritdoc */
+  getFrame(name: string): AtlasFrame {
+    const frame = this.#byName.get(name);
+    if (!frame) throw new Error(`The atlas has no frame "${name}".`);
+    return frame;
+  }
+
+  /** @inheritdoc */
+  hasFrame(name: string): boolean {
+    return this.#byName.has(name);
+  }
+
+  /**
+   * Reads an atlas exported by TexturePacker or Aseprite.
+   * Frames can be a hash keyed by name or an array with a `filename` for each frame.
+   * @param {unknown} json - The exported data, or its JSON.
+   * @param {CanvasImageSource} image - The image the data describes.
+   * @returns {SpriteAtlas} The atlas.
+   * @throws {Error} If the data isn't in a supported format.
+   */
+  static parse(json: unknown, image: CanvasImageSource): SpriteAtlas {
+    const data: unknown = typeof json === "string" ? JSON.parse(json) : json;
+    const { frames, meta } = (data ?? {}) as {
+      frames?: unknown;
+      meta?: { frameTags?: unknown };
+    };
+
+    let entries: [string, unknown][];
+    if (Array.isArray(frames)) {
+      entries = frames.map((frame, i) => [
+        typeof frame?.filename === "string" ? frame.filename : String(i),
+        frame,
+      ]);
+    } else if (typeof frames === "object" && frames !== null) {
+      entries = Object.entries(frames);
+    } else {
+      throw new Error("Unsupported atlas format, there are no frames.");
+    }
+
+    const atlasFrames = entries.map(([name, frame]) => {
+      if (!isJSONFrame(frame))
+        throw new Error(`Invalid frame "${name}" in the atlas.`);
+      return toAtlasFrame(name, frame);
+    });
+    const tags = Array.isArray(meta?.frameTags)
+      ? (meta.frameTags as JSONTag[]).map(toAtlasTag)
+      : [];
+    return new SpriteAtlas({ image, frames: atlasFrames, tags });
+  }
+}
@@ -0,0 +1,195 @@
+import type { RenderContext, Surface } from "./Renderer";
+import type { GameEngine } from "../Core/GameEngine";
+import type { GameObject } from "../Core/GameObject";
+import { Rectangle } from "../Helpers/Rectangle";
+
+/**
+ * The largest width or height, in device pixels, of a cached image.
+ * Static objects spread wider than this are drawn one by one instead.
+ */
+const MAX_CACHE_SIZE = 8192;
+
+/**
+ * The cached image of a run of static objects drawn one after the other in a render layer.
+ */
+type CachedRun = {
+  /** The static root objects cached, in draw order. */
+  objects: GameObject[];
+  /** The image, or null if the objects don't fit in one. */
+  surface: Surface | null;
+  /** The area the image covers, in the layer's coordinates. */
+  area: Rectangle;
+};
+
+/**
+ * Checks if an object, or any of its descendants, needs redrawing.
+ * @param obj The root of the hierarchy.
+ * @returns `true` if any object in the hierarchy needs redrawing.
+ */
+function needsRedraw(obj: GameObject): boolean {
+  return obj.needsRedraw || obj.children.some(needsRedraw);
+}
+
+/**
+ * The static objects of a scene, composited into images. Each run of static root
+ * objects drawn one after the other in a render layer shares an image, so dynamic
+ * objects between them in the draw order stay between them on screen.
+ * A run's image is only rebuilt when its static objects change: when one is added,
+ * removed or reordered, or needs redrawing. Static objects shouldn't move, set
+ * `needsRedraw` on one after moving it.
+ *
+ * Each scene has one, used by the engine while `cacheStaticLayers` is on.
+ */
+export class StaticLayerCache {
+  /** How many times an image has been rebuilt. */
+  rebuilds: number = 0;
+
+  /**
+   * The cached runs of each layer, by layer name, in draw order.
+   * @private
+   */
+  #layers: Map<string, CachedRun[]> = new Map();
+
+  /**
+   * The cached runs, by the first object of the run.
+   * @private
+   */
+  #runs: Map<GameObject, CachedRun> = new Map();
+
+  /**
+   * Rebuilds the image of each run whose static objects have changed,
+   * and drops the runs and layers left without any.
+   * @param {GameEngine} engine - The game engine instance.
+   * @param {GameObject[]} objects - The root objects of the scene, in draw order.
+   * @returns {boolean} True if any image changed.
+   */
+  update(engine: GameEngine, objects: GameObject[]): boolean {
+    const byLayer = new Map<string, GameObject[][]>();
+    objects.forEach((obj, i) => {
+      if (!obj.isStatic) return;
+      const { name } = engine.layers.get(obj.layer);
+      const runs = byLayer.get(name) ?? [];
+      byLayer.set(name, runs);
+      // A run carries on from the object drawn just before, if it's in the run
+      const previous = objects[i - 1];
+      const run = runs[runs.length - 1];
+      if (run && run[run.length - 1] === previous) run.push(obj);
+      else runs.push([obj]);
+    });
+
+    let changed = false;
+    this.#layers.forEach((_, name) => {
+      if (byLayer.has(name)) return;
+      this.#layers.delete(name);
+      changed = true;
+    });
+    byLayer.forEach((runs, name) => {
+      const cached = this.#layers.get(name) ?? [];
+      if (cached.length !== runs.length) changed = true;
+      this.#layers.set(
+        name,
+        runs.map((run, i) => {
+          if (!this.#isStale(cached[i], run)) return cached[i];
+          changed = true;
+          return this.#rebuild(engine, run, cached[i]);
+        })
+      );
+    });
+
+    this.#runs.clear();
+    this.#layers.forEach((runs) =>
+      runs.forEach((run) => this.#runs.set(run.objects[0], run))
+    );
+    return changed;
+  }
+
+  /**
+   * Draws the run of static objects that starts with an object, from its image if
+   * they fit in one. The other objects of a run draw nothing, as they're in its image.
+   * @param {GameEngine} engine - The game engine instance.
+   * @param {GameObject} obj - A static root object.
+   * @param {RenderContext} ctx - The context, transformed by the camera for the layer. Defaults to the engine's.
+   */
+  draw(engine: GameEngine, obj: GameObject, ctx: RenderContext = engine.ctx) {
+    const cached = this.#runs.get(obj);
+    if (!cached) return;
+    if (!cached.surface) {
+      cached.objects.forEach((object) => object.render(engine, ctx));
+      return;
+    }
+    const { x, y, width, height } = cached.area;
+    ctx.drawImage(cached.surface.image, x, y, width, height);
+  }
+
+  /**
+   * Drops every cached image, so they're rebuilt when next drawn.
+   */
+  clear() {
+    this.#layers.clear();
+    this.#runs.clear();
+  }
+
+  /**
+   * Whether a run's image is missing, or was built from other objects or before
+   * one of them needed redrawing.
+   */
+  #isStale(cached: CachedRun | undefined, objects: GameObject[]): boolean {
+    if (!cached || cached.objects.length !== objects.length) return true;
+    return objects.some(
+      (obj, i) => obj !== cached.objects[i] || needsRedraw(obj)
+    );
+  }
+
+  /**
+   * Renders a run of static objects into an image, without culling them.
+   * The previous image of the run is reused when it's the same size.
+   */
+  #rebuild(
+    engine: GameEngine,
+    objects: GameObject[],
+    previous?: CachedRun
+  ): CachedRun {
+    this.rebuilds++;
+    const areas = objects.map((obj) => obj.renderBounds);
+    const area = areas.reduce<Rectangle | null>(
+      (union, next) => (union && next ? union.union(next) : null),
+      areas[0]
+    );
+    const { dpr } = engine;
+    if (
+      !area ||
+      area.width * dpr > MAX_CACHE_SIZE ||
+      area.height * dpr > MAX_CACHE_SIZE
+    ) {
+      return {
+        objects,
+        surface: null,
+        area: area ?? new Rectangle(0, 0, 0, 0),
+      };
+    }
+
+    // Whole pixels, so the image isn't resampled when drawn unzoomed
+    const x = Math.floor(area.x);
+    const y = Math.floor(area.y);
+    const pixels = new Rectangle(
+      x,
+      y,
+      Math.ceil(area.x + area.width) - x,
+      Math.ceil(area.y + area.height) - y
+    );
+    const surface =
+      previous?.surface &&
+      previous.area.width === pixels.width &&
+      previous.area.height === pixels.height
+        ? previous.surface
+        : engine.renderer.createSurface(pixels.width, pixels.height, dpr);
+
+    const { ctx } = surface;
+    ctx.save();
+    ctx.clearRect(0, 0, pixels.width, pixels.height);
+    ctx.translate(-pixels.x, -pixels.y);
+    objects.forEach((obj) => obj.render(engine, ctx, false));
+    ctx.restore();
+    return { objects, surface, area: pixels };
+  }
+}
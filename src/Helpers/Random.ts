@@ -0,0 +1,63 @@
+/**
+ * A seeded pseudo-random number generator (mulberry32).
+ * The same seed always produces the same sequence of numbers.
+ */
+export class Random {
+  /** The seed the generator was created with. */
+  seed: number;
+
+  /**
+   * The internal state of the generator.
+   * @private
+   */
+  #state: number;
+
+  /**
+   * Creates a new Random instance.
+   * @param {number} seed - The seed. Defaults to a random seed.
+   */
+  constructor(seed: number = Random.randomSeed()) {
+    this.seed = seed >>> 0;
+    this.#state = this.seed;
+  }
+
+  /**
+   * Gets the next number in the sequence.
+   * @returns {number} A number in [0, 1)
+   */
+  next(): number {
+    this.#state = (this.#state + 0x6d2b79f5) >>> 0;
+    let t = this.#state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Gets a number in a range.
+   * @param {number} min - The lower bound, inclusive
+   * @param {number} max - The upper bound, exclusive
+   * @returns {number} A number in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + (max - min) * this.next();
+  }
+
+  /**
+   * Gets an integer in a range.
+   * @param {number} min - The lower bound, inclusive
+   * @param {number} max - The upper bound, exclusive
+   * @returns {number} An integer in [min, max)
+   */
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max));
+  }
+
+  /**
+   * Gets a random seed, for when no seed is given.
+   * @returns {number} An unsigned 32-bit integer
+   */
+  static randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296);
+  }
+}
@@ -67,4 +67,20 @@ export class Rectangle {
       point.y <= this.y + this.height
     );
   }
+
+  /**
+   * Creates the smallest rectangle that contains this rectangle and another one.
+   * @param {Rectangle} other - The other rectangle
+   * @returns {Rectangle} A new Rectangle instance
+   */
+  union(other: Rectangle): Rectangle {
+    const x = Math.min(this.x, other.x);
+    const y = Math.min(this.y, other.y);
+    return new Rectangle(
+      x,
+      y,
+      Math.max(this.x + this.width, other.x + other.width) - x,
+      Math.max(this.y + this.height, other.y + other.height) - y
+    );
+  }
 }
@@ -0,0 +1,188 @@
+import { Vec2 } from "wtc-math";
+
+import type { GameObject } from "../Core/GameObject";
+
+/**
+ * Bit flags for collision layers. An object collides with another when each
+ * one's layer is included in the other's mask.
+ */
+export enum CollisionLayer {
+  NONE = 0,
+  DEFAULT = 1 << 0,
+  TERRAIN = 1 << 1,
+  TANK = 1 << 2,
+  PROJECTILE = 1 << 3,
+  ALL = ~0,
+}
+
+/**
+ * A collider shape resolved into world space.
+ */
+export type WorldShape =
+  | {
+      /** A circle. */
+      kind: "circle";
+      /** The center of the circle in world space. */
+      center: Vec2;
+      /** The radius of the circle in world units. */
+      radius: number;
+    }
+  | {
+      /** A convex polygon. */
+      kind: "polygon";
+      /** The vertices in world space, in winding order. */
+      vertices: Vec2[];
+    };
+
+/**
+ * The base class for collider shapes.
+ * A collider is defined relative to the center of the game object it's attached to,
+ * and follows the object's world transform.
+ */
+export abstract class Collider {
+  /** The offset of the shape from the object's center, in the object's local space. */
+  offset: Vec2;
+
+  /**
+   * Creates a new Collider.
+   * @param {Vec2} offset - The offset of the shape from the object's center.
+   */
+  constructor(offset: Vec2 = new Vec2(0, 0)) {
+    this.offset = offset;
+  }
+
+  /**
+   * Resolves the shape into world space for an object.
+   * @param {GameObject} obj - The object the collider is attached to.
+   * @returns {WorldShape} The shape in world space.
+   */
+  abstract toWorld(obj: GameObject): WorldShape;
+}
+
+/**
+ * An axis-aligned box. It follows the object's position and scale but ignores rotation.
+ */
+export class AABBCollider extends Collider {
+  /** The size of the box. When null, the object's dimensions are used. */
+  size: Vec2 | null;
+
+  /**
+   * Creates a new AABBCollider.
+   * @param {Vec2 | null} size - The size of the box. Defaults to the object's dimensions.
+   * @param {Vec2} offset - The offset of the box from the object's center.
+   */
+  constructor(size: Vec2 | null = null, offset?: Vec2) {
+    super(offset);
+    this.size = size;
+  }
+
+  /** @inheritdoc */
+  toWorld(obj: GameObject): WorldShape {
+    const scale = obj.worldScale;
+    const half = (this.size ?? obj.dims).multiplyNew(scale).scale(0.5);
+    half.x = Math.abs(half.x);
+    half.y = Math.abs(half.y);
+    const center = obj.worldCenter.add(this.offset.multiplyNew(scale));
+    return {
+      kind: "polygon",
+      vertices: [
+        new Vec2(center.x - half.x, center.y - half.y),
+        new Vec2(center.x + half.x, center.y - half.y),
+        new Vec2(center.x + half.x, center.y + half.y),
+        new Vec2(center.x - half.x, center.y + half.y),
+      ],
+    };
+  }
+}
+
+/**
+ * An oriented box that follows the object's full world transform, including rotation.
+ */
+export class BoxCollider extends Collider {
+  /** The size of the box. When null, the object's dimensions are used. */
+  size: Vec2 | null;
+
+  /**
+   * Creates a new BoxCollider.
+   * @param {Vec2 | null} size - The size of the box. Defaults to the object's dimensions.
+   * @param {Vec2} offset - The offset of the box from the object's center.
+   */
+  constructor(size: Vec2 | null = null, offset?: Vec2) {
+    super(offset);
+    this.size = size;
+  }
+
+  /** @inheritdoc */
+  toWorld(obj: GameObject): WorldShape {
+    const half = (this.size ?? obj.dims).scaleNew(0.5);
+    return {
+      kind: "polygon",
+      vertices: [
+        new Vec2(-half.x, -half.y),
+        new Vec2(half.x, -half.y),
+        new Vec2(half.x, half.y),
+        new Vec2(-half.x, half.y),
+      ].map((corner) => obj.localToWorld(corner.add(this.offset))),
+    };
+  }
+}
+
+/**
+ * A circle. Non-uniform scaling uses the larger scale axis.
+ */
+export class CircleCollider extends Collider {
+  /** The radius of the circle. When null, half the object's width is used. */
+  radius: number | null;
+
+  /**
+   * Creates a new CircleCollider.
+   * @param {number | null} radius - The radius. Defaults to half the object's width.
+   * @param {Vec2} offset - The offset of the circle from the object's center.
+   */
+  constructor(radius: number | null = null, offset?: Vec2) {
+    super(offset);
+    this.radius = radius;
+  }
+
+  /** @inheritdoc */
+  toWorld(obj: GameObject): WorldShape {
+    const scale = obj.worldScale;
+    return {
+      kind: "circle",
+      center: obj.localToWorld(this.offset),
+      radius:
+        (this.radius ?? obj.dims.x / 2) *
+        Math.max(Math.abs(scale.x), Math.abs(scale.y)),
+    };
+  }
+}
+
+/**
+ * A convex polygon, with vertices relative to the object's center.
+ */
+export class PolygonCollider extends Collider {
+  /** The vertices of the polygon in the object's local space, in winding order. */
+  vertices: Vec2[];
+
+  /**
+   * Creates a new PolygonCollider.
+   * @param {Vec2[]} vertices - The vertices of a convex polygon, in winding order.
+   * @param {Vec2} offset - The offset of the polygon from the object's center.
+   */
+  constructor(vertices: Vec2[], offset?: Vec2) {
+    super(offset);
+    if (vertices.length < 3)
+      throw new Error("A PolygonCollider needs at least 3 vertices.");
+    this.vertices = vertices;
+  }
+
+  /** @inheritdoc */
+  toWorld(obj: GameObject): WorldShape {
+    return {
+      kind: "polygon",
+      vertices: this.vertices.map((vertex) =>
+        obj.localToWorld(vertex.addNew(this.offset))
+      ),
+    };
+  }
+}
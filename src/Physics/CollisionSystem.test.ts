@@ -0,0 +1,104 @@
+import { Vec2 } from "wtc-math";
+import { describe, expect, it } from "vitest";
+
+import { BoxCollider, CollisionLayer } from "./Collider";
+import { MemoryAudioBackend } from "../Audio/MemoryAudioBackend";
+import { GameEngine } from "../Core/GameEngine";
+import { GameObject } from "../Core/GameObject";
+import { HeadlessRenderer } from "../Graphics/HeadlessRenderer";
+
+class Box extends GameObject {
+  events: string[] = [];
+
+  drawObject() {
+    this.needsRedraw = false;
+  }
+
+  onCollisionEnter(other: GameObject) {
+    this.events.push(`enter ${other.id}`);
+  }
+
+  onCollisionStay(other: GameObject) {
+    this.events.push(`stay ${other.id}`);
+  }
+
+  onCollisionExit(other: GameObject) {
+    this.events.push(`exit ${other.id}`);
+  }
+}
+
+const createEngine = () =>
+  new GameEngine({
+    renderer: new HeadlessRenderer(),
+    dimensions: new Vec2(800, 600),
+    dpr: 1,
+    seed: 1,
+    audio: new MemoryAudioBackend(),
+  });
+
+const box = (id: string, x: number) =>
+  new Box({
+    id,
+    position: new Vec2(x, 100),
+    dimensions: new Vec2(20, 20),
+    collider: new BoxCollider(),
+  });
+
+describe("CollisionSystem", () => {
+  it("calls enter, stay and exit on both objects", () => {
+    const engine = createEngine();
+    const a = box("a", 100);
+    const b = box("b", 110);
+    engine.addObject(a);
+    engine.addObject(b);
+
+    engine.step(2);
+    b.position.x = 300;
+    engine.step();
+
+    expect(a.events).toEqual(["enter b", "stay b", "exit b"]);
+    expect(b.events).toEqual(["enter a", "stay a", "exit a"]);
+  });
+
+  it("lists the objects an object collides with", () => {
+    const engine = createEngine();
+    const a = box("a", 100);
+    const b = box("b", 110);
+    const c = box("c", 400);
+    [a, b, c].forEach((obj) => engine.addObject(obj));
+
+    engine.step();
+
+    expect(engine.collisions.getCollisions(a)).toEqual([b]);
+    expect(engine.collisions.getCollisions(c)).toEqual([]);
+  });
+
+  it("skips objects whose layers and masks don't match", () => {
+    const engine = createEngine();
+    const a = box("a", 100);
+    const b = box("b", 110);
+    a.collisionMask = CollisionLayer.ALL & ~CollisionLayer.DEFAULT;
+    engine.addObject(a);
+    engine.addObject(b);
+
+    engine.step();
+
+    expect(a.events).toEqual([]);
+    expect(b.events).toEqual([]);
+  });
+
+  it("keeps a contact going when an object is renamed", () => {
+    const engine = createEngine();
+    const a = box("a", 100);
+    const b = box("b", 110);
+    engine.addObject(a);
+    engine.addObject(b);
+
+    engine.step();
+    a.id = "z";
+    engine.step();
+
+    expect(a.events).toEqual(["enter b", "stay b"]);
+    expect(b.events).toEqual(["enter a", "stay z"]);
+  });
+});
@@ -0,0 +1,204 @@
+import type { GameEngine } from "../Core/GameEngine";
+import type { GameObject } from "../Core/GameObject";
+import type { Scene } from "../Core/Scene";
+import type { WorldShape } from "./Collider";
+import { testShapes, type Contact } from "./SAT";
+
+/**
+ * A pair of colliding objects and their contact, from `a` to `b`.
+ */
+type CollisionPair = {
+  a: GameObject;
+  b: GameObject;
+  contact: Contact;
+};
+
+/**
+ * Colliding pairs, keyed by their first object, then their second.
+ */
+type CollisionPairs = Map<GameObject, Map<GameObject, CollisionPair>>;
+
+/**
+ * Finds a pair in a set of colliding pairs.
+ * @param pairs The pairs.
+ * @param a The first object of the pair.
+ * @param b The second object of the pair.
+ * @returns The pair, or undefined if the objects aren't colliding.
+ */
+function getPair(
+  pairs: CollisionPairs,
+  a: GameObject,
+  b: GameObject
+): CollisionPair | undefined {
+  return pairs.get(a)?.get(b);
+}
+
+/**
+ * Calls a function for each pair in a set of colliding pairs, in the order they were added.
+ * @param pairs The pairs.
+ * @param callback The function to call.
+ */
+function forEachPair(
+  pairs: CollisionPairs,
+  callback: (pair: CollisionPair) => void
+) {
+  pairs.forEach((others) => others.forEach(callback));
+}
+
+/**
+ * Detects collisions between the game objects of the active scene.
+ *
+ * Every tick, the scene's spatial hash is refreshed with each object's bounds.
+ * Objects with a collider are then paired up through the hash (broadphase),
+ * filtered by their collision layers and masks, and tested with the separating
+ * axis theorem (narrowphase). Objects are notified when a collision starts,
+ * continues and ends.
+ *
+ * The colliding pairs are kept for each scene, so a scene paused under another
+ * picks up where it left off when it's active again.
+ */
+export class CollisionSystem {
+  /** The engine the system belongs to. */
+  engine: GameEngine;
+
+  /**
+   * The pairs colliding during the last tick each scene was checked.
+   * @private
+   */
+  #pairs: WeakMap<Scene, CollisionPairs> = new WeakMap();
+
+  /**
+   * A number for each object, in the order the system first saw them, to order pairs by.
+   * Unlike ids, they never change, so renaming an object doesn't flip its pairs.
+   * @private
+   */
+  #serials: WeakMap<GameObject, number> = new WeakMap();
+
+  /**
+   * The number given to the next object seen.
+   * @private
+   */
+  #nextSerial: number = 0;
+
+  /**
+   * Creates a new CollisionSystem.
+   * @param {GameEngine} engine - The engine the system belongs to.
+   */
+  constructor(engine: GameEngine) {
+    this.engine = engine;
+  }
+
+  /**
+   * Refreshes the scene's broadphase and dispatches collision callbacks.
+   * Called by the engine after the scene's objects have been updated.
+   * @param {Scene} scene - The scene to check.
+   */
+  update(scene: Scene) {
+    const colliders: GameObject[] = [];
+    scene.gameObjects.forEach((root) =>
+      root.traverse((obj) => {
+        scene.spatialHash.insert(obj, obj.bounds);
+        if (obj.collider) colliders.push(obj);
+      })
+    );
+
+    const shapes = new Map<GameObject, WorldShape>();
+    const shapeOf = (obj: GameObject) => {
+      let shape = shapes.get(obj);
+      if (!shape) {
+        shape = obj.collider!.toWorld(obj);
+        shapes.set(obj, shape);
+      }
+      return shape;
+    };
+
+    const pairs: CollisionPairs = new Map();
+    colliders.forEach((a) => {
+      scene.spatialHash.query(a.bounds).forEach((b) => {
+        if (b === a || !b.collider || !CollisionSystem.canCollide(a, b)) return;
+        const [first, second] =
+          this.#serialOf(a) < this.#serialOf(b) ? [a, b] : [b, a];
+        if (getPair(pairs, first, second)) return;
+
+        const contact = testShapes(shapeOf(first), shapeOf(second));
+        if (!contact) return;
+        let others = pairs.get(first);
+        if (!others) {
+          others = new Map();
+          pairs.set(first, others);
+        }
+        others.set(second, { a: first, b: second, contact });
+      });
+    });
+
+    const previous: CollisionPairs = this.#pairs.get(scene) ?? new Map();
+    forEachPair(pairs, ({ a, b, contact }) => {
+      const reversed = {
+        normal: contact.normal.negateNew(),
+        depth: contact.depth,
+      };
+      if (getPair(previous, a, b)) {
+        a.onCollisionStay(b, contact);
+        b.onCollisionStay(a, reversed);
+      } else {
+        a.onCollisionEnter(b, contact);
+        b.onCollisionEnter(a, reversed);
+      }
+    });
+    forEachPair(previous, ({ a, b }) => {
+      if (getPair(pairs, a, b)) return;
+      a.onCollisionExit(b);
+      b.onCollisionExit(a);
+    });
+    this.#pairs.set(scene, pairs);
+  }
+
+  /**
+   * Gets the objects an object is currently colliding with.
+   * @param {GameObject} obj - The object.
+   * @returns {GameObject[]} The objects it collided with during the last tick its scene was checked.
+   */
+  getCollisions(obj: GameObject): GameObject[] {
+    const others: GameObject[] = [];
+    const pairs = obj.scene && this.#pairs.get(obj.scene);
+    if (!pairs) return others;
+    forEachPair(pairs, ({ a, b }) => {
+      if (a === obj) others.push(b);
+      else if (b === obj) others.push(a);
+    });
+    return others;
+  }
+
+  /**
+   * Forgets the pairs colliding in every scene, so the next check starts every
+   * collision afresh. Called when a replay restarts the game.
+   */
+  reset() {
+    this.#pairs = new WeakMap();
+  }
+
+  /**
+   * Checks if two objects' layers and masks allow them to collide.
+   * @param {GameObject} a - The first object.
+   * @param {GameObject} b - The second object.
+   * @returns {boolean} True if each object's layer is in the other's mask.
+   */
+  static canCollide(a: GameObject, b: GameObject): boolean {
+    return (
+      (a.collisionLayer & b.collisionMask) !== 0 &&
+      (b.collisionLayer & a.collisionMask) !== 0
+    );
+  }
+
+  /**
+   * Gets the number an object's pairs are ordered by, giving it one if it has none.
+   */
+  #serialOf(obj: GameObject): number {
+    let serial = this.#serials.get(obj);
+    if (serial === undefined) {
+      serial = this.#nextSerial++;
+      this.#serials.set(obj, serial);
+    }
+    return serial;
+  }
+}
@@ -0,0 +1,247 @@
+import { Vec2 } from "wtc-math";
+
+import type { GameEngine } from "../Core/GameEngine";
+import type { GameObject } from "../Core/GameObject";
+import type { Scene } from "../Core/Scene";
+import { Rectangle } from "../Helpers/Rectangle";
+import type { RigidBody } from "./RigidBody";
+
+/**
+ * The live environment the physics runs in, such as the tweakpane `params`.
+ */
+export type PhysicsEnvironment = {
+  /** The strength of gravity, where 1 is normal gravity. */
+  gravity: number;
+  /** The wind, as a force pushing airborne bodies. */
+  wind: Vec2;
+  /** How high the ground's average surface sits above the bottom of the world. */
+  "ground height": number;
+};
+
+/**
+ * A game object bodies can stand on, such as the ground.
+ */
+export interface ISurface {
+  /**
+   * Gets the world y of the top of the surface at or below a point.
+   * When the point is inside the surface, that's the top of the part it's in.
+   * @param {number} x - The world x.
+   * @param {number} y - The world y.
+   * @returns {number | null} The y of the surface, or null if there is no surface at or below the point.
+   */
+  surfaceAt(x: number, y: number): number | null;
+}
+
+/**
+ * Checks if a game object is a surface.
+ * @param {GameObject} obj - The game object.
+ * @returns {boolean} True if the object implements ISurface.
+ */
+export function isSurface(obj: GameObject): obj is GameObject & ISurface {
+  return typeof (obj as Partial<ISurface>).surfaceAt === "function";
+}
+
+/**
+ * Integrates the rigid bodies of the active scene and rests them on surfaces.
+ *
+ * Every tick, each body is accelerated by gravity, by the wind while it's airborne
+ * and by the forces applied to it, then slowed by drag and by friction while it's
+ * on the ground. Bodies that sink below a surface they collide with are pushed
+ * back on top of it, unless they moved sideways into a step higher than
+ * `stepHeight`, which blocks them like a wall. Without a surface underneath, a body falls.
+ */
+export class PhysicsSystem {
+  /** The engine the system belongs to. */
+  engine: GameEngine;
+  /** The gravity, wind and ground height. Read every tick, so it can be a live object. */
+  environment: PhysicsEnvironment = {
+    gravity: 1,
+    wind: new Vec2(0, 0),
+    "ground height": 100,
+  };
+  /** The acceleration in px/s² for a gravity of 1. */
+  gravityStrength: number = 600;
+  /** The force for a wind of 1. */
+  windStrength: number = 60;
+  /** Landing speeds below this, in px/s, don't bounce. */
+  restingSpeed: number = 30;
+  /** The highest step, in px, a body moving sideways climbs onto in a tick. */
+  stepHeight: number = 8;
+
+  /**
+   * Creates a new PhysicsSystem.
+   * @param {GameEngine} engine - The engine the system belongs to.
+   */
+  constructor(engine: GameEngine) {
+    this.engine = engine;
+  }
+
+  /**
+   * Integrates every body in the scene over a tick.
+   * Called by the engine after the scene's objects have been updated.
+   * @param {Scene} scene - The scene to simulate.
+   * @param {number} deltaTime - The duration of the tick in seconds.
+   */
+  update(scene: Scene, deltaTime: number) {
+    scene.gameObjects.forEach((root) =>
+      root.traverse((obj) => {
+        if (obj.body) this.#integrate(scene, obj, obj.body, deltaTime);
+      })
+    );
+  }
+
+  /**
+   * Pushes the bodies within a radius away from a point.
+   * The push fades out linearly towards the edge of the radius.
+   * @param {Vec2} center - The center of the explosion in world space.
+   * @param {number} radius - The radius of the explosion.
+   * @param {number} strength - The impulse at the center.
+   */
+  explode(center: Vec2, radius: number, strength: number) {
+    const area = new Rectangle(
+      center.x - radius,
+      center.y - radius,
+      radius * 2,
+      radius * 2
+    );
+    this.engine.getObjectsInArea(area).forEach((obj) => {
+      if (!obj.body) return;
+      const offset = obj.worldCenter.subtract(center);
+      const distance = offset.length;
+      if (distance > radius) return;
+      const direction =
+        distance > 0 ? offset.scale(1 / distance) : new Vec2(0, -1);
+      obj.body.applyImpulse(
+        direction.scale(strength * (1 - distance / radius))
+      );
+    });
+  }
+
+  /**
+   * Predicts the path of an airborne body with no forces applied, such as a projectile.
+   * The prediction ignores surfaces and collisions.
+   * @param {Vec2} position - The starting position in world space.
+   * @param {RigidBody} body - The body, with its starting velocity.
+   * @param {number} duration - How far ahead to predict, in seconds.
+   * @returns {Vec2[]} The position after each fixed tick.
+   */
+  predict(position: Vec2, body: RigidBody, duration: number): Vec2[] {
+    const deltaTime = this.engine.fixedDeltaTime;
+    const current = position.clone();
+    const velocity = body.velocity.clone();
+    const path: Vec2[] = [];
+    for (let t = 0; t < duration; t += deltaTime) {
+      this.#accelerate(body, velocity, new Vec2(0, 0), false, deltaTime);
+      current.add(velocity.scaleNew(deltaTime));
+      path.push(current.clone());
+    }
+    return path;
+  }
+
+  /**
+   * Finds the highest surface at or below the bottom of an object that it collides with.
+   * @param {Scene} scene - The scene to search.
+   * @param {GameObject} obj - The object.
+   * @returns {number | null} The world y of the surface, or null if there is none.
+   */
+  surfaceUnder(scene: Scene, obj: GameObject): number | null {
+    const bounds = obj.bounds;
+    const x = bounds.x + bounds.width / 2;
+    const bottom = bounds.y + bounds.height;
+    // Reach a pixel below the object, so surfaces it rests on are found
+    const area = new Rectangle(
+      bounds.x,
+      bounds.y,
+      bounds.width,
+      bounds.height + 1
+    );
+
+    let highest: number | null = null;
+    scene.spatialHash.query(area).forEach((other) => {
+      if (other === obj || !isSurface(other)) return;
+      if ((other.collisionLayer & obj.collisionMask) === 0) return;
+      const y = other.surfaceAt(x, bottom);
+      if (y === null) return;
+      if (highest === null || y < highest) highest = y;
+    });
+    return highest;
+  }
+
+  /**
+   * Moves a body over a tick.
+   */
+  #integrate(
+    scene: Scene,
+    obj: GameObject,
+    body: RigidBody,
+    deltaTime: number
+  ) {
+    this.#accelerate(
+      body,
+      body.velocity,
+      body.consumeForce(),
+      body.grounded,
+      deltaTime
+    );
+    obj.position.add(body.velocity.scaleNew(deltaTime));
+    this.#resolve(scene, obj, body);
+  }
+
+  /**
+   * Changes a velocity by the environment and a force over a tick, then applies drag and friction.
+   */
+  #accelerate(
+    body: RigidBody,
+    velocity: Vec2,
+    force: Vec2,
+    grounded: boolean,
+    deltaTime: number
+  ) {
+    const { gravity, wind } = this.environment;
+
+    if (!grounded) force.add(wind.scaleNew(this.windStrength));
+    const acceleration = force.scale(body.inverseMass);
+    acceleration.y += gravity * this.gravityStrength * body.gravityScale;
+
+    velocity.add(acceleration.scale(deltaTime));
+    velocity.scale(Math.max(0, 1 - body.drag * deltaTime));
+    if (grounded) velocity.x *= Math.max(0, 1 - body.friction * deltaTime);
+  }
+
+  /**
+   * Pushes a body that sank into a surface back on top of it. A body that moved
+   * sideways into a surface too high above where it stood is moved back instead.
+   */
+  #resolve(scene: Scene, obj: GameObject, body: RigidBody) {
+    body.grounded = false;
+    let surface = this.surfaceUnder(scene, obj);
+    if (surface === null) return;
+
+    // Where the bottom was at the start of the tick
+    const { position, previousPosition } = obj;
+    const previousBottom =
+      obj.bounds.y + obj.bounds.height - (position.y - previousPosition.y);
+    if (
+      position.x !== previousPosition.x &&
+      previousBottom - surface > this.stepHeight
+    ) {
+      position.x = previousPosition.x;
+      body.velocity.x = 0;
+      surface = this.surfaceUnder(scene, obj);
+      if (surface === null) return;
+    }
+
+    const bounds = obj.bounds;
+    const depth = bounds.y + bounds.height - surface;
+    if (depth < 0) return;
+
+    obj.position.y -= depth;
+    if (body.velocity.y > 0) {
+      body.velocity.y =
+        body.velocity.y < this.restingSpeed
+          ? 0
+          : -body.velocity.y * body.restitution;
+    }
+    body.grounded = body.velocity.y >= 0;
+  }
+}
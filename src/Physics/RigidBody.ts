@@ -0,0 +1,196 @@
+import { Vec2 } from "wtc-math";
+
+/**
+ * Type definition for the arguments used to create a RigidBody.
+ */
+export type RigidBodyArguments = {
+  /** The initial velocity in px/s. Defaults to (0, 0). */
+  velocity?: Vec2;
+  /** The mass of the body. Heavier bodies are pushed less by wind and impulses. Defaults to 1. */
+  mass?: number;
+  /** The fraction of velocity lost per second to air resistance. Defaults to 0. */
+  drag?: number;
+  /** The fraction of horizontal velocity lost per second while on the ground. Defaults to 4. */
+  friction?: number;
+  /** How much of the vertical velocity is kept when landing, from 0 to 1. Defaults to 0. */
+  restitution?: number;
+  /** A multiplier for the gravity applied to the body. Defaults to 1. */
+  gravityScale?: number;
+};
+
+/**
+ * The saved state of a rigid body. Serializable to JSON.
+ */
+export type RigidBodyData = {
+  /** The velocity in px/s. */
+  velocity: [number, number];
+  /** The mass of the body. */
+  mass: number;
+  /** The fraction of velocity lost per second to air resistance. */
+  drag: number;
+  /** The fraction of horizontal velocity lost per second while on the ground. */
+  friction: number;
+  /** How much of the vertical velocity is kept when landing. */
+  restitution: number;
+  /** A multiplier for the gravity applied to the body. */
+  gravityScale: number;
+  /** Whether the body rested on a surface during the last tick. */
+  grounded: boolean;
+};
+
+/**
+ * Checks if a value is the saved state of a rigid body.
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value is RigidBodyData.
+ */
+export function isRigidBodyData(value: unknown): value is RigidBodyData {
+  if (typeof value !== "object" || value === null) return false;
+  const data = value as Record<string, unknown>;
+  return (
+    Array.isArray(data.velocity) &&
+    data.velocity.length === 2 &&
+    data.velocity.every((n) => typeof n === "number") &&
+    ["mass", "drag", "friction", "restitution", "gravityScale"].every(
+      (key) => typeof data[key] === "number"
+    ) &&
+    typeof data.grounded === "boolean"
+  );
+}
+
+/**
+ * Interface representing the properties of a rigid body.
+ */
+export interface IRigidBody {
+  /** The velocity in px/s. */
+  velocity: Vec2;
+  /** The mass of the body. */
+  mass: number;
+  /** The fraction of velocity lost per second to air resistance. */
+  drag: number;
+  /** The fraction of horizontal velocity lost per second while on the ground. */
+  friction: number;
+  /** How much of the vertical velocity is kept when landing, from 0 to 1. */
+  restitution: number;
+  /** A multiplier for the gravity applied to the body. */
+  gravityScale: number;
+  /** Whether the body rested on a surface during the last tick. */
+  grounded: boolean;
+}
+
+/**
+ * The physical state of a game object, integrated every tick by the engine's PhysicsSystem.
+ * The body moves its object's `position`, so it is meant for root objects.
+ * @implements {IRigidBody}
+ */
+export class RigidBody implements IRigidBody {
+  /** @inheritdoc */
+  velocity: Vec2;
+  /** @inheritdoc */
+  mass: number;
+  /** @inheritdoc */
+  drag: number;
+  /** @inheritdoc */
+  friction: number;
+  /** @inheritdoc */
+  restitution: number;
+  /** @inheritdoc */
+  gravityScale: number;
+  /** @inheritdoc */
+  grounded: boolean = false;
+
+  /**
+   * The forces applied since the last tick.
+   * @private
+   */
+  #force: Vec2 = new Vec2(0, 0);
+
+  /**
+   * Creates a new RigidBody.
+   * @param {RigidBodyArguments} args - The arguments for the body.
+   */
+  constructor({
+    velocity = new Vec2(0, 0),
+    mass = 1,
+    drag = 0,
+    friction = 4,
+    restitution = 0,
+    gravityScale = 1,
+  }: RigidBodyArguments = {}) {
+    if (mass <= 0) throw new Error("A RigidBody's mass must be positive.");
+    this.velocity = velocity;
+    this.mass = mass;
+    this.drag = drag;
+    this.friction = friction;
+    this.restitution = restitution;
+    this.gravityScale = gravityScale;
+  }
+
+  /**
+   * Gets the inverse of the mass.
+   * @returns {number} One over the mass.
+   */
+  get inverseMass(): number {
+    return 1 / this.mass;
+  }
+
+  /**
+   * Applies a force over the next tick.
+   * @param {Vec2} force - The force.
+   */
+  applyForce(force: Vec2) {
+    this.#force.add(force);
+  }
+
+  /**
+   * Instantly changes the velocity, scaled by the inverse of the mass.
+   * Lifts the body off the ground if the impulse points upwards.
+   * @param {Vec2} impulse - The impulse.
+   */
+  applyImpulse(impulse: Vec2) {
+    this.velocity.add(impulse.scaleNew(this.inverseMass));
+    if (impulse.y < 0) this.grounded = false;
+  }
+
+  /**
+   * Returns the forces applied since the last tick and resets them.
+   * Called by the PhysicsSystem when integrating the body.
+   * @returns {Vec2} The accumulated force.
+   */
+  consumeForce(): Vec2 {
+    const force = this.#force;
+    this.#force = new Vec2(0, 0);
+    return force;
+  }
+
+  /**
+   * Gets the state of the body, to save it.
+   * @returns {RigidBodyData} The state.
+   */
+  toJSON(): RigidBodyData {
+    return {
+      velocity: [this.velocity.x, this.velocity.y],
+      mass: this.mass,
+      drag: this.drag,
+      friction: this.friction,
+      restitution: this.restitution,
+      gravityScale: this.gravityScale,
+      grounded: this.grounded,
+    };
+  }
+
+  /**
+   * Restores a saved state of the body.
+   * @param {RigidBodyData} data - The state.
+   * @throws {Error} If the mass isn't positive.
+   */
+  fromJSON(data: RigidBodyData) {
+    if (data.mass <= 0) throw new Error("A RigidBody's mass must be positive.");
+    this.velocity.reset(data.velocity[0], data.velocity[1]);
+    this.mass = data.mass;
+    this.drag = data.drag;
+    this.friction = data.friction;
+    this.restitution = data.restitution;
+    this.gravityScale = data.gravityScale;
+    this.grounded = data.grounded;
+  }
+}
@@ -0,0 +1,73 @@
+import { Vec2 } from "wtc-math";
+import { describe, expect, it } from "vitest";
+
+import type { WorldShape } from "./Collider";
+import { testShapes } from "./SAT";
+
+const box = (x: number, y: number, width: number, height: number) =>
+  ({
+    kind: "polygon",
+    vertices: [
+      new Vec2(x, y),
+      new Vec2(x + width, y),
+      new Vec2(x + width, y + height),
+      new Vec2(x, y + height),
+    ],
+  } satisfies WorldShape);
+
+const circle = (x: number, y: number, radius: number) =>
+  ({ kind: "circle", center: new Vec2(x, y), radius } satisfies WorldShape);
+
+describe("testShapes", () => {
+  it("finds the shallowest axis between two boxes", () => {
+    const contact = testShapes(box(0, 0, 10, 10), box(8, 2, 10, 10));
+
+    expect(contact?.depth).toBeCloseTo(2);
+    expect(contact?.normal.x).toBeCloseTo(1);
+    expect(contact?.normal.y).toBeCloseTo(0);
+  });
+
+  it("doesn't report boxes that only touch", () => {
+    expect(testShapes(box(0, 0, 10, 10), box(10, 0, 10, 10))).toBeNull();
+    expect(testShapes(box(0, 0, 10, 10), box(0, 20, 10, 10))).toBeNull();
+  });
+
+  it("points the normal from the circle to the box", () => {
+    const contact = testShapes(circle(0, 0, 5), box(3, -5, 10, 10));
+
+    expect(contact?.depth).toBeCloseTo(2);
+    expect(contact?.normal.x).toBeCloseTo(1);
+    expect(contact?.normal.y).toBeCloseTo(0);
+  });
+
+  it("flips the normal when the box comes first", () => {
+    const contact = testShapes(box(3, -5, 10, 10), circle(0, 0, 5));
+
+    expect(contact?.depth).toBeCloseTo(2);
+    expect(contact?.normal.x).toBeCloseTo(-1);
+  });
+
+  it("misses a circle off the corner of a box", () => {
+    expect(testShapes(circle(-4, -4, 5), box(0, 0, 10, 10))).toBeNull();
+  });
+
+  it("tests convex polygons on the axes of both", () => {
+    const triangle: WorldShape = {
+      kind: "polygon",
+      vertices: [new Vec2(0, 0), new Vec2(10, 10), new Vec2(0, 10)],
+    };
+
+    // Inside the triangle's bounds, but past its slanted edge
+    expect(testShapes(triangle, box(7, 0, 2, 2))).toBeNull();
+    const contact = testShapes(triangle, box(2, 4, 2, 2));
+    expect(contact).not.toBeNull();
+    expect(contact!.depth).toBeGreaterThan(0);
+  });
+
+  it("separates circles along the line between their centers", () => {
+    const contact = testShapes(circle(0, 0, 5), circle(0, 8, 5));
+
+    expect(contact?.depth).toBeCloseTo(2);
+    expect(contact?.normal.y).toBeCloseTo(1);
+  });
+});
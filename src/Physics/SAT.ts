@@ -0,0 +1,164 @@
+import { Vec2 } from "wtc-math";
+
+import type { WorldShape } from "./Collider";
+
+/**
+ * The result of a narrowphase test between two overlapping shapes.
+ */
+export type Contact = {
+  /** The unit normal of the contact, pointing from the first shape to the second. */
+  normal: Vec2;
+  /** How far the shapes overlap along the normal. */
+  depth: number;
+};
+
+/**
+ * Tests two world space shapes for overlap with the separating axis theorem.
+ * Polygons must be convex.
+ * @param {WorldShape} a - The first shape.
+ * @param {WorldShape} b - The second shape.
+ * @returns {Contact | null} The contact, or null if the shapes don't overlap.
+ */
+export function testShapes(a: WorldShape, b: WorldShape): Contact | null {
+  if (a.kind === "circle" && b.kind === "circle") {
+    return testCircles(a.center, a.radius, b.center, b.radius);
+  }
+  if (a.kind === "polygon" && b.kind === "polygon") {
+    return testPolygons(a.vertices, b.vertices);
+  }
+  if (a.kind === "polygon" && b.kind === "circle") {
+    return testPolygonCircle(a.vertices, b.center, b.radius);
+  }
+  if (a.kind === "circle" && b.kind === "polygon") {
+    const contact = testPolygonCircle(b.vertices, a.center, a.radius);
+    if (contact) contact.normal.negate();
+    return contact;
+  }
+  return null;
+}
+
+/**
+ * Tests two circles for overlap.
+ */
+function testCircles(
+  centerA: Vec2,
+  radiusA: number,
+  centerB: Vec2,
+  radiusB: number
+): Contact | null {
+  const delta = centerB.subtractNew(centerA);
+  const distance = delta.length;
+  const depth = radiusA + radiusB - distance;
+  if (depth <= 0) return null;
+  return {
+    normal: distance > 0 ? delta.scale(1 / distance) : new Vec2(1, 0),
+    depth,
+  };
+}
+
+/**
+ * Tests two convex polygons for overlap, on the edge normals of both.
+ */
+function testPolygons(a: Vec2[], b: Vec2[]): Contact | null {
+  const axes = [...edgeNormals(a), ...edgeNormals(b)];
+  const contact = leastOverlap(axes, a, b);
+  if (!contact) return null;
+  orient(contact, centroid(a), centroid(b));
+  return contact;
+}
+
+/**
+ * Tests a convex polygon and a circle for overlap, on the polygon's edge normals
+ * and the axis from the polygon's closest vertex to the circle's center.
+ */
+function testPolygonCircle(
+  polygon: Vec2[],
+  center: Vec2,
+  radius: number
+): Contact | null {
+  let closest = polygon[0];
+  let closestDistance = Infinity;
+  polygon.forEach((vertex) => {
+    const distance = vertex.subtractNew(center).lengthSquared;
+    if (distance < closestDistance) {
+      closest = vertex;
+      closestDistance = distance;
+    }
+  });
+
+  const axes = edgeNormals(polygon);
+  const toCenter = center.subtractNew(closest);
+  if (toCenter.length > 0) axes.push(toCenter.normalise());
+
+  let best: Contact | null = null;
+  for (const axis of axes) {
+    const [minA, maxA] = project(polygon, axis);
+    const centerProjection = center.dot(axis);
+    const overlap =
+      Math.min(maxA, centerProjection + radius) -
+      Math.max(minA, centerProjection - radius);
+    if (overlap <= 0) return null;
+    if (!best || overlap < best.depth)
+      best = { normal: axis.clone(), depth: overlap };
+  }
+  if (best) orient(best, centroid(polygon), center);
+  return best;
+}
+
+/**
+ * Finds the axis with the least overlap between two vertex sets.
+ * Returns null as soon as a separating axis is found.
+ */
+function leastOverlap(axes: Vec2[], a: Vec2[], b: Vec2[]): Contact | null {
+  let best: Contact | null = null;
+  for (const axis of axes) {
+    const [minA, maxA] = project(a, axis);
+    const [minB, maxB] = project(b, axis);
+    const overlap = Math.min(maxA, maxB) - Math.max(minA, minB);
+    if (overlap <= 0) return null;
+    if (!best || overlap < best.depth)
+      best = { normal: axis.clone(), depth: overlap };
+  }
+  return best;
+}
+
+/**
+ * Gets the unit normals of a polygon's edges.
+ */
+function edgeNormals(vertices: Vec2[]): Vec2[] {
+  return vertices.map((vertex, i) => {
+    const next = vertices[(i + 1) % vertices.length];
+    const edge = next.subtractNew(vertex);
+    return new Vec2(-edge.y, edge.x).normalise();
+  });
+}
+
+/**
+ * Projects vertices onto an axis.
+ * @returns The minimum and maximum of the projection.
+ */
+function project(vertices: Vec2[], axis: Vec2): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  vertices.forEach((vertex) => {
+    const projection = vertex.dot(axis);
+    min = Math.min(min, projection);
+    max = Math.max(max, projection);
+  });
+  return [min, max];
+}
+
+/**
+ * Gets the average of a polygon's vertices.
+ */
+function centroid(vertices: Vec2[]): Vec2 {
+  const sum = vertices.reduce((acc, v) => acc.add(v), new Vec2(0, 0));
+  return sum.scale(1 / vertices.length);
+}
+
+/**
+ * Flips a contact normal so that it points from `from` towards `to`.
+ */
+function orient(contact: Contact, from: Vec2, to: Vec2) {
+  if (to.subtractNew(from).dot(contact.normal) < 0) contact.normal.negate();
+}
@@ -0,0 +1,131 @@
+import type { Rectangle } from "../Helpers/Rectangle";
+
+/**
+ * The range of grid cells an item covers, inclusive.
+ */
+type CellRange = {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+};
+
+/**
+ * A uniform grid that buckets items by the cells their bounds cover.
+ * Used as a broadphase: querying an area only looks at the items in the cells it covers.
+ */
+export class SpatialHash<T> {
+  /** The size of a grid cell in world units. */
+  cellSize: number;
+
+  /**
+   * The items in each cell, by cell key.
+   * @private
+   */
+  #cells: Map<string, Set<T>> = new Map();
+
+  /**
+   * The cells each item covers.
+   * @private
+   */
+  #ranges: Map<T, CellRange> = new Map();
+
+  /**
+   * Creates a new SpatialHash.
+   * @param {number} cellSize - The size of a grid cell in world units. Defaults to 100.
+   */
+  constructor(cellSize: number = 100) {
+    this.cellSize = cellSize;
+  }
+
+  /**
+   * Adds an item, or moves it if it is already in the hash.
+   * Nothing changes if the item still covers the same cells.
+   * @param {T} item - The item.
+   * @param {Rectangle} bounds - The item's bounds.
+   */
+  insert(item: T, bounds: Rectangle) {
+    const range = this.#rangeOf(bounds);
+    const previous = this.#ranges.get(item);
+    if (
+      previous &&
+      previous.minX === range.minX &&
+      previous.minY === range.minY &&
+      previous.maxX === range.maxX &&
+      previous.maxY === range.maxY
+    )
+      return;
+
+    if (previous) this.remove(item);
+    this.#ranges.set(item, range);
+    this.#forEachKey(range, (key) => {
+      let cell = this.#cells.get(key);
+      if (!cell) {
+        cell = new Set();
+        this.#cells.set(key, cell);
+      }
+      cell.add(item);
+    });
+  }
+
+  /**
+   * Removes an item.
+   * @param {T} item - The item.
+   */
+  remove(item: T) {
+    const range = this.#ranges.get(item);
+    if (!range) return;
+    this.#ranges.delete(item);
+    this.#forEachKey(range, (key) => {
+      const cell = this.#cells.get(key);
+      if (!cell) return;
+      cell.delete(item);
+      if (cell.size === 0) this.#cells.delete(key);
+    });
+  }
+
+  /**
+   * Removes every item.
+   */
+  clear() {
+    this.#cells.clear();
+    this.#ranges.clear();
+  }
+
+  /**
+   * Gets the items in the cells an area covers.
+   * These are candidates only: their bounds may not overlap the area itself.
+   * @param {Rectangle} area - The area to query.
+   * @returns {Set<T>} The candidate items.
+   */
+  query(area: Rectangle): Set<T> {
+    const found = new Set<T>();
+    this.#forEachKey(this.#rangeOf(area), (key) => {
+      this.#cells.get(key)?.forEach((item) => found.add(item));
+    });
+    return found;
+  }
+
+  /**
+   * Gets the range of cells covered by some bounds.
+   */
+  #rangeOf(bounds: Rectangle): CellRange {
+    return {
+      minX: Math.floor(bounds.x / this.cellSize),
+      minY: Math.floor(bounds.y / this.cellSize),
+      maxX: Math.floor((bounds.x + bounds.width) / this.cellSize),
+      maxY: Math.floor((bounds.y + bounds.height) / this.cellSize),
+    };
+  }
+
+  /**
+   * Calls a function with the key of every cell in a range.
+   */
+  #forEachKey(range: CellRange, callback: (key: string) => void) {
+    for (let x = range.minX; x <= range.maxX; x++) {
+      for (let y = range.minY; y <= range.maxY; y++) {
+        callback(`${x},${y}`);
+      }
+    }
+  }
+}
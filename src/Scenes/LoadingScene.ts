@@ -0,0 +1,111 @@
+import type { GameEngine } from "../Core/GameEngine";
+import { RenderLayerName } from "../Core/RenderLayers";
+import { Scene } from "../Core/Scene";
+import { TransitionType } from "../Core/SceneManager";
+import { Label } from "../GameObjects";
+
+/**
+ * Arguments for creating a LoadingScene.
+ */
+export type LoadingSceneArguments = {
+  /** The names of the assets to load. Defaults to every asset in the manifest. */
+  assets?: string[];
+  /** Creates the scene to fade into once everything has loaded. */
+  next: () => Scene;
+};
+
+/**
+ * Loads assets with the engine's asset manager, showing the progress, then fades
+ * into the next scene. If an asset fails to load, the error is shown instead.
+ */
+export class LoadingScene extends Scene {
+  /** The names of the assets to load, or undefined for every asset in the manifest. */
+  assets: string[] | undefined;
+  /** Creates the scene to fade into once everything has loaded. */
+  next: () => Scene;
+
+  /**
+   * The label showing the progress.
+   * @private
+   */
+  #label: Label | null = null;
+
+  /**
+   * Whether every asset has loaded.
+   * @private
+   */
+  #loaded: boolean = false;
+
+  /**
+   * Stops listening for progress.
+   * @private
+   */
+  #unsubscribe: (() => void) | null = null;
+
+  /**
+   * Creates a new LoadingScene.
+   * @param {LoadingSceneArguments} args - The arguments for the scene.
+   */
+  constructor({ assets, next }: LoadingSceneArguments) {
+    super({ id: "loading" });
+    this.assets = assets;
+    this.next = next;
+  }
+
+  /**
+   * Builds the progress text and starts loading.
+   * @param engine The game engine instance.
+   */
+  onEnter(engine: GameEngine) {
+    this.#label = new Label({
+      id: "loading",
+      position: engine.dims.scaleNew(0.5),
+      dimensions: engine.dims.clone(),
+      dpr: engine.dpr,
+      layer: RenderLayerName.UI,
+      text: "Loading... 0%",
+      background: "#223344",
+    });
+    engine.addObject(this.#label);
+
+    const { assets } = engine;
+    this.#unsubscribe = assets.events.on("progress", ({ loaded, total }) =>
+      this.#show(`Loading... ${Math.round((loaded / total) * 100)}%`)
+    );
+    assets.load(this.assets).then(
+      () => (this.#loaded = true),
+      (error: Error) => this.#show(`Loading failed\n\n${error.message}`)
+    );
+  }
+
+  /**
+   * Fades into the next scene once everything has loaded.
+   * @param engine The game engine instance.
+   */
+  update(engine: GameEngine) {
+    if (!this.#loaded || engine.scenes.transitioning) return;
+    engine.scenes.replace(this.next(), {
+      type: TransitionType.FADE,
+      duration: 0.5,
+    });
+  }
+
+  /**
+   * Stops listening for progress.
+   * @param engine The game engine instance.
+   */
+  onExit(_engine: GameEngine) {
+    this.#unsubscribe?.();
+    this.#unsubscribe = null;
+    this.#label = null;
+  }
+
+  /**
+   * Shows a message in place of the progress.
+   */
+  #show(text: string) {
+    if (!this.#label) return;
+    this.#label.text = text;
+    this.#label.needsRedraw = true;
+  }
+}
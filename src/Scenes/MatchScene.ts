@@ -0,0 +1,147 @@
+import { Vec2 } from "wtc-math";
+
+import type { GameEngine } from "../Core/GameEngine";
+import type { Gesture } from "../Core/GestureRecognizer";
+import { Scene } from "../Core/Scene";
+import type { SceneData } from "../Core/SceneData";
+import { Background, Ground, Player } from "../GameObjects";
+import { Rectangle } from "../Helpers/Rectangle";
+import { PauseScene } from "./PauseScene";
+
+/**
+ * Arguments for creating a MatchScene.
+ */
+export type MatchSceneArguments = {
+  /** A saved match to carry on, or its JSON. Defaults to a new match. */
+  save?: SceneData | string;
+};
+
+/**
+ * The main game scene, with the background, the ground and the player's tank.
+ * Pinching on a touch screen zooms the camera in and out.
+ * The `tank` atlas and the `music`, `fire` and `explosion` sounds must be loaded
+ * before the match starts.
+ * A match saved with `engine.serializeScene` can be carried on by passing it as `save`.
+ */
+export class MatchScene extends Scene {
+  /** The closest the camera can zoom in with a pinch. */
+  maxZoom: number = 2.5;
+
+  /**
+   * The camera zoom when the current pinch started.
+   * @private
+   */
+  #pinchZoom: number = 1;
+
+  /**
+   * The saved match to carry on, if any.
+   * @private
+   */
+  #save: SceneData | string | undefined;
+
+  /**
+   * The engine the match is running in, while the match is active.
+   * @private
+   */
+  #engine: GameEngine | null = null;
+
+  /**
+   * Zooms the camera with pinches, never zooming out past the whole match.
+   * @private
+   */
+  #handleGesture = (gesture: Gesture) => {
+    if (gesture.type !== "pinch" || !this.#engine) return;
+    const { camera } = this.#engine;
+    if (gesture.phase === "start") this.#pinchZoom = camera.zoom;
+    camera.zoom = Math.min(
+      this.maxZoom,
+      Math.max(1, this.#pinchZoom * gesture.scale)
+    );
+  };
+
+  /**
+   * Creates a new MatchScene.
+   * @param {MatchSceneArguments} args - The saved match to carry on, if any.
+   */
+  constructor({ save }: MatchSceneArguments = {}) {
+    super({ id: "match" });
+    this.#save = save;
+  }
+
+  /**
+   * Builds the match, or loads the saved one, points the camera at the player,
+   * starts the music and listens for pinches.
+   * @param engine The game engine instance.
+   */
+  onEnter(engine: GameEngine) {
+    this.#engine = engine;
+    engine.inputManager.addGestureListener(this.#handleGesture);
+    const { dims } = engine;
+
+    if (this.#save) engine.loadScene(this.#save);
+    else this.#build(engine);
+
+    engine.camera.bounds = new Rectangle(0, 0, dims.x, dims.y);
+    const player = engine.getObjectById("player1");
+    if (player) engine.camera.follow(player, { deadzone: new Vec2(200, 100) });
+    engine.audio.playMusic("music", { fade: 2 });
+  }
+
+  /**
+   * Pauses the match when the pause action is pressed.
+   * @param engine The game engine instance.
+   */
+  update(engine: GameEngine) {
+    if (engine.scenes.transitioning) return;
+    if (engine.inputManager.wasPressed("pause")) {
+      engine.scenes.push(new PauseScene());
+    }
+  }
+
+  /**
+   * Releases the camera bounds and zoom, fades the music out and stops listening for pinches.
+   * @param engine The game engine instance.
+   */
+  onExit(engine: GameEngine) {
+    engine.camera.bounds = null;
+    engine.camera.zoom = 1;
+    engine.audio.stopMusic();
+    engine.inputManager.removeGestureListener(this.#handleGesture);
+    this.#engine = null;
+  }
+
+  /**
+   * Builds a new match: the background, the ground and the player's tank.
+   * @param engine The game engine instance.
+   */
+  #build(engine: GameEngine) {
+    const { dims, dpr } = engine;
+
+    const background = new Background({
+      id: "mainBackground",
+      dimensions: dims.clone(),
+      dpr,
+    });
+    const ground = new Ground({
+      id: "Ground",
+      dimensions: dims.clone(),
+      dpr,
+      // From the engine's generator, so replays get the same terrain
+      seed: engine.random.int(0, 4294967296),
+      groundHeight: engine.physics.environment["ground height"],
+    });
+    const player = new Player({
+      id: "player1",
+      // Dropped from the sky, it falls until it lands on the ground
+      position: new Vec2(50, 100),
+      dimensions: new Vec2(50, 50),
+      speed: 150,
+      dpr,
+      atlas: engine.assets.atlas("tank"),
+    });
+
+    engine.addObject(background);
+    engine.addObject(ground);
+    engine.addObject(player);
+  }
+}
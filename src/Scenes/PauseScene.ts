@@ -0,0 +1,43 @@
+import type { GameEngine } from "../Core/GameEngine";
+import { RenderLayerName } from "../Core/RenderLayers";
+import { Scene } from "../Core/Scene";
+import { Label } from "../GameObjects";
+
+/**
+ * An overlay shown on top of a paused match. The match keeps drawing underneath it.
+ */
+export class PauseScene extends Scene {
+  /**
+   * Creates a new PauseScene.
+   */
+  constructor() {
+    super({ id: "pause", overlay: true });
+  }
+
+  /**
+   * Builds the pause menu over the current view.
+   * @param engine The game engine instance.
+   */
+  onEnter(engine: GameEngine) {
+    engine.addObject(
+      new Label({
+        id: "pauseMenu",
+        position: engine.dims.scaleNew(0.5),
+        dimensions: engine.dims.clone(),
+        dpr: engine.dpr,
+        layer: RenderLayerName.UI,
+        text: "Paused\n\nPress Escape to resume",
+        background: "rgba(0, 0, 0, 0.5)",
+      })
+    );
+  }
+
+  /**
+   * Resumes the match when the pause action is pressed.
+   * @param engine The game engine instance.
+   */
+  update(engine: GameEngine) {
+    if (engine.scenes.transitioning) return;
+    if (engine.inputManager.wasPressed("pause")) engine.scenes.pop();
+  }
+}
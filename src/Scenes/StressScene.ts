@@ -0,0 +1,168 @@
+import { Vec2 } from "wtc-math";
+
+import type { GameEngine } from "../Core/GameEngine";
+import { Scene } from "../Core/Scene";
+import { Label } from "../GameObjects";
+
+/**
+ * Arguments for creating a StressScene.
+ */
+export type StressSceneArguments = {
+  /** How many static tiles cover the screen. Defaults to 2500. */
+  tiles?: number;
+  /** How many dynamic objects move over the tiles. Defaults to 20. */
+  movers?: number;
+};
+
+/**
+ * The result of drawing the StressScene in one rendering mode.
+ */
+export type DrawBenchmarkResult = {
+  /** A description of the mode. */
+  mode: string;
+  /** Whether static objects were drawn from their layer's cached image. */
+  cacheStaticLayers: boolean;
+  /** Whether only the changed parts of the screen were repainted. */
+  dirtyRects: boolean;
+  /** The average time `draw` took, in milliseconds. */
+  frameTime: number;
+};
+
+/**
+ * The rendering modes compared by `benchmarkDrawModes`.
+ */
+const DRAW_MODES: Omit<DrawBenchmarkResult, "frameTime">[] = [
+  { mode: "Every object", cacheStaticLayers: false, dirtyRects: false },
+  { mode: "Static layers", cacheStaticLayers: true, dirtyRects: false },
+  {
+    mode: "Static layers and dirty rects",
+    cacheStaticLayers: true,
+    dirtyRects: true,
+  },
+];
+
+/**
+ * A large scene for measuring rendering: a grid of static tiles filling the screen,
+ * with a few small dynamic objects circling over them.
+ */
+export class StressScene extends Scene {
+  /** How many static tiles cover the screen. */
+  tiles: number;
+  /** How many dynamic objects move over the tiles. */
+  movers: number;
+
+  /**
+   * The dynamic objects.
+   * @private
+   */
+  #movers: Label[] = [];
+
+  /**
+   * Creates a new StressScene.
+   * @param {StressSceneArguments} args - The arguments for the scene.
+   */
+  constructor({ tiles = 2500, movers = 20 }: StressSceneArguments = {}) {
+    super({ id: "stress" });
+    this.tiles = tiles;
+    this.movers = movers;
+  }
+
+  /**
+   * Builds the tiles and the movers, with the camera centered on them.
+   * @param engine The game engine instance.
+   */
+  onEnter(engine: GameEngine) {
+    engine.camera.reset();
+    const { dims } = engine;
+    const columns = Math.ceil(Math.sqrt((this.tiles * dims.x) / dims.y));
+    const rows = Math.ceil(this.tiles / columns);
+    const size = new Vec2(dims.x / columns, dims.y / rows);
+
+    for (let i = 0; i < this.tiles; i++) {
+      const column = i % columns;
+      const row = Math.floor(i / columns);
+      engine.addObject(
+        new Label({
+          id: `tile${i}`,
+          position: new Vec2((column + 0.5) * size.x, (row + 0.5) * size.y),
+          dimensions: size.clone(),
+          dpr: engine.dpr,
+          text: `${i}`,
+          font: "6px sans-serif",
+          color: "#223344",
+          background: (column + row) % 2 === 0 ? "#AADDEE" : "#BBDDFF",
+          isStatic: true,
+        })
+      );
+    }
+
+    this.#movers = [];
+    for (let i = 0; i < this.movers; i++) {
+      const mover = new Label({
+        id: `mover${i}`,
+        position: dims.scaleNew(0.5),
+        dimensions: new Vec2(20, 20),
+        dpr: engine.dpr,
+        text: `${i}`,
+        font: "10px sans-serif",
+        background: "orangered",
+      });
+      this.#movers.push(mover);
+      engine.addObject(mover);
+    }
+  }
+
+  /**
+   * Moves the movers around circles of different sizes.
+   * @param engine The game engine instance.
+   */
+  update(engine: GameEngine) {
+    const { dims, time } = engine;
+    const radius = Math.min(dims.x, dims.y) * 0.4;
+    this.#movers.forEach((mover, i) => {
+      const t = time * (1 + i * 0.1) + i;
+      const r = radius * (0.3 + (0.7 * (i + 1)) / this.#movers.length);
+      mover.position.reset(
+        dims.x / 2 + Math.cos(t) * r,
+        dims.y / 2 + Math.sin(t) * r
+      );
+    });
+  }
+}
+
+/**
+ * Draws a StressScene in each rendering mode, in a new engine each, and measures how long
+ * drawing a frame takes on average. Only the time spent in `draw` is measured.
+ * @example
+ * const results = benchmarkDrawModes(() => new GameEngine({ canvas, audio }));
+ * console.table(results);
+ * @param {() => GameEngine} createEngine - Creates an engine to draw with.
+ * @param {StressSceneArguments & { frames?: number }} args - The size of the scene,
+ * and how many frames to draw in each mode. Defaults to 120 frames.
+ * @returns {DrawBenchmarkResult[]} The results: drawing every object, drawing static layers
+ * from their images, then also repainting only dirty rectangles.
+ */
+export function benchmarkDrawModes(
+  createEngine: () => GameEngine,
+  { frames = 120, ...args }: StressSceneArguments & { frames?: number } = {}
+): DrawBenchmarkResult[] {
+  return DRAW_MODES.map((mode) => {
+    const engine = createEngine();
+    engine.cacheStaticLayers = mode.cacheStaticLayers;
+    engine.dirtyRects = mode.dirtyRects;
+    engine.scenes.replace(new StressScene(args));
+    // Every surface, and the cached layers, are drawn in the first frame
+    engine.step();
+
+    let total = 0;
+    for (let i = 0; i < frames; i++) {
+      engine.update(engine.fixedDeltaTime);
+      engine.alpha = 1;
+      const start = performance.now();
+      engine.draw();
+      total += performance.now() - start;
+    }
+    engine.dispose();
+    return { ...mode, frameTime: total / frames };
+  });
+}
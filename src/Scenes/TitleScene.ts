@@ -0,0 +1,77 @@
+import type { GameEngine } from "../Core/GameEngine";
+import type { Gesture } from "../Core/GestureRecognizer";
+import { RenderLayerName } from "../Core/RenderLayers";
+import { Scene } from "../Core/Scene";
+import { TransitionType } from "../Core/SceneManager";
+import { Label } from "../GameObjects";
+import { MatchScene } from "./MatchScene";
+
+/**
+ * The title screen. Pressing the confirm action (Enter) or tapping fades into a match.
+ */
+export class TitleScene extends Scene {
+  /**
+   * Whether the screen was tapped since the last update.
+   * @private
+   */
+  #tapped: boolean = false;
+
+  /**
+   * Notes taps, so touch screens can start a match.
+   * @private
+   */
+  #handleGesture = (gesture: Gesture) => {
+    if (gesture.type === "tap") this.#tapped = true;
+  };
+
+  /**
+   * Creates a new TitleScene.
+   */
+  constructor() {
+    super({ id: "title" });
+  }
+
+  /**
+   * Builds the title text and listens for taps.
+   * @param engine The game engine instance.
+   */
+  onEnter(engine: GameEngine) {
+    engine.inputManager.addGestureListener(this.#handleGesture);
+    engine.addObject(
+      new Label({
+        id: "title",
+        position: engine.dims.scaleNew(0.5),
+        dimensions: engine.dims.clone(),
+        dpr: engine.dpr,
+        layer: RenderLayerName.UI,
+        text: "TANKS\n\nPress Enter or tap to start",
+        font: "32px sans-serif",
+        background: "#223344",
+      })
+    );
+  }
+
+  /**
+   * Starts a match when the confirm action is pressed or the screen is tapped.
+   * @param engine The game engine instance.
+   */
+  update(engine: GameEngine) {
+    const tapped = this.#tapped;
+    this.#tapped = false;
+    if (engine.scenes.transitioning) return;
+    if (engine.inputManager.wasPressed("confirm") || tapped) {
+      engine.scenes.replace(new MatchScene(), {
+        type: TransitionType.FADE,
+        duration: 1,
+      });
+    }
+  }
+
+  /**
+   * Stops listening for taps.
+   * @param engine The game engine instance.
+   */
+  onExit(engine: GameEngine) {
+    engine.inputManager.removeGestureListener(this.#handleGesture);
+  }
+}
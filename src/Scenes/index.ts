@@ -0,0 +1,5 @@
+export * from "./LoadingScene";
+export * from "./MatchScene";
+export * from "./PauseScene";
+export * from "./StressScene";
+export * from "./TitleScene";
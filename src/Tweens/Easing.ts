@@ -0,0 +1,121 @@
+/**
+ * Maps the progress of a tween, from 0 to 1, to how far its values have moved.
+ * It starts at 0 and ends at 1, but may overshoot in between.
+ */
+export type EasingFunction = (t: number) => number;
+
+/**
+ * Makes an ease-out from an ease-in by playing it backwards.
+ * @param easeIn The ease-in.
+ * @returns The ease-out.
+ */
+function out(easeIn: EasingFunction): EasingFunction {
+  return (t) => 1 - easeIn(1 - t);
+}
+
+/**
+ * Makes an ease-in-out from an ease-in, easing in for the first half and out for the second.
+ * @param easeIn The ease-in.
+ * @returns The ease-in-out.
+ */
+function inOut(easeIn: EasingFunction): EasingFunction {
+  return (t) => (t < 0.5 ? easeIn(t * 2) / 2 : 1 - easeIn((1 - t) * 2) / 2);
+}
+
+/** How far the back easings overshoot. */
+const BACK_OVERSHOOT = 1.70158;
+
+const quadIn: EasingFunction = (t) => t * t;
+const cubicIn: EasingFunction = (t) => t * t * t;
+const quartIn: EasingFunction = (t) => t * t * t * t;
+const quintIn: EasingFunction = (t) => t * t * t * t * t;
+const sineIn: EasingFunction = (t) => 1 - Math.cos((t * Math.PI) / 2);
+const expoIn: EasingFunction = (t) => (t === 0 ? 0 : Math.pow(2, 10 * t - 10));
+const circIn: EasingFunction = (t) => 1 - Math.sqrt(1 - t * t);
+const backIn: EasingFunction = (t) =>
+  t * t * ((BACK_OVERSHOOT + 1) * t - BACK_OVERSHOOT);
+const elasticIn: EasingFunction = (t) =>
+  t === 0 || t === 1
+    ? t
+    : -Math.pow(2, 10 * t - 10) *
+      Math.sin((t * 10 - 10.75) * ((2 * Math.PI) / 3));
+const bounceIn: EasingFunction = (t) => 1 - bounceOut(1 - t);
+
+/**
+ * Bounces to a stop, like a dropped ball.
+ * @param t The progress, from 0 to 1.
+ * @returns How far the value has moved.
+ */
+function bounceOut(t: number): number {
+  const n = 7.5625;
+  const d = 2.75;
+  if (t < 1 / d) return n * t * t;
+  if (t < 2 / d) return n * (t -= 1.5 / d) * t + 0.75;
+  if (t < 2.5 / d) return n * (t -= 2.25 / d) * t + 0.9375;
+  return n * (t -= 2.625 / d) * t + 0.984375;
+}
+
+/**
+ * The standard easing functions. `In` easings start slowly, `Out` easings end
+ * slowly, and `InOut` easings do both.
+ *
+ * @example
+ * engine.tweens.to(label, { rotation: Math.PI }, 1, "backOut");
+ * engine.tweens.to(label, { rotation: 0 }, 1, Easing.quadInOut);
+ */
+export const Easing = {
+  linear: (t) => t,
+  quadIn,
+  quadOut: out(quadIn),
+  quadInOut: inOut(quadIn),
+  cubicIn,
+  cubicOut: out(cubicIn),
+  cubicInOut: inOut(cubicIn),
+  quartIn,
+  quartOut: out(quartIn),
+  quartInOut: inOut(quartIn),
+  quintIn,
+  quintOut: out(quintIn),
+  quintInOut: inOut(quintIn),
+  sineIn,
+  sineOut: out(sineIn),
+  sineInOut: inOut(sineIn),
+  expoIn,
+  expoOut: out(expoIn),
+  expoInOut: inOut(expoIn),
+  circIn,
+  circOut: out(circIn),
+  circInOut: inOut(circIn),
+  backIn,
+  backOut: out(backIn),
+  backInOut: inOut(backIn),
+  elasticIn,
+  elasticOut: out(elasticIn),
+  elasticInOut: inOut(elasticIn),
+  bounceIn,
+  bounceOut,
+  bounceInOut: inOut(bounceIn),
+} satisfies Record<string, EasingFunction>;
+
+/**
+ * The name of one of the standard easing functions.
+ */
+export type EasingName = keyof typeof Easing;
+
+/**
+ * An easing function, or the name of one of the standard ones.
+ */
+export type EasingType = EasingFunction | EasingName;
+
+/**
+ * Gets an easing function by name.
+ * @param {EasingType} easing - The easing function, or its name.
+ * @returns {EasingFunction} The easing function.
+ * @throws {Error} If there is no easing function with that name.
+ */
+export function resolveEasing(easing: EasingType): EasingFunction {
+  if (typeof easing === "function") return easing;
+  if (!Object.prototype.hasOwnProperty.call(Easing, easing))
+    throw new Error(`There is no easing function "${easing}".`);
+  return Easing[easing];
+}
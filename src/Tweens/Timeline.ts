@@ -0,0 +1,229 @@
+import {
+  isSettled,
+  TIME_EPSILON,
+  TweenState,
+  type Playable,
+  type PlayOptions,
+} from "./Tween";
+
+/**
+ * How a timeline plays its steps.
+ */
+export enum TimelineMode {
+  /** One after the other. */
+  SEQUENCE = "sequence",
+  /** All at once, finishing with the longest. */
+  PARALLEL = "parallel",
+}
+
+/**
+ * Plays tweens, and other timelines, one after the other or all at once, so
+ * they can be nested into larger animations.
+ * A step that's cancelled, such as when its target is removed, is skipped.
+ *
+ * Steps are played by the timeline, so they shouldn't be played on their own too.
+ *
+ * @example
+ * engine.tweens.play(
+ *   Timeline.sequence([
+ *     new Tween(label, { position: new Vec2(0, 100) }, 0.5, "backOut"),
+ *     Timeline.parallel([
+ *       new Tween(label, { rotation: Math.PI }, 1),
+ *       new Tween(label, { scale: new Vec2(2, 2) }, 0.5),
+ *     ]),
+ *     Tween.wait(1),
+ *   ])
+ * );
+ */
+export class Timeline implements Playable {
+  /** How the steps are played. */
+  readonly mode: TimelineMode;
+  /** The tweens and timelines played. */
+  readonly steps: Playable[];
+  /** How long to wait before starting, in seconds. */
+  readonly delay: number;
+  /** How many times to play again after the first time. */
+  readonly repeat: number;
+  /** @inheritdoc */
+  readonly finished: Promise<boolean>;
+
+  /**
+   * Where the timeline is in its life.
+   * @private
+   */
+  #state: TweenState = TweenState.PENDING;
+
+  /**
+   * The delay left to wait out, in seconds.
+   * @private
+   */
+  #delayLeft: number;
+
+  /**
+   * The step playing in a sequence.
+   * @private
+   */
+  #index: number = 0;
+
+  /**
+   * How many times the timeline has played again.
+   * @private
+   */
+  #iteration: number = 0;
+
+  /**
+   * Called once the timeline completes.
+   * @private
+   */
+  #onComplete: (() => void) | undefined;
+
+  /**
+   * Settles `finished`.
+   * @private
+   */
+  #settle!: (completed: boolean) => void;
+
+  /**
+   * Creates a new Timeline. It doesn't play until it's given to the TweenManager or another timeline.
+   * @param {TimelineMode} mode - How to play the steps.
+   * @param {Playable[]} steps - The tweens and timelines to play.
+   * @param {PlayOptions} options - The delay and repeats.
+   */
+  constructor(
+    mode: TimelineMode,
+    steps: Playable[],
+    { delay = 0, repeat = 0, onComplete }: PlayOptions = {}
+  ) {
+    this.mode = mode;
+    this.steps = [...steps];
+    this.delay = delay;
+    this.repeat = repeat;
+    this.#delayLeft = delay;
+    this.#onComplete = onComplete;
+    this.finished = new Promise((resolve) => (this.#settle = resolve));
+  }
+
+  /**
+   * Creates a timeline that plays its steps one after the other.
+   * @param {Playable[]} steps - The tweens and timelines to play.
+   * @param {PlayOptions} options - The delay and repeats.
+   * @returns {Timeline} The timeline.
+   */
+  static sequence(steps: Playable[], options?: PlayOptions): Timeline {
+    return new Timeline(TimelineMode.SEQUENCE, steps, options);
+  }
+
+  /**
+   * Creates a timeline that plays its steps all at once.
+   * @param {Playable[]} steps - The tweens and timelines to play.
+   * @param {PlayOptions} options - The delay and repeats.
+   * @returns {Timeline} The timeline.
+   */
+  static parallel(steps: Playable[], options?: PlayOptions): Timeline {
+    return new Timeline(TimelineMode.PARALLEL, steps, options);
+  }
+
+  /** @inheritdoc */
+  get state(): TweenState {
+    return this.#state;
+  }
+
+  /** @inheritdoc */
+  get targets(): object[] {
+    return this.steps.flatMap((step) => step.targets);
+  }
+
+  /** @inheritdoc */
+  advance(deltaTime: number): number {
+    if (isSettled(this)) return deltaTime;
+
+    let time = deltaTime;
+    if (this.#delayLeft > 0) {
+      const waited = Math.min(time, this.#delayLeft);
+      this.#delayLeft -= waited;
+      time -= waited;
+      if (this.#delayLeft > TIME_EPSILON) return 0;
+    }
+    this.#state = TweenState.RUNNING;
+
+    for (;;) {
+      const played = time;
+      time =
+        this.mode === TimelineMode.SEQUENCE
+          ? this.#advanceSequence(time)
+          : this.#advanceParallel(time);
+      if (!this.steps.every(isSettled)) return 0;
+
+      if (this.#iteration >= this.repeat) {
+        this.#finish(TweenState.COMPLETE);
+        return time;
+      }
+      this.#iteration++;
+      this.#index = 0;
+      this.steps.forEach((step) => step.reset());
+      // A play that took no time carries on next tick, rather than repeating forever now
+      if (time === played) return 0;
+    }
+  }
+
+  /** @inheritdoc */
+  reset() {
+    if (this.#state === TweenState.CANCELLED) return;
+    this.#state = TweenState.PENDING;
+    this.#delayLeft = this.delay;
+    this.#index = 0;
+    this.#iteration = 0;
+    this.steps.forEach((step) => step.reset());
+  }
+
+  /** @inheritdoc */
+  cancel() {
+    if (isSettled(this)) return;
+    this.steps.forEach((step) => step.cancel());
+    this.#finish(TweenState.CANCELLED);
+  }
+
+  /** @inheritdoc */
+  cancelTarget(target: object) {
+    this.steps.forEach((step) => step.cancelTarget(target));
+    // With nothing left to play, the timeline is cancelled too
+    if (
+      this.steps.length > 0 &&
+      this.steps.every((step) => step.state === TweenState.CANCELLED)
+    )
+      this.cancel();
+  }
+
+  /**
+   * Plays the steps one after the other, passing the time left over by each
+   * step on to the next.
+   */
+  #advanceSequence(time: number): number {
+    while (this.#index < this.steps.length) {
+      time = this.steps[this.#index].advance(time);
+      if (!isSettled(this.steps[this.#index])) return 0;
+      this.#index++;
+    }
+    return time;
+  }
+
+  /**
+   * Plays every step at once. The time left over is that of the step that
+   * finished last.
+   */
+  #advanceParallel(time: number): number {
+    return this.steps.reduce(
+      (left, step) => Math.min(left, step.advance(time)),
+      time
+    );
+  }
+
+  /**
+   * Ends the timeline and settles `finished`.
+   */
+  #finish(state: TweenState) {
+    this.#state = state;
+    if (state === TweenState.COMPLETE) this.#onComplete?.();
+    this.#settle(state === TweenState.COMPLETE);
+  }
+}
@@ -0,0 +1,194 @@
+import { Vec2 } from "wtc-math";
+import { describe, expect, it } from "vitest";
+
+import { Easing, resolveEasing, type EasingName } from "./Easing";
+import { Timeline } from "./Timeline";
+import { Tween, TweenState } from "./Tween";
+import { MemoryAudioBackend } from "../Audio/MemoryAudioBackend";
+import { GameEngine } from "../Core/GameEngine";
+import { GameObject } from "../Core/GameObject";
+import { HeadlessRenderer } from "../Graphics/HeadlessRenderer";
+
+class Box extends GameObject {
+  drawObject() {
+    this.ctx.fillStyle = "red";
+    this.ctx.fillRect(0, 0, this.dims.x, this.dims.y);
+    this.needsRedraw = false;
+  }
+}
+
+describe("Easing", () => {
+  it("starts at 0 and ends at 1", () => {
+    (Object.keys(Easing) as EasingName[]).forEach((name) => {
+      expect(Easing[name](0), name).toBeCloseTo(0);
+      expect(Easing[name](1), name).toBeCloseTo(1);
+    });
+  });
+
+  it("rejects unknown easing names", () => {
+    expect(resolveEasing("quadIn")).toBe(Easing.quadIn);
+    expect(() => resolveEasing("wobble" as EasingName)).toThrow(
+      'There is no easing function "wobble".'
+    );
+  });
+});
+
+describe("Tween", () => {
+  it("moves numbers and Vec2s in place with its easing", () => {
+    const position = new Vec2(0, 0);
+    const target = { x: 0, position };
+    const tween = new Tween(
+      target,
+      { x: 10, position: new Vec2(20, 40) },
+      1,
+      "quadIn"
+    );
+
+    tween.advance(0.5);
+    expect(target.x).toBeCloseTo(2.5);
+    expect(target.position).toBe(position);
+    expect(position.y).toBeCloseTo(10);
+
+    expect(tween.advance(0.75)).toBeCloseTo(0.25);
+    expect(tween.state).toBe(TweenState.COMPLETE);
+    expect(target.x).toBe(10);
+    expect(position.x).toBe(20);
+  });
+
+  it("repeats and plays backwards every other time with yoyo", () => {
+    const target = { x: 0 };
+    const tween = new Tween(target, { x: 10 }, 1, "linear", {
+      repeat: 2,
+      yoyo: true,
+    });
+
+    tween.advance(1.25);
+    expect(target.x).toBeCloseTo(7.5);
+    tween.advance(1);
+    expect(target.x).toBeCloseTo(2.5);
+    expect(tween.state).toBe(TweenState.RUNNING);
+
+    expect(tween.advance(1)).toBeCloseTo(0.25);
+    // Odd number of plays, so it ends forwards
+    expect(target.x).toBe(10);
+    expect(tween.state).toBe(TweenState.COMPLETE);
+  });
+
+  it("carries the time left over from its delay into the first tick", () => {
+    const target = { x: 0 };
+    const tween = new Tween(target, { x: 10 }, 1, "linear", { delay: 0.5 });
+
+    tween.advance(0.25);
+    expect(tween.state).toBe(TweenState.PENDING);
+    tween.advance(0.5);
+    expect(tween.state).toBe(TweenState.RUNNING);
+    expect(target.x).toBeCloseTo(2.5);
+  });
+
+  it("starts from where the values are when its delay ends", () => {
+    const target = { x: 0 };
+    const tween = new Tween(target, { x: 10 }, 1, "linear", { delay: 1 });
+
+    tween.advance(0.5);
+    target.x = 6;
+    tween.advance(1);
+    expect(target.x).toBeCloseTo(8);
+  });
+
+  it("settles finished with whether it completed", async () => {
+    const completed = new Tween({ x: 0 }, { x: 1 }, 1);
+    const cancelled = new Tween({ x: 0 }, { x: 1 }, 1);
+    completed.advance(1);
+    cancelled.cancel();
+
+    expect(await completed.finished).toBe(true);
+    expect(await cancelled.finished).toBe(false);
+  });
+});
+
+describe("Timeline", () => {
+  it("plays a sequence one step after the other, passing on the time left over", () => {
+    const target = { x: 0, y: 0 };
+    const order: string[] = [];
+    const timeline = Timeline.sequence([
+      new Tween(target, { x: 10 }, 1, "linear", {
+        onComplete: () => order.push("x"),
+      }),
+      Tween.wait(0.5),
+      new Tween(target, { y: 10 }, 1, "linear", {
+        onComplete: () => order.push("y"),
+      }),
+    ]);
+
+    timeline.advance(1.25);
+    expect(target).toEqual({ x: 10, y: 0 });
+    timeline.advance(0.5);
+    expect(target.y).toBeCloseTo(2.5);
+
+    expect(timeline.advance(1)).toBeCloseTo(0.25);
+    expect(order).toEqual(["x", "y"]);
+    expect(timeline.state).toBe(TweenState.COMPLETE);
+  });
+
+  it("plays parallel steps at once, finishing with the longest", () => {
+    const target = { x: 0, y: 0 };
+    const timeline = Timeline.parallel([
+      new Tween(target, { x: 10 }, 1),
+      new Tween(target, { y: 10 }, 2),
+    ]);
+
+    timeline.advance(1.5);
+    expect(target.x).toBe(10);
+    expect(target.y).toBeCloseTo(7.5);
+    expect(timeline.state).toBe(TweenState.RUNNING);
+
+    expect(timeline.advance(1)).toBeCloseTo(0.5);
+    expect(timeline.state).toBe(TweenState.COMPLETE);
+  });
+
+  it("repeats its steps from the start", () => {
+    const target = { x: 0 };
+    const timeline = Timeline.sequence(
+      [new Tween(target, { x: 10 }, 1), new Tween(target, { x: 0 }, 1)],
+      { repeat: 1, delay: 0.5 }
+    );
+
+    timeline.advance(2.75);
+    expect(target.x).toBeCloseTo(2.5);
+    expect(timeline.advance(2)).toBeCloseTo(0.25);
+    expect(target.x).toBe(0);
+  });
+});
+
+describe("TweenManager", () => {
+  it("cancels the tweens of an object removed from the engine", () => {
+    const engine = new GameEngine({
+      renderer: new HeadlessRenderer(),
+      dimensions: new Vec2(800, 600),
+      dpr: 1,
+      seed: 1,
+      audio: new MemoryAudioBackend(),
+    });
+    const obj = new Box({
+      id: "box",
+      position: new Vec2(0, 0),
+      dimensions: new Vec2(10, 10),
+    });
+    const other = { x: 0 };
+    engine.addObject(obj);
+
+    const tween = engine.tweens.to(obj, { rotation: 1 }, 1);
+    const timeline = engine.tweens.sequence([
+      new Tween(obj, { rotation: 2 }, 1),
+      new Tween(other, { x: 10 }, 1),
+    ]);
+    engine.step(10);
+    engine.removeObject(obj);
+
+    expect(tween.state).toBe(TweenState.CANCELLED);
+    // The timeline carries on with the steps of other objects
+    expect(timeline.state).toBe(TweenState.RUNNING);
+    expect(timeline.steps[0].state).toBe(TweenState.CANCELLED);
+    expect(engine.tweens.playing).toEqual([timeline]);
+  });
+});
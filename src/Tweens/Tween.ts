@@ -0,0 +1,335 @@
+import { Vec2 } from "wtc-math";
+
+import { resolveEasing, type EasingFunction, type EasingType } from "./Easing";
+
+/**
+ * Where a tween or timeline is in its life.
+ */
+export enum TweenState {
+  /** Waiting to start, or waiting out its delay. */
+  PENDING = "pending",
+  /** Changing its values. */
+  RUNNING = "running",
+  /** Finished, with its values at their ends. */
+  COMPLETE = "complete",
+  /** Stopped before finishing, with its values left where they were. */
+  CANCELLED = "cancelled",
+}
+
+/**
+ * Anything the TweenManager can play: a tween, or a timeline of them.
+ */
+export interface Playable {
+  /** Where it is in its life. */
+  readonly state: TweenState;
+  /** The objects it changes. */
+  readonly targets: object[];
+  /** Settles with true once it completes, or false if it's cancelled. */
+  readonly finished: Promise<boolean>;
+  /**
+   * Moves it on in time.
+   * @param {number} deltaTime - The time to move on by, in seconds.
+   * @returns {number} The time left over once it finished, or 0 if it's still going.
+   */
+  advance(deltaTime: number): number;
+  /**
+   * Rewinds it to play again from the start, unless it was cancelled.
+   * Its `finished` promise doesn't settle again.
+   */
+  reset(): void;
+  /**
+   * Stops it, leaving its values where they are.
+   */
+  cancel(): void;
+  /**
+   * Stops it, or the parts of it, that change an object.
+   * @param {object} target - The object.
+   */
+  cancelTarget(target: object): void;
+}
+
+/**
+ * Time within this of an end, in seconds, counts as reaching it, so the error of
+ * adding up ticks doesn't cost a tick.
+ */
+export const TIME_EPSILON = 1e-9;
+
+/**
+ * Checks whether a tween or timeline has completed or been cancelled.
+ * @param {Playable} playable - The tween or timeline.
+ * @returns {boolean} True if it won't change anything again.
+ */
+export function isSettled(playable: Playable): boolean {
+  return (
+    playable.state === TweenState.COMPLETE ||
+    playable.state === TweenState.CANCELLED
+  );
+}
+
+/**
+ * Options for playing a tween or timeline.
+ */
+export type PlayOptions = {
+  /** How long to wait before starting, in seconds. Defaults to 0. */
+  delay?: number;
+  /** How many times to play again after the first time. Infinity plays forever. Defaults to 0. */
+  repeat?: number;
+  /** Called once it completes, in the tick it completes. */
+  onComplete?: () => void;
+};
+
+/**
+ * Options for a tween.
+ */
+export type TweenOptions = PlayOptions & {
+  /** Whether to play backwards every other time it repeats. Defaults to false. */
+  yoyo?: boolean;
+};
+
+/**
+ * The values a tween can move an object's number and Vec2 properties to.
+ */
+export type TweenValues<T> = {
+  [K in keyof T]?: T[K] extends number
+    ? number
+    : T[K] extends Vec2
+    ? Vec2
+    : never;
+};
+
+/**
+ * Moves number and Vec2 properties of an object from where they are when it
+ * starts to new values, over a duration, with an easing.
+ * Vec2 properties are changed in place, so references to them stay valid.
+ *
+ * Tweens are played by the engine's TweenManager, with `engine.tweens.to`, or as
+ * steps of a Timeline.
+ *
+ * @example
+ * const tween = new Tween(turret, { rotation: -1 }, 0.5, "quadOut", { yoyo: true, repeat: 1 });
+ * engine.tweens.play(tween);
+ * await tween.finished;
+ */
+export class Tween<T extends object = object> implements Playable {
+  /** The object whose properties are changed. */
+  readonly target: T;
+  /** How long one play takes, in seconds. */
+  readonly duration: number;
+  /** The easing applied to the progress. */
+  readonly easing: EasingFunction;
+  /** How long to wait before starting, in seconds. */
+  readonly delay: number;
+  /** How many times to play again after the first time. */
+  readonly repeat: number;
+  /** Whether to play backwards every other time it repeats. */
+  readonly yoyo: boolean;
+  /** @inheritdoc */
+  readonly finished: Promise<boolean>;
+
+  /**
+   * The values to move to, by property.
+   * @private
+   */
+  #to: Map<string, number | Vec2> = new Map();
+
+  /**
+   * The values when the tween started, by property.
+   * @private
+   */
+  #from: Map<string, number | Vec2> = new Map();
+
+  /**
+   * Where the tween is in its life.
+   * @private
+   */
+  #state: TweenState = TweenState.PENDING;
+
+  /**
+   * The delay left to wait out, in seconds.
+   * @private
+   */
+  #delayLeft: number;
+
+  /**
+   * The time spent in the current play, in seconds.
+   * @private
+   */
+  #elapsed: number = 0;
+
+  /**
+   * How many times the tween has played again.
+   * @private
+   */
+  #iteration: number = 0;
+
+  /**
+   * Called once the tween completes.
+   * @private
+   */
+  #onComplete: (() => void) | undefined;
+
+  /**
+   * Settles `finished`.
+   * @private
+   */
+  #settle!: (completed: boolean) => void;
+
+  /**
+   * Creates a new Tween. It doesn't play until it's given to the TweenManager or a timeline.
+   * @param {T} target - The object whose properties are changed.
+   * @param {TweenValues<T>} values - The values to move to, by property.
+   * @param {number} duration - How long one play takes, in seconds.
+   * @param {EasingType} easing - The easing, or its name. Defaults to "linear".
+   * @param {TweenOptions} options - The delay, repeats and yoyo.
+   * @throws {Error} If a property isn't a number or a Vec2, or the tween would repeat forever without a duration.
+   */
+  constructor(
+    target: T,
+    values: TweenValues<T>,
+    duration: number,
+    easing: EasingType = "linear",
+    { delay = 0, repeat = 0, yoyo = false, onComplete }: TweenOptions = {}
+  ) {
+    if (repeat === Infinity && !(duration > 0))
+      throw new Error("A tween that repeats forever needs a duration.");
+    this.target = target;
+    this.duration = Math.max(0, duration);
+    this.easing = resolveEasing(easing);
+    this.delay = delay;
+    this.repeat = repeat;
+    this.yoyo = yoyo;
+    this.#delayLeft = delay;
+    this.#onComplete = onComplete;
+    this.finished = new Promise((resolve) => (this.#settle = resolve));
+
+    const current = target as Record<string, unknown>;
+    Object.entries(values).forEach(([key, value]) => {
+      if (value instanceof Vec2 && current[key] instanceof Vec2)
+        this.#to.set(key, value.clone());
+      else if (typeof value === "number" && typeof current[key] === "number")
+        this.#to.set(key, value);
+      else
+        throw new Error(
+          `Can't tween "${key}", it isn't a number or a Vec2 on the target.`
+        );
+    });
+  }
+
+  /**
+   * Creates a tween that changes nothing, to wait in a timeline.
+   * @param {number} duration - How long to wait, in seconds.
+   * @returns {Tween} The tween.
+   */
+  static wait(duration: number): Tween {
+    return new Tween({}, {}, duration);
+  }
+
+  /** @inheritdoc */
+  get state(): TweenState {
+    return this.#state;
+  }
+
+  /** @inheritdoc */
+  get targets(): object[] {
+    return [this.target];
+  }
+
+  /**
+   * Gets how far through the current play the tween is, before easing.
+   * @returns {number} The progress, from 0 to 1.
+   */
+  get progress(): number {
+    if (this.#state === TweenState.COMPLETE) return 1;
+    return this.duration > 0 ? this.#elapsed / this.duration : 0;
+  }
+
+  /** @inheritdoc */
+  advance(deltaTime: number): number {
+    if (isSettled(this)) return deltaTime;
+
+    let time = deltaTime;
+    if (this.#delayLeft > 0) {
+      const waited = Math.min(time, this.#delayLeft);
+      this.#delayLeft -= waited;
+      time -= waited;
+      if (this.#delayLeft > TIME_EPSILON) return 0;
+    }
+    if (this.#state === TweenState.PENDING) this.#start();
+
+    this.#elapsed += time;
+    while (this.#elapsed >= this.duration - TIME_EPSILON) {
+      if (this.#iteration >= this.repeat) {
+        this.#apply(1);
+        this.#finish(TweenState.COMPLETE);
+        return Math.max(0, this.#elapsed - this.duration);
+      }
+      this.#elapsed = Math.max(0, this.#elapsed - this.duration);
+      this.#iteration++;
+      if (this.duration === 0) this.#iteration = this.repeat;
+    }
+    this.#apply(this.#elapsed / this.duration);
+    return 0;
+  }
+
+  /** @inheritdoc */
+  reset() {
+    if (this.#state === TweenState.CANCELLED) return;
+    this.#state = TweenState.PENDING;
+    this.#delayLeft = this.delay;
+    this.#elapsed = 0;
+    this.#iteration = 0;
+  }
+
+  /** @inheritdoc */
+  cancel() {
+    if (!isSettled(this)) this.#finish(TweenState.CANCELLED);
+  }
+
+  /** @inheritdoc */
+  cancelTarget(target: object) {
+    if (target === this.target) this.cancel();
+  }
+
+  /**
+   * Notes the values the properties start from.
+   */
+  #start() {
+    const current = this.target as Record<string, number | Vec2>;
+    this.#to.forEach((_, key) => {
+      const value = current[key];
+      this.#from.set(key, value instanceof Vec2 ? value.clone() : value);
+    });
+    this.#state = TweenState.RUNNING;
+  }
+
+  /**
+   * Sets the properties to where they are at a point of the current play,
+   * going backwards on every other play of a yoyo.
+   */
+  #apply(t: number) {
+    const backwards = this.yoyo && this.#iteration % 2 === 1;
+    const eased = this.easing(backwards ? 1 - t : t);
+    const current = this.target as Record<string, number | Vec2>;
+    this.#to.forEach((to, key) => {
+      const from = this.#from.get(key)!;
+      if (to instanceof Vec2 && from instanceof Vec2) {
+        (current[key] as Vec2).reset(
+          from.x + (to.x - from.x) * eased,
+          from.y + (to.y - from.y) * eased
+        );
+      } else {
+        current[key] =
+          (from as number) + ((to as number) - (from as number)) * eased;
+      }
+    });
+  }
+
+  /**
+   * Ends the tween and settles `finished`.
+   */
+  #finish(state: TweenState) {
+    this.#state = state;
+    if (state === TweenState.COMPLETE) this.#onComplete?.();
+    this.#settle(state === TweenState.COMPLETE);
+  }
+}
@@ -0,0 +1,160 @@
+import type { EasingType } from "./Easing";
+import { Timeline } from "./Timeline";
+import {
+  isSettled,
+  Tween,
+  type Playable,
+  type PlayOptions,
+  type TweenOptions,
+  type TweenValues,
+} from "./Tween";
+import type { GameEngine } from "../Core/GameEngine";
+import { GameObject } from "../Core/GameObject";
+
+/**
+ * Plays tweens and timelines, ticked by the engine once per simulation tick,
+ * before the game objects update.
+ *
+ * Tweens of game objects follow the objects: they hold while the object's scene
+ * isn't the active one, such as under a pause menu, and are cancelled when the
+ * object is removed from the engine.
+ *
+ * `finished` promises settle after the tick, so game logic that has to replay
+ * exactly, tick for tick, should use `onComplete` instead.
+ *
+ * @example
+ * await engine.tweens.to(player, { cannonAngle: 1 }, 0.5, "quadInOut").finished;
+ */
+export class TweenManager {
+  /** The engine the manager belongs to. */
+  engine: GameEngine;
+
+  /**
+   * The tweens and timelines playing.
+   * @private
+   */
+  #playing: Playable[] = [];
+
+  /**
+   * Creates a new TweenManager.
+   * @param {GameEngine} engine - The engine the manager belongs to.
+   */
+  constructor(engine: GameEngine) {
+    this.engine = engine;
+    engine.events.on("objectRemoved", ({ object }) =>
+      this.cancelTweensOf(object)
+    );
+  }
+
+  /**
+   * Gets the tweens and timelines playing.
+   * @returns {Playable[]} A copy of the list.
+   */
+  get playing(): Playable[] {
+    return [...this.#playing];
+  }
+
+  /**
+   * Tweens an object's properties from where they are to new values.
+   * @example
+   * engine.tweens.to(label, { position: new Vec2(0, 100), rotation: 1 }, 0.5, "backOut");
+   * @param {T} target - The object whose properties are changed.
+   * @param {TweenValues<T>} values - The number and Vec2 values to move to, by property.
+   * @param {number} duration - How long one play takes, in seconds.
+   * @param {EasingType} easing - The easing, or its name. Defaults to "linear".
+   * @param {TweenOptions} options - The delay, repeats and yoyo.
+   * @returns {Tween<T>} The tween, playing.
+   * @throws {Error} If a property isn't a number or a Vec2.
+   */
+  to<T extends object>(
+    target: T,
+    values: TweenValues<T>,
+    duration: number,
+    easing: EasingType = "linear",
+    options: TweenOptions = {}
+  ): Tween<T> {
+    return this.play(new Tween(target, values, duration, easing, options));
+  }
+
+  /**
+   * Plays tweens and timelines one after the other.
+   * @param {Playable[]} steps - The tweens and timelines, not yet playing.
+   * @param {PlayOptions} options - The delay and repeats.
+   * @returns {Timeline} The timeline, playing.
+   */
+  sequence(steps: Playable[], options?: PlayOptions): Timeline {
+    return this.play(Timeline.sequence(steps, options));
+  }
+
+  /**
+   * Plays tweens and timelines all at once.
+   * @param {Playable[]} steps - The tweens and timelines, not yet playing.
+   * @param {PlayOptions} options - The delay and repeats.
+   * @returns {Timeline} The timeline, playing.
+   */
+  parallel(steps: Playable[], options?: PlayOptions): Timeline {
+    return this.play(Timeline.parallel(steps, options));
+  }
+
+  /**
+   * Plays a tween or timeline from the next tick.
+   * @param {P} playable - The tween or timeline.
+   * @returns {P} The same tween or timeline.
+   * @throws {Error} If it's already playing, or has finished.
+   */
+  play<P extends Playable>(playable: P): P {
+    if (this.#playing.includes(playable))
+      throw new Error("The tween is already playing.");
+    if (isSettled(playable)) throw new Error("The tween has finished.");
+    this.#playing.push(playable);
+    return playable;
+  }
+
+  /**
+   * Cancels every tween of an object, including tweens in timelines.
+   * @param {object} target - The object.
+   */
+  cancelTweensOf(target: object) {
+    this.#playing.forEach((playable) => playable.cancelTarget(target));
+    this.#removeSettled();
+  }
+
+  /**
+   * Cancels every tween and timeline, leaving the values where they are.
+   */
+  cancelAll() {
+    const playing = this.#playing;
+    this.#playing = [];
+    playing.forEach((playable) => playable.cancel());
+  }
+
+  /**
+   * Moves every tween and timeline on, except those holding for a scene that
+   * isn't active, and drops those that have finished.
+   * @param {number} deltaTime - The time elapsed since the last tick.
+   */
+  update(deltaTime: number) {
+    [...this.#playing].forEach((playable) => {
+      if (!this.#holding(playable)) playable.advance(deltaTime);
+    });
+    this.#removeSettled();
+  }
+
+  /**
+   * Whether a tween or timeline changes a game object in a scene that isn't the active one.
+   */
+  #holding(playable: Playable): boolean {
+    const active = this.engine.scenes.current;
+    return playable.targets.some(
+      (target) =>
+        target instanceof GameObject && target.scene && target.scene !== active
+    );
+  }
+
+  /**
+   * Drops the tweens and timelines that have finished.
+   */
+  #removeSettled() {
+    this.#playing = this.#playing.filter((playable) => !isSettled(playable));
+  }
+}
@@ -1,5 +1,7 @@
 import { Vec2 } from "wtc-math";
-import { Pane } from "tweakpane";
+
+import type { AssetManifest } from "./Core/AssetManager";
+import type { ActionBindings } from "./Core/InputManager";
 
 export const params = {
   wind: new Vec2(0, 0),
@@ -7,12 +9,56 @@ export const params = {
   "ground height": 100,
 };
 
-const pane = new Pane();
-const globals = pane.addFolder({ title: "Globals" });
-console.log(pane);
-globals.addBinding(params, "wind", {
-  x: { min: -5, max: 5 },
-  y: { min: -5, max: 5 },
-});
-globals.addBinding(params, "gravity");
-globals.addBinding(params, "ground height");
+/**
+ * The default controls. Letters are bound by code, so they stay in place on any layout.
+ * Gamepad buttons use the standard mapping: the left stick and d-pad move and aim,
+ * the right trigger fires, A confirms and Start pauses. Each button has one action.
+ */
+export const defaultBindings: ActionBindings = {
+  moveLeft: [
+    { type: "code", code: "KeyA" },
+    { type: "key", key: "ArrowLeft" },
+    { type: "gamepadAxis", axis: 0, direction: -1 },
+    { type: "gamepadButton", button: 14 },
+  ],
+  moveRight: [
+    { type: "code", code: "KeyD" },
+    { type: "key", key: "ArrowRight" },
+    { type: "gamepadAxis", axis: 0, direction: 1 },
+    { type: "gamepadButton", button: 15 },
+  ],
+  aimUp: [
+    { type: "code", code: "KeyW" },
+    { type: "key", key: "ArrowUp" },
+    { type: "gamepadButton", button: 12 },
+  ],
+  aimDown: [
+    { type: "code", code: "KeyS" },
+    { type: "key", key: "ArrowDown" },
+    { type: "gamepadButton", button: 13 },
+  ],
+  fire: [
+    { type: "code", code: "Space" },
+    { type: "mouse", button: 0 },
+    { type: "gamepadButton", button: 7 },
+  ],
+  confirm: [
+    { type: "key", key: "Enter" },
+    { type: "gamepadButton", button: 0 },
+  ],
+  pause: [
+    { type: "key", key: "Escape" },
+    { type: "gamepadButton", button: 9 },
+  ],
+};
+
+/**
+ * The assets of the game, loaded before the title screen. URLs are relative to the page,
+ * files in `public` are served from the root.
+ */
+export const manifest: AssetManifest = {
+  tank: { type: "atlas", url: "assets/tank.json" },
+  fire: { type: "audio", url: "assets/fire.wav" },
+  explosion: { type: "audio", url: "assets/explosion.wav" },
+  music: { type: "audio", url: "assets/music.wav" },
+};
@@ -1,8 +1,24 @@
 import { Vec2 } from "wtc-math";
+import { Pane } from "tweakpane";
 
+import type { AudioBackend } from "./Audio/AudioBackend";
+import { MemoryAudioBackend } from "./Audio/MemoryAudioBackend";
+import { AssetManager } from "./Core/AssetManager";
 import { GameEngine } from "./Core/GameEngine";
-import { Background, Ground, Player } from "./GameObjects";
-import { params } from "./config";
+import type { InputBinding } from "./Core/InputManager";
+import { ReplayManager, ReplayMode } from "./Core/ReplayManager";
+import { HeadlessRenderer } from "./Graphics/HeadlessRenderer";
+import type { Renderer } from "./Graphics/Renderer";
+import {
+  benchmarkDrawModes,
+  LoadingScene,
+  MatchScene,
+  TitleScene,
+} from "./Scenes";
+import { defaultBindings, manifest, params } from "./config";
+
+const BINDINGS_STORAGE_KEY = "engineDemo.bindings";
+const SAVE_STORAGE_KEY = "engineDemo.save";
 
 const root = document.getElementById("root") as HTMLElement;
 
@@ -15,36 +31,242 @@ root.appendChild(gameCanvas);
 root.style.setProperty("--width", `${LOGICAL_WIDTH}px`);
 root.style.setProperty("--height", `${LOGICAL_HEIGHT}px`);
 
-// dpr should come from the engine, rather than needing to be added to each element.
-
-const gameEngine = new GameEngine({
-  canvas: gameCanvas,
-  dimensions: new Vec2(LOGICAL_WIDTH, LOGICAL_HEIGHT),
-  dpr,
+const pane = new Pane();
+const globals = pane.addFolder({ title: "Globals" });
+globals.addBinding(params, "wind", {
+  x: { min: -5, max: 5 },
+  y: { min: -5, max: 5 },
 });
+globals.addBinding(params, "gravity");
+globals.addBinding(params, "ground height");
 
-if (gameEngine.canvas) {
-  const background = new Background({
-    id: "mainBackground",
+// Shared by every engine, so the verification replays use the loaded assets
+const assets = new AssetManager({ manifest });
+
+/**
+ * Creates an engine for the game, with the saved controls and the live params.
+ * Replays, including the verification ones, run in engines made the same way.
+ * @param canvas The canvas to read input from and draw to, or null for a headless engine.
+ * @param audio The audio backend. Defaults to Web Audio.
+ * @param renderer The renderer. Defaults to drawing to the canvas.
+ * @param settings The params the physics reads and replays restore. Defaults to the live ones.
+ * @returns The engine, without a scene.
+ */
+const createEngine = (
+  canvas: HTMLCanvasElement | null,
+  audio?: AudioBackend,
+  renderer?: Renderer,
+  settings: typeof params = params
+) => {
+  const engine = new GameEngine({
+    canvas,
+    renderer,
     dimensions: new Vec2(LOGICAL_WIDTH, LOGICAL_HEIGHT),
     dpr,
+    assets,
+    audio,
   });
-  const ground = new Ground({
-    id: "Ground",
-    dimensions: new Vec2(LOGICAL_WIDTH, LOGICAL_HEIGHT),
-    dpr,
+  try {
+    engine.inputManager.loadBindings(
+      localStorage.getItem(BINDINGS_STORAGE_KEY) ?? defaultBindings
+    );
+  } catch {
+    engine.inputManager.loadBindings(defaultBindings);
+  }
+  engine.physics.environment = settings;
+  engine.replay.settings = settings;
+  engine.replay.createScene = () => new TitleScene();
+  return engine;
+};
+
+const gameEngine = createEngine(gameCanvas);
+gameEngine.scenes.replace(new LoadingScene({ next: () => new TitleScene() }));
+
+const input = gameEngine.inputManager;
+
+gameEngine.debug.pane = pane;
+
+const time = pane.addFolder({ title: "Time" });
+time.addBinding(gameEngine, "timeScale", { min: 0, max: 2 });
+time.addBinding(gameEngine, "paused");
+time.addButton({ title: "Step" }).on("click", () => gameEngine.step());
+
+const describe = (binding: InputBinding) => {
+  switch (binding.type) {
+    case "key":
+      return binding.key;
+    case "code":
+      return binding.code;
+    case "mouse":
+      return `Mouse ${binding.button}`;
+    case "gamepadButton":
+      return `Pad ${binding.button}`;
+    case "gamepadAxis":
+      return `Axis ${binding.axis}${binding.direction > 0 ? "+" : "-"}`;
+  }
+};
+const controls = pane.addFolder({ title: "Controls", expanded: false });
+const buttons = Object.keys(defaultBindings).map((action) => {
+  const button = controls.addButton({ title: action });
+  const refresh = () => {
+    button.label = action;
+    button.title = input.getBindings(action).map(describe).join(", ");
+  };
+  button.on("click", async () => {
+    button.title = "Press a key...";
+    input.bindAction(action, [await input.captureBinding()]);
+    localStorage.setItem(BINDINGS_STORAGE_KEY, JSON.stringify(input));
+    refresh();
   });
-  const player = new Player({
-    id: "player1",
-    position: new Vec2(50, LOGICAL_HEIGHT - params["ground height"] - 25),
-    dimensions: new Vec2(50, 50),
-    speed: 150,
-    dpr,
+  refresh();
+  return refresh;
+});
+controls.addButton({ title: "Reset controls" }).on("click", () => {
+  input.loadBindings(defaultBindings);
+  localStorage.removeItem(BINDINGS_STORAGE_KEY);
+  buttons.forEach((refresh) => refresh());
+});
+
+const audio = pane.addFolder({ title: "Audio", expanded: false });
+audio.addBinding(gameEngine.audio, "masterVolume", {
+  label: "master",
+  min: 0,
+  max: 1,
+});
+audio.addBinding(gameEngine.audio, "musicVolume", {
+  label: "music",
+  min: 0,
+  max: 1,
+});
+audio.addBinding(gameEngine.audio, "sfxVolume", {
+  label: "sfx",
+  min: 0,
+  max: 1,
+});
+audio.addBinding(gameEngine.audio, "muted");
+
+const layers = pane.addFolder({ title: "Layers", expanded: false });
+gameEngine.layers.all
+  .filter((layer) => !layer.screen)
+  .forEach((layer) =>
+    layers.addBinding(layer, "parallax", {
+      label: layer.name,
+      min: 0,
+      max: 2,
+    })
+  );
+
+const rendering = pane.addFolder({ title: "Rendering", expanded: false });
+rendering.addBinding(gameEngine, "cacheStaticLayers", {
+  label: "static layers",
+});
+rendering.addBinding(gameEngine, "dirtyRects", { label: "dirty rects" });
+const benchmarkButton = rendering.addButton({ title: "Benchmark" });
+benchmarkButton.on("click", () => {
+  // Drawn to a canvas that isn't on the page, silently
+  const results = benchmarkDrawModes(() =>
+    createEngine(document.createElement("canvas"), new MemoryAudioBackend())
+  );
+  benchmarkButton.title = `Benchmark: ${results
+    .map(({ frameTime }) => `${frameTime.toFixed(2)}ms`)
+    .join(" / ")}`;
+});
+
+const saveFolder = pane.addFolder({ title: "Save", expanded: false });
+saveFolder.addButton({ title: "Save" }).on("click", () => {
+  // Saved from under the pause menu too
+  const match = gameEngine.scenes.stack.find(
+    (scene) => scene instanceof MatchScene
+  );
+  if (!match) return;
+  localStorage.setItem(
+    SAVE_STORAGE_KEY,
+    JSON.stringify(gameEngine.serializeScene(match))
+  );
+});
+saveFolder.addButton({ title: "Load" }).on("click", () => {
+  const save = localStorage.getItem(SAVE_STORAGE_KEY);
+  if (save) gameEngine.scenes.reset(new MatchScene({ save }));
+});
+
+const replay = gameEngine.replay;
+const replayFolder = pane.addFolder({ title: "Replay", expanded: false });
+const recordButton = replayFolder.addButton({ title: "Record" });
+recordButton.on("click", () => {
+  if (replay.mode === ReplayMode.RECORDING) replay.stop();
+  else replay.record();
+});
+replayFolder.addButton({ title: "Play" }).on("click", () => {
+  if (replay.recording) replay.play(replay.recording);
+});
+// Scrubbing jumps to a tick of the replay
+const scrubber = {
+  get tick() {
+    return replay.tick;
+  },
+  set tick(tick: number) {
+    if (replay.mode === ReplayMode.REPLAYING) replay.seek(tick);
+  },
+};
+const addScrubber = (index: number) =>
+  replayFolder.addBinding(scrubber, "tick", {
+    min: 0,
+    max: Math.max(1, replay.length),
+    step: 1,
+    index,
   });
+let scrubberBinding = addScrubber(2);
+gameEngine.events.on("replayModeChanged", ({ mode }) => {
+  recordButton.title = mode === ReplayMode.RECORDING ? "Stop" : "Record";
+  // The range of the slider can't change, so it's added again
+  const index = replayFolder.children.indexOf(scrubberBinding);
+  scrubberBinding.dispose();
+  scrubberBinding = addScrubber(index);
+});
+gameEngine.events.on("afterUpdate", () => scrubberBinding.refresh());
 
-  gameEngine.addObject(background);
-  gameEngine.addObject(ground);
-  gameEngine.addObject(player);
+replayFolder.addButton({ title: "Export" }).on("click", () => {
+  if (!replay.recording) return;
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(
+    new Blob([replay.export()], { type: "application/json" })
+  );
+  link.download = `replay-${replay.recording.seed}.json`;
+  link.click();
+  // Revoked once the download has started, as some browsers read the file after `click`
+  setTimeout(() => URL.revokeObjectURL(link.href), 0);
+});
+const importButton = replayFolder.addButton({ title: "Import" });
+importButton.on("click", () => {
+  const file = document.createElement("input");
+  file.type = "file";
+  file.accept = "application/json";
+  file.addEventListener("change", async () => {
+    try {
+      const text = await file.files?.[0]?.text();
+      if (!text) return;
+      replay.play(text);
+      importButton.title = "Import";
+    } catch (error) {
+      importButton.title = `Import: ${
+        error instanceof Error ? error.message : "failed"
+      }`;
+    }
+  });
+  file.click();
+});
+const verifyButton = replayFolder.addButton({ title: "Verify" });
+verifyButton.on("click", () => {
+  if (!replay.recording) return;
+  // Replayed twice headless and silently, without drawing, each with its own params
+  // so restoring the recorded ones leaves the live game alone
+  const identical = ReplayManager.verify(replay.recording, () =>
+    createEngine(null, new MemoryAudioBackend(), new HeadlessRenderer(), {
+      ...params,
+      wind: params.wind.clone(),
+    })
+  );
+  verifyButton.title = identical ? "Verify: identical" : "Verify: diverged";
+});
 
-  gameEngine.playing = true;
-}
+gameEngine.playing = true;